@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import * as schema from '../src/lib/db/schema';
+import { users } from '../src/lib/db/schema';
+import { join } from 'path';
+import { eq, sql } from 'drizzle-orm';
+import dotenv from 'dotenv';
+
+/**
+ * Assign roles to users created before roles existed. db:push gives every
+ * existing user the default 'viewer' role; run this once right after it.
+ *
+ *   npm run db:backfill-roles -- --owner=you@yourcompany.com   # viewers become admins, one owner
+ *
+ * The owner defaults to OWNER_EMAIL. Users invited after the upgrade should
+ * not be backfilled, so do not re-run this once roles are in use.
+ */
+
+// Load environment variables
+dotenv.config({ path: join(__dirname, '..', '.env') });
+
+// Validate database URL
+if (!process.env.DATABASE_URL) {
+  console.error('❌ DATABASE_URL is not defined in .env file');
+  process.exit(1);
+}
+
+// Create a dedicated connection for the backfill
+const client = postgres(process.env.DATABASE_URL, {
+  max: 1,
+  idle_timeout: 20,
+  connect_timeout: 10,
+});
+
+const db = drizzle(client, { schema });
+
+async function main() {
+  const ownerArg = process.argv.find((arg) => arg.startsWith('--owner='))?.slice('--owner='.length);
+  const ownerEmail = (ownerArg || process.env.OWNER_EMAIL || '').trim().toLowerCase();
+
+  if (!ownerEmail) {
+    console.error('❌ Pass --owner=<email> or set OWNER_EMAIL');
+    await client.end();
+    process.exit(1);
+  }
+
+  try {
+    await db.transaction(async (tx) => {
+      const [owner] = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(sql`lower(${users.email}) = ${ownerEmail}`)
+        .limit(1);
+
+      if (!owner) {
+        throw new Error(`No user with email ${ownerEmail}`);
+      }
+
+      console.log('👥 Promoting existing users to admin...');
+      const promoted = await tx
+        .update(users)
+        .set({ role: 'admin', updated_at: new Date() })
+        .where(eq(users.role, 'viewer'))
+        .returning({ id: users.id });
+
+      await tx
+        .update(users)
+        .set({ role: 'owner', updated_at: new Date() })
+        .where(eq(users.id, owner.id));
+
+      console.log(`✅ ${promoted.length} users are now admins, ${ownerEmail} is the owner`);
+    });
+
+  } catch (error) {
+    console.error('❌ Error backfilling roles:', error);
+    throw error;
+  } finally {
+    await client.end();
+  }
+}
+
+main();
@@ -0,0 +1,104 @@
+#!/usr/bin/env tsx
+
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import * as schema from '../src/lib/db/schema';
+import { clicks } from '../src/lib/db/schema';
+import { userAgentColumns } from '../src/lib/user-agent';
+import { join } from 'path';
+import { and, asc, eq, gt, isNotNull, isNull } from 'drizzle-orm';
+import dotenv from 'dotenv';
+
+/**
+ * Fill in browser, OS, device type and the bot flag for clicks recorded
+ * before user agents were parsed at ingest.
+ *
+ *   npm run db:backfill-user-agents          # only rows that were never parsed
+ *   npm run db:backfill-user-agents -- --all # re-parse every row (after parser changes)
+ */
+
+// Load environment variables
+dotenv.config({ path: join(__dirname, '..', '.env') });
+
+// Validate database URL
+if (!process.env.DATABASE_URL) {
+  console.error('❌ DATABASE_URL is not defined in .env file');
+  process.exit(1);
+}
+
+// Create a dedicated connection for the backfill
+const client = postgres(process.env.DATABASE_URL, {
+  max: 1,
+  idle_timeout: 20,
+  connect_timeout: 10,
+});
+
+const db = drizzle(client, { schema });
+
+// Distinct user agents per round; each becomes one UPDATE
+const BATCH_SIZE = 500;
+
+async function main() {
+  const reparseAll = process.argv.includes('--all');
+
+  try {
+    console.log(`🔎 Parsing user agents of ${reparseAll ? 'all' : 'unparsed'} clicks...`);
+
+    let lastUserAgent = '';
+    let userAgentsParsed = 0;
+    let clicksUpdated = 0;
+    let botClicks = 0;
+
+    // Walk the distinct user agents in order so each is handled once
+    while (true) {
+      const batch = await db
+        .selectDistinct({ userAgent: clicks.user_agent })
+        .from(clicks)
+        .where(and(
+          isNotNull(clicks.user_agent),
+          gt(clicks.user_agent, lastUserAgent),
+          reparseAll ? undefined : isNull(clicks.device_type),
+        ))
+        .orderBy(asc(clicks.user_agent))
+        .limit(BATCH_SIZE);
+
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const { userAgent } of batch) {
+        const columns = userAgentColumns(userAgent);
+        const updated = await db
+          .update(clicks)
+          .set(columns)
+          .where(and(
+            eq(clicks.user_agent, userAgent!),
+            reparseAll ? undefined : isNull(clicks.device_type),
+          ))
+          .returning({ id: clicks.id });
+
+        clicksUpdated += updated.length;
+        if (columns.is_bot) {
+          botClicks += updated.length;
+        }
+      }
+
+      userAgentsParsed += batch.length;
+      lastUserAgent = batch[batch.length - 1].userAgent!;
+      console.log(`   📝 ${userAgentsParsed} user agents, ${clicksUpdated} clicks`);
+    }
+
+    console.log(`✅ Updated ${clicksUpdated} clicks (${botClicks} from bots)`);
+    if (clicksUpdated > 0) {
+      console.log('   💡 Run npm run db:rollup-clicks -- --rebuild so the dashboard counts pick up the changes');
+    }
+
+  } catch (error) {
+    console.error('❌ Error backfilling user agents:', error);
+    throw error;
+  } finally {
+    await client.end();
+  }
+}
+
+main();
@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import * as schema from '../src/lib/db/schema';
+import { getRolledUpTo, rebuildClickRollups, rollUpPendingClicks } from '../src/lib/analytics/click-rollups';
+import { join } from 'path';
+import dotenv from 'dotenv';
+
+/**
+ * Roll up clicks into the hourly and daily analytics tables.
+ *
+ *   npm run db:rollup-clicks                                 # hours that ended since the last pass
+ *   npm run db:rollup-clicks -- --rebuild                    # recompute everything
+ *   npm run db:rollup-clicks -- --rebuild --from=2025-01-01  # recompute from a date (after backfills)
+ */
+
+// Load environment variables
+dotenv.config({ path: join(__dirname, '..', '.env') });
+
+// Validate database URL
+if (!process.env.DATABASE_URL) {
+  console.error('❌ DATABASE_URL is not defined in .env file');
+  process.exit(1);
+}
+
+// Create a dedicated connection for the rollup
+const client = postgres(process.env.DATABASE_URL, {
+  max: 1,
+  idle_timeout: 20,
+  connect_timeout: 10,
+});
+
+const db = drizzle(client, { schema });
+
+async function main() {
+  const rebuild = process.argv.includes('--rebuild');
+  const fromArg = process.argv.find((arg) => arg.startsWith('--from='))?.slice('--from='.length);
+  const from = fromArg ? new Date(fromArg) : undefined;
+
+  if (from && isNaN(from.getTime())) {
+    console.error(`❌ Invalid --from date: ${fromArg}`);
+    await client.end();
+    process.exit(1);
+  }
+
+  try {
+    let hours: number;
+    if (rebuild) {
+      console.log(`🔁 Rebuilding click rollups ${from ? `from ${from.toISOString().slice(0, 10)}` : 'for all clicks'}...`);
+      hours = await rebuildClickRollups(db, from);
+    } else {
+      console.log('📊 Rolling up new clicks...');
+      hours = await rollUpPendingClicks(db);
+    }
+
+    const rolledUpTo = await getRolledUpTo(db);
+    console.log(`✅ Rolled up ${hours} hours${rolledUpTo ? `, complete up to ${rolledUpTo.toISOString()}` : ''}`);
+
+  } catch (error) {
+    console.error('❌ Error rolling up clicks:', error);
+    throw error;
+  } finally {
+    await client.end();
+  }
+}
+
+main();
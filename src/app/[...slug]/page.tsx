@@ -1,8 +1,17 @@
-import { notFound, redirect } from 'next/navigation';
+import { notFound, redirect, permanentRedirect } from 'next/navigation';
 import { BlockService } from '@/lib/services/block-service';
+import { SlugAliasService } from '@/lib/services/slug-alias-service';
+import { GeoIpService } from '@/lib/services/geoip-service';
 import { renderBlock, getBlockMetadata } from '@/lib/renderers';
 import { BlockRenderer } from '@/components/blocks/BlockRenderer';
-import { headers } from 'next/headers';
+import { LinkUnavailable } from '@/components/LinkUnavailable';
+import { LinkUnlockForm } from '@/components/LinkUnlockForm';
+import { getAccessCookieName, getAccessPasswordHash, verifyAccessToken } from '@/lib/link-access';
+import { VISITOR_COOKIE_NAME } from '@/lib/auth-constants';
+import { QR_SOURCE_PARAM } from '@/lib/services/qr-service';
+import { VISITOR_RETRY_PARAM } from '@/lib/visitor';
+import { getClientIpFromHeaders } from '@/lib/request-info';
+import { headers, cookies } from 'next/headers';
 import type { Metadata } from 'next';
 
 /**
@@ -18,8 +27,12 @@ import type { Metadata } from 'next';
  * - Efficient block tree loading
  */
 
+// UTM parameters recorded with clicks, stored without the "utm_" prefix
+const UTM_PARAMS = ['source', 'medium', 'campaign', 'term', 'content'];
+
 interface UniversalPageProps {
   params: Promise<{ slug: string[] }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
 /**
@@ -38,6 +51,14 @@ export async function generateMetadata({ params }: UniversalPageProps): Promise<
     };
   }
 
+  // Don't reveal titles or descriptions of password-protected content
+  if (block.type === 'root' && getAccessPasswordHash(block.metadata)) {
+    return {
+      title: 'Password Required',
+      robots: 'noindex, nofollow',
+    };
+  }
+
   const metadata = getBlockMetadata(block);
   
   return {
@@ -52,52 +73,179 @@ export async function generateMetadata({ params }: UniversalPageProps): Promise<
 }
 
 /**
- * Extract client IP address from headers
+ * Convert the page query into URL search params
  */
-function getClientIP(headersList: Headers): string | undefined {
-  // Check various headers for IP address (in order of preference)
-  const ipHeaders = [
-    'x-forwarded-for',
-    'x-real-ip',
-    'cf-connecting-ip', // Cloudflare
-    'x-client-ip',
-    'x-cluster-client-ip',
-  ];
-
-  for (const header of ipHeaders) {
-    const value = headersList.get(header);
-    if (value) {
-      // x-forwarded-for can contain multiple IPs, take the first one
-      const ip = value.split(',')[0].trim();
-      if (ip && ip !== '::1' && ip !== '127.0.0.1') {
-        return ip;
-      }
+function toSearchParams(query: Record<string, string | string[] | undefined>): URLSearchParams {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(key, item);
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Convert the page query into forwardable parameters, dropping internal markers
+ */
+function toForwardableParams(query: Record<string, string | string[] | undefined>): URLSearchParams {
+  const params = toSearchParams(query);
+  params.delete(QR_SOURCE_PARAM);
+  params.delete(VISITOR_RETRY_PARAM);
+  return params;
+}
+
+/**
+ * Read the UTM parameters of the visit, e.g. { source: 'newsletter' }
+ */
+function getUtmParams(query: Record<string, string | string[] | undefined>): Record<string, string> | undefined {
+  const utm: Record<string, string> = {};
+
+  for (const key of UTM_PARAMS) {
+    const value = query[`utm_${key}`];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first) {
+      utm[key] = first.slice(0, 100);
     }
   }
 
-  return undefined;
+  return Object.keys(utm).length > 0 ? utm : undefined;
 }
 
-export default async function UniversalPage({ params }: UniversalPageProps) {
+/**
+ * Whether a redirect has rules that depend on the visitor's country
+ */
+function hasCountryRule(data: Record<string, unknown>): boolean {
+  return Array.isArray(data.rules) &&
+    data.rules.some((rule: { type?: string }) => rule?.type === 'country');
+}
+
+/**
+ * Resolve the visitor's country with the configured GeoIP providers
+ */
+async function getClientCountry(headersList: Headers, ipAddress?: string): Promise<string | undefined> {
+  const location = await GeoIpService.lookup(ipAddress, headersList);
+  return location?.country;
+}
+
+/**
+ * Check whether a password-protected block has been unlocked by this visitor
+ */
+async function isUnlocked(slug: string, passwordHash: string): Promise<boolean> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(getAccessCookieName(slug))?.value;
+
+  try {
+    return verifyAccessToken(slug, passwordHash, token);
+  } catch {
+    // Missing signing secret - treat as locked
+    return false;
+  }
+}
+
+export default async function UniversalPage({ params, searchParams }: UniversalPageProps) {
   const { slug } = await params;
   const slugString = slug?.join('/') || '';
+
+  // QR codes carry a query marker so printed traffic can be told apart
+  const query = await searchParams;
+  const source = query[QR_SOURCE_PARAM] !== undefined ? 'qr' : 'web';
+  const utm = getUtmParams(query);
   
   // Get request headers for analytics
   const headersList = await headers();
   const userAgent = headersList.get('user-agent') || undefined;
   const referrer = headersList.get('referer') || undefined;
-  const ipAddress = getClientIP(headersList);
+  const ipAddress = getClientIpFromHeaders(headersList) || undefined;
   
   // Get block with performance optimization
   const block = await BlockService.getBlockBySlug(slugString);
   
   if (!block) {
-    notFound();
+    // Old slugs of renamed blocks permanently redirect to the current slug
+    const alias = await SlugAliasService.resolveAlias(slugString);
+    if (!alias) {
+      notFound();
+    }
+
+    // Only the alias hit is counted here; the visit itself is tracked on the current slug
+    SlugAliasService.recordHit(alias.id).catch(() => {
+      // Handle analytics error silently
+    });
+
+    // Keep the query string, including the QR marker, on the new URL
+    const queryString = toSearchParams(query).toString();
+    permanentRedirect(`/${alias.currentSlug}${queryString ? `?${queryString}` : ''}`);
+  }
+
+  // Ask for the access password before redirecting or rendering
+  const passwordHash = block.type === 'root' ? getAccessPasswordHash(block.metadata) : null;
+  if (passwordHash && !(await isUnlocked(slugString, passwordHash))) {
+    // Locked visits are recorded separately from successful unlocks
+    BlockService.trackClick(block.id, {
+      timestamp: new Date().toISOString(),
+      source,
+      utm,
+      type: 'locked',
+      userAgent,
+      referrer,
+      ipAddress,
+    }, headersList).catch(() => {
+      // Handle analytics error silently
+    });
+
+    return <LinkUnlockForm slug={slugString} />;
   }
 
   // Handle redirects immediately (critical for URL shortener performance)
   if (block.renderer === 'redirect') {
-    const renderResult = await renderBlock(block);
+    // Only count clicks when the link has a cap to enforce
+    const clickCount = block.data.max_clicks
+      ? await BlockService.getRedirectClickCount(block.id)
+      : undefined;
+
+    // Only look up the visitor's country when a country rule needs it
+    const country = hasCountryRule(block.data)
+      ? await getClientCountry(headersList, ipAddress)
+      : undefined;
+
+    const visitorId = (await cookies()).get(VISITOR_COOKIE_NAME)?.value;
+    const renderResult = await renderBlock(block, {
+      userAgent,
+      referrer,
+      ipAddress,
+      clickCount,
+      country,
+      acceptLanguage: headersList.get('accept-language') || undefined,
+      visitorId,
+      searchParams: toForwardableParams(query),
+    });
+
+    if (renderResult.type === 'unavailable') {
+      BlockService.trackClick(block.id, {
+        timestamp: new Date().toISOString(),
+        source,
+        utm,
+        type: 'unavailable',
+        reason: renderResult.reason,
+        userAgent,
+        referrer,
+        ipAddress,
+      }, headersList).catch(() => {
+        // Handle analytics error silently
+      });
+
+      return (
+        <LinkUnavailable
+          reason={renderResult.reason}
+          message={renderResult.message}
+          activateAt={renderResult.activateAt}
+        />
+      );
+    }
     
     if (renderResult.type === 'redirect') {
       // Validate URL before redirecting
@@ -107,15 +255,28 @@ export default async function UniversalPage({ params }: UniversalPageProps) {
         // Invalid redirect URL, return 404
         notFound();
       }
+
+      // First visit to a link with variants: store a visitor ID and come back, so later visits get the same variant
+      if (renderResult.variant && !visitorId && query[VISITOR_RETRY_PARAM] === undefined) {
+        const params = toSearchParams(query);
+        params.set(VISITOR_RETRY_PARAM, '1');
+        redirect(`/api/visitor?next=${encodeURIComponent(`/${slugString}?${params.toString()}`)}`);
+      }
       
       // Track analytics asynchronously with enhanced data (non-blocking)
       BlockService.trackClick(block.id, {
         timestamp: new Date().toISOString(),
-        type: 'redirect',
+        source,
+        utm,
+        type: renderResult.fallbackReason ? 'fallback' : 'redirect',
+        reason: renderResult.fallbackReason,
+        matchedRule: renderResult.matchedRule,
+        variant: renderResult.variant,
+        country,
         userAgent,
         referrer,
         ipAddress,
-      }).catch(() => {
+      }, headersList).catch(() => {
         // Handle analytics error silently
       });
       
@@ -137,11 +298,13 @@ export default async function UniversalPage({ params }: UniversalPageProps) {
     // Track analytics asynchronously with enhanced data (non-blocking)
     BlockService.trackClick(block.id, {
       timestamp: new Date().toISOString(),
+      source,
+      utm,
       type: 'view',
       userAgent,
       referrer,
       ipAddress,
-    }).catch(() => {
+    }, headersList).catch(() => {
       // Handle analytics error silently
     });
 
@@ -0,0 +1,37 @@
+'use client';
+
+import { useAuth } from '@/lib/hooks/useAuth';
+import AuditLogViewer from '@/components/AuditLogViewer';
+
+export default function AuditLogPage() {
+  const { loading: authLoading } = useAuth();
+
+  if (authLoading) {
+    return (
+      <div className="container max-w-7xl mx-auto px-4 py-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-24 bg-muted rounded"></div>
+            ))}
+          </div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-7xl mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+        <p className="text-muted-foreground mt-1">
+          Every admin change, with who made it, from where and what changed
+        </p>
+      </div>
+      
+      <AuditLogViewer />
+    </div>
+  );
+}
\ No newline at end of file
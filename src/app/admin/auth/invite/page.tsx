@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { MailOpen, XCircle, Loader2 } from 'lucide-react';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, type UserRole } from '@/lib/permissions';
+
+interface InvitationPreview {
+  email: string;
+  role: UserRole;
+  invitedBy: string | null;
+  expiresAt: string;
+}
+
+export default function AcceptInvitationPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError('No invitation token provided');
+      return;
+    }
+
+    const loadInvitation = async () => {
+      try {
+        const res = await fetch(`/api/admin/auth/invitation?token=${encodeURIComponent(token)}`);
+        const data = await res.json();
+
+        if (res.ok) {
+          setInvitation(data.invitation);
+        } else {
+          setError(data.error || 'This invitation is invalid or has expired');
+        }
+      } catch {
+        setError('Network error occurred');
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  const acceptInvitation = async () => {
+    setAccepting(true);
+
+    try {
+      const res = await fetch('/api/admin/auth/invitation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok && data.twoFactorRequired) {
+        // Session is issued after the second step
+        router.replace('/admin/auth/two-factor');
+      } else if (res.ok) {
+        router.replace('/admin');
+      } else {
+        setError(data.error || 'Failed to accept invitation');
+        setAccepting(false);
+      }
+    } catch {
+      setError('Network error occurred');
+      setAccepting(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/50">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
+              <XCircle className="w-6 h-6 text-red-600" />
+            </div>
+            <CardTitle className="text-2xl">Invitation Unavailable</CardTitle>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <p className="text-muted-foreground">
+              {error}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Ask the person who invited you to send a new invitation.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => router.push('/admin/auth')}
+              className="w-full"
+            >
+              Go to Sign In
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/50">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+              <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            </div>
+            <CardTitle className="text-2xl">Loading invitation...</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+            <MailOpen className="w-6 h-6 text-blue-600" />
+          </div>
+          <CardTitle className="text-2xl">You&apos;re Invited</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-center text-muted-foreground">
+            {invitation.invitedBy || 'An administrator'} invited{' '}
+            <span className="font-medium text-foreground">{invitation.email}</span> to join as{' '}
+            <span className="font-medium text-foreground">{ROLE_LABELS[invitation.role] || invitation.role}</span>.
+          </p>
+          {ROLE_DESCRIPTIONS[invitation.role] && (
+            <p className="text-center text-sm text-muted-foreground">
+              {ROLE_DESCRIPTIONS[invitation.role]}.
+            </p>
+          )}
+          <Button onClick={acceptInvitation} disabled={accepting} className="w-full">
+            {accepting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Accepting...
+              </>
+            ) : (
+              'Accept Invitation'
+            )}
+          </Button>
+          <p className="text-center text-xs text-muted-foreground">
+            This invitation expires on {format(new Date(invitation.expiresAt), 'PPP')}. Once you have joined, sign in with a magic link sent to {invitation.email}.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,17 +1,61 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { browserSupportsWebAuthn, startAuthentication } from '@simplewebauthn/browser';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Mail, CheckCircle } from 'lucide-react';
+import { Mail, CheckCircle, Fingerprint } from 'lucide-react';
 
 export default function AdminAuthPage() {
   const [email, setEmail] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
+  const [passkeysSupported, setPasskeysSupported] = useState(false);
+  const [passkeyLoading, setPasskeyLoading] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    setPasskeysSupported(browserSupportsWebAuthn());
+  }, []);
+
+  // Magic links stay available when the passkey is cancelled or unknown
+  async function handlePasskeySignIn() {
+    setPasskeyLoading(true);
+    setError(null);
+
+    try {
+      const optionsRes = await fetch('/api/admin/auth/passkey/authenticate', { method: 'POST' });
+      const { challengeId, options } = await optionsRes.json();
+      if (!optionsRes.ok) throw new Error('Failed to start passkey sign-in');
+
+      const assertion = await startAuthentication({ optionsJSON: options });
+
+      const res = await fetch('/api/admin/auth/passkey/authenticate', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeId, response: assertion }),
+      });
+      const data = await res.json();
+
+      if (res.ok && data.twoFactorRequired) {
+        router.push('/admin/auth/two-factor');
+      } else if (res.ok) {
+        router.push('/admin');
+      } else {
+        setError(data.error || 'Passkey sign-in failed');
+      }
+    } catch (passkeyError) {
+      setError(passkeyError instanceof Error && passkeyError.name === 'NotAllowedError'
+        ? 'Passkey sign-in was cancelled. You can use a magic link instead.'
+        : 'Passkey sign-in failed. You can use a magic link instead.');
+    } finally {
+      setPasskeyLoading(false);
+    }
+  }
 
   async function handleSubmit(event: React.FormEvent) {
     event.preventDefault();
@@ -109,6 +153,25 @@ export default function AdminAuthPage() {
               {loading ? 'Sending...' : 'Send Magic Link'}
             </Button>
           </form>
+          {passkeysSupported && (
+            <>
+              <div className="my-4 flex items-center gap-3 text-xs text-muted-foreground">
+                <div className="h-px flex-1 bg-border" />
+                or
+                <div className="h-px flex-1 bg-border" />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handlePasskeySignIn}
+                disabled={passkeyLoading}
+                className="w-full"
+              >
+                <Fingerprint className="w-4 h-4 mr-2" />
+                {passkeyLoading ? 'Waiting for passkey...' : 'Sign in with a Passkey'}
+              </Button>
+            </>
+          )}
           <div className="mt-4 text-xs text-muted-foreground text-center">
             Only authorized email domains can access this admin panel.
           </div>
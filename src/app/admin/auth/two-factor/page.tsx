@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ShieldCheck, XCircle, Loader2 } from 'lucide-react';
+import { RecoveryCodesList, TwoFactorSetup } from '@/components/TwoFactorSetup';
+
+type Step = 'loading' | 'verify' | 'enroll' | 'recovery-codes' | 'expired';
+
+export default function TwoFactorPage() {
+  const router = useRouter();
+  const [step, setStep] = useState<Step>('loading');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const loadChallenge = async () => {
+      try {
+        const res = await fetch('/api/admin/auth/two-factor');
+        const data = await res.json();
+
+        if (res.ok) {
+          setStep(data.enrollmentRequired ? 'enroll' : 'verify');
+        } else {
+          setStep('expired');
+          setError(data.error || 'Sign-in expired. Request a new magic link.');
+        }
+      } catch {
+        setStep('expired');
+        setError('Network error occurred');
+      }
+    };
+
+    loadChallenge();
+  }, []);
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/admin/auth/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        router.push('/admin');
+      } else if (res.status === 401) {
+        setStep('expired');
+        setError(data.error);
+      } else {
+        setError(data.error || 'Invalid verification code');
+        setCode('');
+      }
+    } catch {
+      setError('Network error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (step === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/50">
+        <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+      </div>
+    );
+  }
+
+  if (step === 'expired') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/50">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
+              <XCircle className="w-6 h-6 text-red-600" />
+            </div>
+            <CardTitle className="text-2xl">Sign-in Expired</CardTitle>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <p className="text-muted-foreground">{error}</p>
+            <Button onClick={() => router.push('/admin/auth')} className="w-full">
+              Request New Magic Link
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/50">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+            <ShieldCheck className="w-6 h-6 text-blue-600" />
+          </div>
+          <CardTitle className="text-2xl">
+            {step === 'verify' ? 'Two-Factor Authentication' : step === 'enroll' ? 'Set Up Two-Factor Authentication' : 'Save Your Recovery Codes'}
+          </CardTitle>
+          {step === 'verify' && (
+            <p className="text-muted-foreground">
+              {useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the code from your authenticator app'}
+            </p>
+          )}
+          {step === 'enroll' && (
+            <p className="text-muted-foreground">
+              Two-factor authentication is required for your account
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {step === 'enroll' && (
+            <TwoFactorSetup
+              endpoint="/api/admin/auth/two-factor/setup"
+              onComplete={(codes) => {
+                setRecoveryCodes(codes);
+                setStep('recovery-codes');
+              }}
+            />
+          )}
+
+          {step === 'recovery-codes' && (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={recoveryCodes} />
+              <Button onClick={() => router.push('/admin')} className="w-full">
+                Continue to Dashboard
+              </Button>
+            </div>
+          )}
+
+          {step === 'verify' && (
+            <form onSubmit={handleSubmit} className="space-y-4" aria-label="Two-factor verification form">
+              {error && (
+                <div className="text-destructive text-sm bg-destructive/10 p-3 rounded-md" role="alert">
+                  {error}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="code">{useRecoveryCode ? 'Recovery code' : 'Verification code'}</Label>
+                <Input
+                  id="code"
+                  value={code}
+                  onChange={e => setCode(e.target.value)}
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  className="w-full font-mono"
+                  style={{ backgroundColor: 'var(--color-input-contrast)' }}
+                />
+              </div>
+              <Button type="submit" disabled={loading || !code.trim()} className="w-full">
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                  setError(null);
+                }}
+                className="w-full text-xs text-muted-foreground underline"
+              >
+                {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your device? Use a recovery code'}
+              </button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -22,7 +22,10 @@ export default function VerifyMagicLinkPage() {
 
       const data = await res.json();
 
-      if (res.ok) {
+      if (res.ok && data.twoFactorRequired) {
+        // Session is issued after the second step
+        router.replace('/admin/auth/two-factor');
+      } else if (res.ok) {
         setStatus('success');
         // Redirect to admin dashboard after a short delay
         setTimeout(() => {
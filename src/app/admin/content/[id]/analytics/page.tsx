@@ -0,0 +1,74 @@
+'use client';
+
+import { useRouter, useParams } from 'next/navigation';
+import { ArrowLeft, Edit } from 'lucide-react';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useBlock } from '@/lib/hooks/use-blocks';
+import { Button } from '@/components/ui/button';
+import BlockAnalyticsDashboard from '@/components/BlockAnalyticsDashboard';
+
+export default function BlockAnalyticsPage() {
+  const router = useRouter();
+  const params = useParams();
+  const { loading: authLoading } = useAuth();
+
+  const blockId = params.id as string;
+  const { data: blockData, isLoading } = useBlock(blockId);
+  const block = blockData?.block;
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="container max-w-7xl mx-auto px-4 py-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-24 bg-muted rounded"></div>
+            ))}
+          </div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!block) {
+    return (
+      <div className="container max-w-7xl mx-auto px-4 py-8 text-center">
+        <p className="text-muted-foreground">Content not found</p>
+      </div>
+    );
+  }
+
+  const title = (block.data.title as string | undefined) || block.slug;
+
+  return (
+    <div className="container max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-start gap-3 sm:gap-4 mb-8">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.back()}
+          className="p-2 mt-1 flex-shrink-0"
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-3xl font-bold text-foreground break-words">{title}</h1>
+          <p className="text-muted-foreground mt-1 break-all">
+            Analytics for <span className="font-mono text-sm">gremlin.link/{block.slug}</span>
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => router.push(`/admin/content/${block.id}/edit`)}
+        >
+          <Edit className="w-4 h-4 mr-2" />
+          Edit
+        </Button>
+      </div>
+
+      <BlockAnalyticsDashboard blockId={block.id} />
+    </div>
+  );
+}
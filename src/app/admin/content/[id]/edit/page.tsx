@@ -11,7 +11,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { ArrowLeft, Save, Eye, Trash2, Globe, EyeOff, MoreHorizontal } from 'lucide-react';
+import { ArrowLeft, Save, Eye, Trash2, Globe, EyeOff, MoreHorizontal, QrCode } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
 import { ContentBlock } from '@/lib/db/schema';
@@ -21,6 +21,10 @@ import { ArticleEditor } from '@/components/content-creator/editors/ArticleEdito
 import { ImageEditor } from '@/components/content-creator/editors/ImageEditor';
 import { HeadingEditor } from '@/components/content-creator/editors/HeadingEditor';
 import { TextEditor } from '@/components/content-creator/editors/TextEditor';
+import { RevisionHistory } from '@/components/content-creator/RevisionHistory';
+import { AccessPasswordCard } from '@/components/content-creator/AccessPasswordCard';
+import { SlugAliasesCard } from '@/components/content-creator/SlugAliasesCard';
+import { QRCodeDialog } from '@/components/content-creator/QRCodeDialog';
 
 /**
  * UNIVERSAL BLOCK EDITOR
@@ -54,6 +58,7 @@ export default function BlockEditPage() {
   
   const [, setIsDirty] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showQRDialog, setShowQRDialog] = useState(false);
   
   // Load existing block data
   useEffect(() => {
@@ -195,7 +200,7 @@ export default function BlockEditPage() {
 
         return (
           <div className="space-y-6">
-            <RedirectEditor block={mockBlock} onChange={handleBlockChange} />
+            <RedirectEditor block={mockBlock} onChange={handleBlockChange} showVariantResults={!isNew} />
           </div>
         );
         
@@ -522,6 +527,18 @@ export default function BlockEditPage() {
                   </Button>
                 )}
                 
+                {!isNew && blockData?.block?.type === 'root' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowQRDialog(true)}
+                    className="h-9 flex-1 sm:flex-none"
+                  >
+                    <QrCode className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">QR Code</span>
+                  </Button>
+                )}
+                
                 <Button
                   onClick={handleSave}
                   disabled={createMutation.isPending || updateMutation.isPending}
@@ -638,6 +655,17 @@ export default function BlockEditPage() {
               </div>
             </CardContent>
           </Card>
+
+          {!isNew && blockData?.block?.type === 'root' && (
+            <AccessPasswordCard
+              blockId={blockId}
+              isProtected={!!blockData.block.metadata?.access_password_hash}
+            />
+          )}
+
+          {!isNew && blockData?.block?.type === 'root' && <SlugAliasesCard blockId={blockId} />}
+
+          {!isNew && <RevisionHistory blockId={blockId} />}
           </div>
           
           {/* Right Column - Content Configuration */}
@@ -656,6 +684,15 @@ export default function BlockEditPage() {
           </div>
         </div>
 
+        {!isNew && (
+          <QRCodeDialog
+            blockId={blockId}
+            slug={formData.slug}
+            open={showQRDialog}
+            onOpenChange={setShowQRDialog}
+          />
+        )}
+
         {/* Delete Confirmation Dialog */}
         <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
           <DialogContent className="mx-4 sm:mx-0">
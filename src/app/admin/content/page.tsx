@@ -27,6 +27,8 @@ import {
   Home,
   Lock,
   Unlock,
+  QrCode,
+  ArrowUpDown,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -53,6 +55,8 @@ import {
 import { toast } from 'sonner';
 import { ContentBlock } from '@/lib/db/schema';
 import { cn } from '@/lib/utils';
+import { QRCodeDialog } from '@/components/content-creator/QRCodeDialog';
+import { LinkImportDialog } from '@/components/content-creator/LinkImportDialog';
 
 /**
  * UNIFIED CONTENT MANAGER
@@ -84,6 +88,10 @@ export default function ContentPage() {
     totalBlockCount: 0,
   });
   
+  // QR code dialog state
+  const [qrBlock, setQrBlock] = useState<ContentBlock | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  
   // Delete modal state
   const [deleteModal, setDeleteModal] = useState<{
     isOpen: boolean;
@@ -232,10 +240,7 @@ export default function ContentPage() {
     if (selectedBlocks.length === 0) return;
     
     bulkUpdateMutation.mutate(
-      selectedBlocks.map(id => ({
-        id,
-        data: { is_published: published },
-      })),
+      { ids: selectedBlocks, updates: { is_published: published } },
       {
         onSuccess: () => {
           clearSelection();
@@ -274,10 +279,10 @@ export default function ContentPage() {
   const handleToggleStatus = (block: ContentBlock) => {
     const newStatus = !block.is_published;
     
-    bulkUpdateMutation.mutate([{
-      id: block.id,
-      data: { is_published: newStatus },
-    }]);
+    bulkUpdateMutation.mutate({
+      ids: [block.id],
+      updates: { is_published: newStatus },
+    });
   };
 
   // Copy URL to clipboard
@@ -402,6 +407,16 @@ export default function ContentPage() {
             <span className="ml-2">{isSelectMode ? 'Exit Select' : 'Select'}</span>
           </Button>
 
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsImportOpen(true)}
+            className="flex-1 sm:flex-none"
+          >
+            <ArrowUpDown className="w-4 h-4" />
+            <span className="ml-2">Import / Export</span>
+          </Button>
+
           <Button 
             onClick={() => window.location.href = '/admin/content/create'} 
             className="bg-primary hover:bg-primary/90 flex-1 sm:flex-none"
@@ -702,6 +717,18 @@ export default function ContentPage() {
                             <Edit className="w-4 h-4 mr-2" />
                             Edit
                           </DropdownMenuItem>
+                          <DropdownMenuItem 
+                            onClick={() => {
+                              window.location.href = `/admin/content/${block.id}/analytics`;
+                            }}
+                          >
+                            <BarChart3 className="w-4 h-4 mr-2" />
+                            Analytics
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setQrBlock(block)}>
+                            <QrCode className="w-4 h-4 mr-2" />
+                            QR Code
+                          </DropdownMenuItem>
                           <DropdownMenuItem 
                             onClick={() => {
                               // Toggle publish status
@@ -770,7 +797,19 @@ export default function ContentPage() {
         </CardContent>
       </Card>
 
+      {qrBlock && (
+        <QRCodeDialog
+          blockId={qrBlock.id}
+          slug={qrBlock.slug}
+          open={!!qrBlock}
+          onOpenChange={(open) => !open && setQrBlock(null)}
+        />
+      )}
+
+      <LinkImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+
       {/* Delete Confirmation Modal */}
+
       <Dialog open={deleteModal.isOpen} onOpenChange={(open) => !open && setDeleteModal({ isOpen: false, block: null, isBulk: false, count: 0 })}>
         <DialogContent>
           <DialogHeader>
@@ -14,6 +14,7 @@ import {
   Settings,
   LogOut,
   Users,
+  ScrollText,
   Menu,
   X,
 } from 'lucide-react';
@@ -52,6 +53,12 @@ const navigation = [
     icon: Users,
     description: 'User management',
   },
+  {
+    name: 'Audit Log',
+    href: '/admin/audit',
+    icon: ScrollText,
+    description: 'Who changed what',
+  },
   {
     name: 'Settings',
     href: '/admin/settings',
@@ -8,17 +8,38 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
+import { ApiTokensCard } from '@/components/ApiTokensCard';
+import { TwoFactorCard } from '@/components/TwoFactorCard';
+import { PasskeysCard } from '@/components/PasskeysCard';
+import { SessionsCard } from '@/components/SessionsCard';
+import { VisitorDataCard } from '@/components/VisitorDataCard';
 import {
   Settings as SettingsIcon,
 
   Shield,
   Mail,
   Globe,
+  EyeOff,
 
   Save,
+  Send,
 } from 'lucide-react';
 
+const EMAIL_TRANSPORT_OPTIONS = [
+  { value: 'auto', label: 'Automatic (environment)' },
+  { value: 'resend', label: 'Resend' },
+  { value: 'smtp', label: 'SMTP' },
+  { value: 'file', label: 'Local files (development)' },
+];
+
+const IP_STORAGE_OPTIONS = [
+  { value: 'full', label: 'Full address' },
+  { value: 'truncated', label: 'Network only (last part removed)' },
+  { value: 'none', label: 'Do not store' },
+];
+
 interface SettingsData {
   general: {
     siteName: string;
@@ -29,17 +50,28 @@ interface SettingsData {
     requireAuth: boolean;
     enableRateLimit: boolean;
     enableAnalytics: boolean;
+    requireTwoFactor: boolean;
+    sessionIdleTimeout: number; // Minutes, 0 = never
+    sessionMaxLifetime: number; // Hours
   };
   email: {
+    transport: string;
+    fromEmail: string;
     smtpHost: string;
     smtpPort: number;
     smtpUsername: string;
-    smtpPassword: string;
+    smtpPassword: string; // Never sent by the server; blank keeps the saved password
+    hasSmtpPassword?: boolean;
   };
   domain: {
     customDomain: string;
     forceHttps: boolean;
   };
+  privacy: {
+    ipStorage: string;
+    rawDataRetentionDays: number; // 0 = keep forever
+  };
+  versions?: Record<string, number>;
 }
 
 export default function SettingsPage() {
@@ -54,8 +86,13 @@ export default function SettingsPage() {
       requireAuth: true,
       enableRateLimit: true,
       enableAnalytics: true,
+      requireTwoFactor: false,
+      sessionIdleTimeout: 0,
+      sessionMaxLifetime: 24 * 7,
     },
     email: {
+      transport: 'auto',
+      fromEmail: '',
       smtpHost: 'smtp.gmail.com',
       smtpPort: 587,
       smtpUsername: 'your-email@example.com',
@@ -65,10 +102,18 @@ export default function SettingsPage() {
       customDomain: 'your-domain.com',
       forceHttps: true,
     },
+    privacy: {
+      ipStorage: 'truncated',
+      rawDataRetentionDays: 30,
+    },
   });
   
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [clearSmtpPassword, setClearSmtpPassword] = useState(false);
+  const [testRecipient, setTestRecipient] = useState('');
+  const [isSendingTest, setIsSendingTest] = useState(false);
+  const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
 
   // Load settings on component mount
   useEffect(() => {
@@ -99,22 +144,56 @@ export default function SettingsPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(settings),
+        body: JSON.stringify({
+          ...settings,
+          email: {
+            ...settings.email,
+            smtpPassword: clearSmtpPassword ? null : settings.email.smtpPassword,
+          },
+        }),
       });
 
-      if (response.ok) {
-        toast.success('Settings saved successfully');
-      } else {
-        throw new Error('Failed to save settings');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save settings');
       }
-    } catch {
-      // Handle error silently
-      toast.error('Failed to save settings');
+
+      // Picks up the new section versions and blanks the password field again
+      setSettings(data.settings);
+      setClearSmtpPassword(false);
+      toast.success('Settings saved successfully');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
     } finally {
       setIsSaving(false);
     }
   };
 
+  const sendTestEmail = async () => {
+    setIsSendingTest(true);
+    setTestResult(null);
+    try {
+      const response = await fetch('/api/admin/settings/test-email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(testRecipient.trim() ? { to: testRecipient.trim() } : {}),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to send test email');
+      }
+
+      setTestResult({ success: true, message: data.message });
+      toast.success('Test email sent');
+    } catch (error) {
+      setTestResult({ success: false, message: error instanceof Error ? error.message : 'Failed to send test email' });
+      toast.error('Test email failed');
+    } finally {
+      setIsSendingTest(false);
+    }
+  };
+
   const updateSettings = (section: keyof SettingsData, field: string, value: string | number | boolean) => {
     setSettings(prev => ({
       ...prev,
@@ -230,7 +309,7 @@ export default function SettingsPage() {
               <div>
                 <Label>Enable Rate Limiting</Label>
                 <p className="text-sm text-muted-foreground">
-                  Limit the number of requests per user
+                  Throttle sign-in emails, failed magic links and public API requests per IP and email
                 </p>
               </div>
               <Checkbox 
@@ -250,9 +329,115 @@ export default function SettingsPage() {
                 onCheckedChange={(checked) => updateSettings('security', 'enableAnalytics', checked)}
               />
             </div>
+            <div className="flex items-center justify-between p-4 border rounded-lg bg-[var(--color-card-elevated)]">
+              <div>
+                <Label>Require Two-Factor Authentication</Label>
+                <p className="text-sm text-muted-foreground">
+                  Users without 2FA must set it up at their next sign-in
+                </p>
+              </div>
+              <Checkbox 
+                checked={settings.security.requireTwoFactor}
+                onCheckedChange={(checked) => updateSettings('security', 'requireTwoFactor', checked)}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="session-idle-timeout">Idle Timeout (minutes)</Label>
+                <Input
+                  id="session-idle-timeout"
+                  type="number"
+                  min={0}
+                  value={settings.security.sessionIdleTimeout}
+                  onChange={(e) => updateSettings('security', 'sessionIdleTimeout', parseInt(e.target.value) || 0)}
+                  className="bg-[var(--color-input-contrast)]"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Sign out sessions unused for this long; 0 never times out
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="session-max-lifetime">Session Lifetime (hours)</Label>
+                <Input
+                  id="session-max-lifetime"
+                  type="number"
+                  min={1}
+                  max={168}
+                  value={settings.security.sessionMaxLifetime}
+                  onChange={(e) => updateSettings('security', 'sessionMaxLifetime', parseInt(e.target.value) || 1)}
+                  className="bg-[var(--color-input-contrast)]"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Sign in again after this long regardless of activity (at most 168)
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Privacy Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <EyeOff className="w-5 h-5" />
+              Privacy Settings
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="ip-storage">Visitor IP Addresses</Label>
+                <Select
+                  value={settings.privacy.ipStorage}
+                  onValueChange={(value) => updateSettings('privacy', 'ipStorage', value)}
+                >
+                  <SelectTrigger id="ip-storage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IP_STORAGE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Location and unique visitors are still recorded when the IP is not stored
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="raw-data-retention">Raw Data Retention (days)</Label>
+                <Input
+                  id="raw-data-retention"
+                  type="number"
+                  min={0}
+                  max={3650}
+                  value={settings.privacy.rawDataRetentionDays}
+                  onChange={(e) => updateSettings('privacy', 'rawDataRetentionDays', parseInt(e.target.value) || 0)}
+                  className="bg-[var(--color-input-contrast)]"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  IPs and user agents of older clicks are removed; 0 keeps them forever, but visitor IDs can no longer be linked to them after a day
+                </p>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
+        {/* Visitor Data - erasure and purge run immediately */}
+        <VisitorDataCard />
+
+        {/* API Tokens - saved immediately, independent of the form below */}
+        <ApiTokensCard />
+
+        {/* Two-Factor - also saved immediately */}
+        <TwoFactorCard />
+
+        {/* Passkeys - also saved immediately */}
+        <PasskeysCard />
+
+        {/* Sessions - also applied immediately */}
+        <SessionsCard />
+
         {/* Email Settings */}
         <Card>
           <CardHeader>
@@ -262,6 +447,35 @@ export default function SettingsPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Transport</Label>
+                <Select
+                  value={settings.email.transport}
+                  onValueChange={(value) => updateSettings('email', 'transport', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMAIL_TRANSPORT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="from-email">From Address</Label>
+                <Input
+                  id="from-email"
+                  type="email"
+                  value={settings.email.fromEmail}
+                  onChange={(e) => updateSettings('email', 'fromEmail', e.target.value)}
+                  placeholder="Defaults to FROM_EMAIL"
+                  className="bg-[var(--color-input-contrast)]"
+                />
+              </div>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="smtp-host">SMTP Host</Label>
@@ -290,7 +504,6 @@ export default function SettingsPage() {
                 <Label htmlFor="smtp-user">SMTP Username</Label>
                 <Input
                   id="smtp-user"
-                  type="email"
                   value={settings.email.smtpUsername}
                   onChange={(e) => updateSettings('email', 'smtpUsername', e.target.value)}
                   placeholder="your-email@gmail.com"
@@ -303,11 +516,49 @@ export default function SettingsPage() {
                   id="smtp-pass"
                   type="password"
                   value={settings.email.smtpPassword}
-                  onChange={(e) => updateSettings('email', 'smtpPassword', e.target.value)}
-                  placeholder="••••••••"
+                  onChange={(e) => {
+                    updateSettings('email', 'smtpPassword', e.target.value);
+                    setClearSmtpPassword(false);
+                  }}
+                  placeholder={settings.email.hasSmtpPassword && !clearSmtpPassword ? 'Saved (leave blank to keep)' : 'Not set'}
+                  className="bg-[var(--color-input-contrast)]"
+                  autoComplete="new-password"
+                />
+                {settings.email.hasSmtpPassword && !clearSmtpPassword && !settings.email.smtpPassword && (
+                  <button
+                    type="button"
+                    onClick={() => setClearSmtpPassword(true)}
+                    className="mt-1 text-xs text-muted-foreground underline"
+                  >
+                    Remove saved password
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="border-t pt-4 space-y-2">
+              <Label htmlFor="test-recipient">Send Test Email</Label>
+              <p className="text-sm text-muted-foreground">
+                Uses the saved settings, so save any changes first.
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  id="test-recipient"
+                  type="email"
+                  value={testRecipient}
+                  onChange={(e) => setTestRecipient(e.target.value)}
+                  placeholder="Your account email"
                   className="bg-[var(--color-input-contrast)]"
                 />
+                <Button variant="outline" onClick={sendTestEmail} disabled={isSendingTest}>
+                  <Send className="w-4 h-4 mr-2" />
+                  {isSendingTest ? 'Sending...' : 'Send'}
+                </Button>
               </div>
+              {testResult && (
+                <p className={`text-sm break-words ${testResult.success ? 'text-green-700 dark:text-green-400' : 'text-destructive'}`}>
+                  {testResult.message}
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
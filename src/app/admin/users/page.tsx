@@ -21,6 +21,8 @@ import {
   UserCheck,
   UserX,
   AlertTriangle,
+  KeyRound,
+  ShieldOff,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -48,25 +50,55 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { USER_ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, UserRole, hasPermission } from '@/lib/permissions';
+import { AllSessionsCard } from '@/components/SessionsCard';
 
 interface User {
   id: string;
   email: string;
   name?: string;
+  role: UserRole;
   is_active: boolean;
   last_login?: Date;
   created_at: Date;
   updated_at: Date;
+  two_factor_enabled?: boolean;
 }
 
 interface CreateUserData {
   email: string;
   name?: string;
+  role: UserRole;
   is_active: boolean;
 }
 
+interface RoleSelectProps {
+  value: UserRole;
+  roles: readonly UserRole[];
+  onChange: (role: UserRole) => void;
+}
+
+function RoleSelect({ value, roles, onChange }: RoleSelectProps) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as UserRole)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {roles.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+            <span className="ml-2 text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 export default function UsersPage() {
   const { user: currentUser } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
@@ -79,11 +111,13 @@ export default function UsersPage() {
   const [newUser, setNewUser] = useState<CreateUserData>({
     email: '',
     name: '',
+    role: 'editor',
     is_active: true,
   });
   const [editUser, setEditUser] = useState<CreateUserData>({
     email: '',
     name: '',
+    role: 'editor',
     is_active: true,
   });
 
@@ -107,13 +141,16 @@ export default function UsersPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(userData),
       });
-      if (!response.ok) throw new Error('Failed to create user');
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create user');
+      }
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
       setIsCreateDialogOpen(false);
-      setNewUser({ email: '', name: '', is_active: true });
+      setNewUser({ email: '', name: '', role: 'editor', is_active: true });
       toast.success('User created successfully');
     },
     onError: (error) => {
@@ -129,14 +166,17 @@ export default function UsersPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(userData),
       });
-      if (!response.ok) throw new Error('Failed to update user');
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update user');
+      }
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
       setIsEditDialogOpen(false);
       setEditingUser(null);
-      setEditUser({ email: '', name: '', is_active: true });
+      setEditUser({ email: '', name: '', role: 'editor', is_active: true });
       toast.success('User updated successfully');
     },
     onError: (error) => {
@@ -152,7 +192,10 @@ export default function UsersPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ is_active }),
       });
-      if (!response.ok) throw new Error('Failed to update user');
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update user');
+      }
       return response.json();
     },
     onSuccess: () => {
@@ -172,7 +215,10 @@ export default function UsersPage() {
       const response = await fetch(`/api/admin/users/${id}`, {
         method: 'DELETE',
       });
-      if (!response.ok) throw new Error('Failed to delete user');
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete user');
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
@@ -185,6 +231,50 @@ export default function UsersPage() {
     },
   });
 
+  // Revoke API tokens mutation
+  const revokeTokensMutation = useMutation({
+    mutationFn: async (id: string): Promise<{ revoked: number }> => {
+      const response = await fetch(`/api/admin/users/${id}/revoke-tokens`, {
+        method: 'POST',
+      });
+      if (!response.ok) throw new Error('Failed to revoke API tokens');
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast.success(`Revoked ${data.revoked} API token${data.revoked === 1 ? '' : 's'}`);
+    },
+    onError: (error) => {
+      toast.error('Failed to revoke API tokens: ' + error.message);
+    },
+  });
+
+  // Reset 2FA mutation (lost authenticator)
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/users/${id}/reset-two-factor`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reset two-factor authentication');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('Two-factor authentication reset');
+    },
+    onError: (error) => {
+      toast.error('Failed to reset 2FA: ' + error.message);
+    },
+  });
+
+  // Only owners may hand out (or take away) the owner role
+  const canManageUsers = hasPermission(currentUser?.role, 'users:manage');
+  const assignableRoles = USER_ROLES.filter(role => role !== 'owner' || currentUser?.role === 'owner');
+  const canEditRole = (user: User | null) =>
+    !!user && (user.role !== 'owner' || currentUser?.role === 'owner');
+
   // Filter users based on search
   const filteredUsers = users.filter(user =>
     user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -209,6 +299,7 @@ export default function UsersPage() {
     setEditUser({
       email: user.email,
       name: user.name || '',
+      role: user.role,
       is_active: user.is_active, // Keep original value, but don't allow editing
     });
     setIsEditDialogOpen(true);
@@ -306,7 +397,7 @@ export default function UsersPage() {
           </div>
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
-              <Button>
+              <Button disabled={!canManageUsers}>
                 <UserPlus className="w-4 h-4 mr-2" />
                 Add User
               </Button>
@@ -340,6 +431,14 @@ export default function UsersPage() {
                     style={{ backgroundColor: 'var(--color-input-contrast)' }}
                   />
                 </div>
+                <div>
+                  <Label>Role</Label>
+                  <RoleSelect
+                    value={newUser.role}
+                    roles={assignableRoles}
+                    onChange={(role) => setNewUser({ ...newUser, role })}
+                  />
+                </div>
                 <div className="flex items-center space-x-2">
                   <Checkbox
                     id="active"
@@ -394,7 +493,16 @@ export default function UsersPage() {
                   style={{ backgroundColor: 'var(--color-input-contrast)' }}
                 />
               </div>
-
+              {canEditRole(editingUser) && (
+                <div>
+                  <Label>Role</Label>
+                  <RoleSelect
+                    value={editUser.role}
+                    roles={editingUser?.role === 'owner' ? USER_ROLES : assignableRoles}
+                    onChange={(role) => setEditUser({ ...editUser, role })}
+                  />
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button
@@ -556,6 +664,8 @@ export default function UsersPage() {
                           <Badge variant={user.is_active ? 'default' : 'secondary'}>
                             {user.is_active ? 'Active' : 'Inactive'}
                           </Badge>
+                          <Badge variant="outline">{ROLE_LABELS[user.role] || user.role}</Badge>
+                          {user.two_factor_enabled && <Badge variant="outline">2FA</Badge>}
                         </div>
                         <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                           <div className="flex items-center space-x-1">
@@ -576,7 +686,7 @@ export default function UsersPage() {
                       </div>
                     </div>
                     <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
+                      <DropdownMenuTrigger asChild disabled={!canManageUsers}>
                         <Button variant="ghost" size="sm">
                           <MoreHorizontal className="w-4 h-4" />
                         </Button>
@@ -610,6 +720,26 @@ export default function UsersPage() {
                           </DropdownMenuItem>
                         )}
                         
+                        <DropdownMenuItem
+                          onClick={() => revokeTokensMutation.mutate(user.id)}
+                        >
+                          <KeyRound className="w-4 h-4 mr-2" />
+                          Revoke API Tokens
+                        </DropdownMenuItem>
+
+                        {user.two_factor_enabled && (
+                          <DropdownMenuItem
+                            onClick={() => {
+                              if (confirm(`Reset two-factor authentication for ${user.email}? They can sign in with a magic link alone until they enrol again.`)) {
+                                resetTwoFactorMutation.mutate(user.id);
+                              }
+                            }}
+                          >
+                            <ShieldOff className="w-4 h-4 mr-2" />
+                            Reset 2FA
+                          </DropdownMenuItem>
+                        )}
+
                         <DropdownMenuItem
                           onClick={() => canDelete(user) ? handleDeleteUser(user) : undefined}
                           disabled={!canDelete(user)}
@@ -635,6 +765,8 @@ export default function UsersPage() {
             )}
           </CardContent>
         </Card>
+
+        <AllSessionsCard canManage={canManageUsers} />
       </div>
     </div>
   );
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { PrivacyService } from '@/lib/services/privacy-service';
+
+const EraseSchema = z.object({
+  ipAddress: z.string().min(1).max(45),
+  userAgent: z.string().max(1000).optional(), // Also finds clicks whose IP was truncated or not stored
+});
+
+// POST /api/admin/analytics/erase - Erase a visitor's personal data from click analytics
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'settings:manage');
+    if (!user) {
+      return response;
+    }
+
+    const body = await request.json();
+    const { ipAddress, userAgent } = EraseSchema.parse(body);
+    const erased = await PrivacyService.eraseVisitor(ipAddress, userAgent);
+
+    // The visitor's IP is deliberately left out of the audit log
+    await AuditLogService.record(request, user, {
+      action: 'analytics.erase',
+      targetType: 'analytics',
+      targetLabel: 'Visitor data',
+      after: { clicksErased: erased, matchedByUserAgent: Boolean(userAgent) },
+    });
+
+    return NextResponse.json({ success: true, erased });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('Invalid IP')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof Error && error.message.includes('No clicks found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to erase visitor data' },
+      { status: 500 }
+    );
+  }
+}
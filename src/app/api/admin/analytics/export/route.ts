@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AnalyticsService } from '@/lib/services/analytics-service';
-
-const SESSION_COOKIE_NAME = 'gremlinlink_session';
+import { requireUser } from '@/lib/auth';
 
 /**
  * GET /api/admin/analytics/export
@@ -10,14 +9,9 @@ const SESSION_COOKIE_NAME = 'gremlinlink_session';
  */
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    
-    if (!sessionCookie || !sessionCookie.value || sessionCookie.value.length === 0) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 },
-      );
+    const { user, response } = await requireUser(request, 'analytics:read');
+    if (!user) {
+      return response;
     }
 
     // Parse query parameters for date filtering
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { PrivacyService } from '@/lib/services/privacy-service';
+
+// POST /api/admin/analytics/purge - Purge raw click data past the retention period now
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'settings:manage');
+    if (!user) {
+      return response;
+    }
+
+    const result = await PrivacyService.purgeExpiredData();
+
+    await AuditLogService.record(request, user, {
+      action: 'analytics.purge',
+      targetType: 'analytics',
+      targetLabel: 'Expired click data',
+      after: { ...result },
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to purge analytics data' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,29 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AnalyticsService } from '@/lib/services/analytics-service';
-
-const SESSION_COOKIE_NAME = 'gremlinlink_session';
+import { requireUser } from '@/lib/auth';
 
 /**
  * GET /api/admin/analytics
  * Returns comprehensive analytics dashboard data
- * Supports optional date range filtering via query parameters
+ * Supports optional date range filtering via query parameters;
+ * bot traffic is left out unless includeBots=true
  */
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication using the same pattern as middleware
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    
-    if (!sessionCookie || !sessionCookie.value || sessionCookie.value.length === 0) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 },
-      );
+    const { user, response: authResponse } = await requireUser(request, 'analytics:read');
+    if (!user) {
+      return authResponse;
     }
 
     // Parse query parameters for date filtering
     const { searchParams } = new URL(request.url);
     const startDate = searchParams.get('start');
     const endDate = searchParams.get('end');
+    const includeBots = searchParams.get('includeBots') === 'true';
 
     let dateRange;
     if (startDate && endDate) {
@@ -35,7 +31,7 @@ export async function GET(request: NextRequest) {
 
     // Fetch analytics data with performance monitoring
     const startTime = performance.now();
-    const analyticsData = await AnalyticsService.getDashboardData(dateRange);
+    const analyticsData = await AnalyticsService.getDashboardData(dateRange, includeBots);
     const duration = performance.now() - startTime;
 
     // Add performance metadata
@@ -44,6 +40,7 @@ export async function GET(request: NextRequest) {
       metadata: {
         queryTime: Math.round(duration),
         dateRange: dateRange || null,
+        includeBots,
         generatedAt: new Date().toISOString(),
       },
     };
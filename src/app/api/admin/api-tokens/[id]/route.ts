@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { ApiTokenService } from '@/lib/services/api-token-service';
+
+// DELETE /api/admin/api-tokens/[id] - Revoke one of the current user's tokens
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    await ApiTokenService.revokeToken(user.user_id, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { ApiTokenService, createApiTokenSchema } from '@/lib/services/api-token-service';
+import { z } from 'zod';
+
+// GET /api/admin/api-tokens - List the current user's API tokens
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const tokens = await ApiTokenService.listTokens(user.user_id);
+
+    return NextResponse.json({ tokens });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/api-tokens - Create an API token (the token is only returned here)
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const body = await request.json();
+    const data = createApiTokenSchema.parse(body);
+
+    const { token, apiToken } = await ApiTokenService.createToken(user.user_id, data);
+
+    return NextResponse.json({ token, apiToken }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    );
+  }
+}
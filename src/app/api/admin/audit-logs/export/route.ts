@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+
+// GET /api/admin/audit-logs/export - Download matching audit log entries as CSV
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'audit:read');
+    if (!user) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const csvData = await AuditLogService.exportToCSV(AuditLogService.filtersFromSearchParams(searchParams));
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    const filename = `gremlinlink-audit-log-${timestamp}.csv`;
+
+    return new NextResponse(csvData, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to export audit log' },
+      { status: 500 }
+    );
+  }
+}
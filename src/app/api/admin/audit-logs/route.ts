@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+
+// GET /api/admin/audit-logs - List audit log entries with filtering
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'audit:read');
+    if (!user) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const filters = AuditLogService.filtersFromSearchParams(searchParams);
+    const { entries, total } = await AuditLogService.listEntries(filters);
+
+    return NextResponse.json({
+      entries,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+        hasMore: (filters.offset || 0) + entries.length < total,
+      },
+    });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeSignIn } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { InvitationService } from '@/lib/services/invitation-service';
+
+// GET /api/admin/auth/invitation?token= - Who invited whom, for the accept page
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    if (!token) {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const invitation = await InvitationService.getPreview(token);
+    if (!invitation) {
+      return NextResponse.json({ error: 'This invitation is invalid or has expired' }, { status: 404 });
+    }
+
+    return NextResponse.json({ invitation });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/auth/invitation - Accept an invitation and sign in
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const { user, invitation } = await InvitationService.acceptInvitation(token);
+
+    await AuditLogService.record(request, { user_id: user.id, email: user.email }, {
+      action: 'user.accept_invite',
+      targetType: 'user',
+      targetId: user.id,
+      targetLabel: user.email,
+      after: { role: user.role, invited_role: invitation.role },
+    });
+
+    // Sets the session cookie, or starts the 2FA step when policy requires it
+    return await completeSignIn(request, user.id);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('invalid or has expired')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes('deactivated')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
@@ -20,6 +20,7 @@ export async function GET(request: NextRequest) {
         user_id: session.user_id,
         email: session.email,
         name: session.name,
+        role: session.role,
         is_active: session.is_active,
       },
     });
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import { completeSignIn } from '@/lib/auth';
+import { PasskeyService } from '@/lib/services/passkey-service';
+
+const verifyAuthenticationSchema = z.object({
+  challengeId: z.string().min(1),
+  response: z.object({ id: z.string(), rawId: z.string(), type: z.literal('public-key') }).passthrough(),
+});
+
+// POST /api/admin/auth/passkey/authenticate - Sign-in options (no email needed)
+export async function POST() {
+  try {
+    return NextResponse.json(await PasskeyService.getAuthenticationOptions());
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to start passkey sign-in' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/auth/passkey/authenticate - Verify the assertion and sign in
+// A passkey unlocked with a PIN or biometric counts as two factors; otherwise
+// the TOTP step still applies when the user has it enabled.
+export async function PUT(request: NextRequest) {
+  try {
+    const body = verifyAuthenticationSchema.parse(await request.json());
+    const { userId, userVerified } = await PasskeyService.verifyAuthentication(
+      body.challengeId,
+      body.response as unknown as AuthenticationResponseJSON
+    );
+
+    return await completeSignIn(request, userId, { verified: userVerified });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('deactivated')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof Error && (
+      error.message.includes('expired') ||
+      error.message.includes('not registered') ||
+      error.message.includes('verification failed')
+    )) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
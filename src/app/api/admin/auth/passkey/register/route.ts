@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { RegistrationResponseJSON } from '@simplewebauthn/server';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { PasskeyService, passkeyNameSchema } from '@/lib/services/passkey-service';
+
+const verifyRegistrationSchema = z.object({
+  challengeId: z.string().min(1),
+  name: passkeyNameSchema,
+  response: z.object({ id: z.string(), rawId: z.string(), type: z.literal('public-key') }).passthrough(),
+});
+
+// POST /api/admin/auth/passkey/register - Registration options for the signed-in user
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    return NextResponse.json(await PasskeyService.getRegistrationOptions(user));
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to start passkey registration' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/auth/passkey/register - Verify the browser's response and save the passkey
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const body = verifyRegistrationSchema.parse(await request.json());
+    const passkey = await PasskeyService.verifyRegistration(
+      user.user_id,
+      body.challengeId,
+      body.response as unknown as RegistrationResponseJSON,
+      body.name
+    );
+
+    await AuditLogService.record(request, user, {
+      action: 'user.add_passkey',
+      targetType: 'user',
+      targetId: user.user_id,
+      targetLabel: user.email,
+      changes: { passkey: { from: null, to: passkey.name } },
+    });
+
+    return NextResponse.json({ passkey }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (error.message.includes('expired') || error.message.includes('verification failed'))) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to register passkey' },
+      { status: 500 }
+    );
+  }
+}
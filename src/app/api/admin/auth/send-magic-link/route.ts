@@ -1,8 +1,18 @@
 import { NextResponse } from 'next/server';
 import { isAllowedDomain, createOrGetUser, createMagicLink, sendMagicLink } from '@/lib/auth';
+import { InvitationService } from '@/lib/services/invitation-service';
+import { RateLimitService } from '@/lib/services/rate-limit-service';
 
 export async function POST(request: Request) {
   try {
+    const ipLimit = await RateLimitService.hit('magic-link-ip', RateLimitService.clientKey(request));
+    if (!ipLimit.allowed) {
+      return RateLimitService.tooManyRequests(
+        ipLimit,
+        `Too many sign-in requests. Try again in ${RateLimitService.formatRetryAfter(ipLimit.retryAfter)}.`
+      );
+    }
+
     const { email } = await request.json();
 
     if (!email || typeof email !== 'string') {
@@ -17,13 +27,22 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Invalid email format' }, { status: 400 });
     }
 
-    // Check if domain is allowed
-    if (!isAllowedDomain(normalizedEmail)) {
+    // Check if domain is allowed (invited collaborators may come from anywhere)
+    if (!isAllowedDomain(normalizedEmail) && !(await InvitationService.hasAcceptedInvitation(normalizedEmail))) {
       return NextResponse.json({ 
         error: 'This email domain is not authorized to access the admin panel',
       }, { status: 403 });
     }
 
+    // Stops the endpoint from being used to flood one inbox
+    const emailLimit = await RateLimitService.hit('magic-link-email', normalizedEmail);
+    if (!emailLimit.allowed) {
+      return RateLimitService.tooManyRequests(
+        emailLimit,
+        `Too many sign-in links sent to this address. Try again in ${RateLimitService.formatRetryAfter(emailLimit.retryAfter)}.`
+      );
+    }
+
     // Create or get user
     const user = await createOrGetUser(normalizedEmail);
 
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createUserSession, setSessionCookie } from '@/lib/auth';
+import { TWO_FACTOR_COOKIE_NAME } from '@/lib/auth-constants';
+import { TwoFactorService } from '@/lib/services/two-factor-service';
+
+const verifySchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+// GET /api/admin/auth/two-factor - State of the pending sign-in
+export async function GET(request: NextRequest) {
+  try {
+    const challengeToken = request.cookies.get(TWO_FACTOR_COOKIE_NAME)?.value;
+    const userId = challengeToken ? await TwoFactorService.getChallengeUserId(challengeToken) : null;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Sign-in expired. Request a new magic link.' }, { status: 401 });
+    }
+
+    return NextResponse.json({ enrollmentRequired: !(await TwoFactorService.isEnabled(userId)) });
+  } catch {
+    // Silent error handling - don't log to console
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/auth/two-factor - Complete sign-in with a TOTP or recovery code
+export async function POST(request: NextRequest) {
+  try {
+    const challengeToken = request.cookies.get(TWO_FACTOR_COOKIE_NAME)?.value;
+    if (!challengeToken) {
+      return NextResponse.json({ error: 'Sign-in expired. Request a new magic link.' }, { status: 401 });
+    }
+
+    const { code } = verifySchema.parse(await request.json());
+    const { userId, method } = await TwoFactorService.verifyChallenge(challengeToken, code);
+
+    const sessionToken = await createUserSession(userId, request);
+    const { recoveryCodesRemaining } = await TwoFactorService.getStatus(userId);
+
+    const response = NextResponse.json({
+      success: true,
+      method,
+      recoveryCodesRemaining,
+    });
+    setSessionCookie(response, sessionToken);
+    response.cookies.delete(TWO_FACTOR_COOKIE_NAME);
+
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('Sign-in expired')) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof Error && error.message === 'Invalid verification code') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
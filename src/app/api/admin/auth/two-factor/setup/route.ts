@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createUserSession, setSessionCookie } from '@/lib/auth';
+import { TWO_FACTOR_COOKIE_NAME } from '@/lib/auth-constants';
+import { TwoFactorService } from '@/lib/services/two-factor-service';
+import { UserService } from '@/lib/services/user-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+
+/**
+ * Enrolment during sign-in, for users who must set up 2FA before their
+ * first session. Authenticated by the pending challenge, not a session.
+ */
+
+const confirmSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+async function getChallengeUser(request: NextRequest) {
+  const challengeToken = request.cookies.get(TWO_FACTOR_COOKIE_NAME)?.value;
+  const userId = challengeToken ? await TwoFactorService.getChallengeUserId(challengeToken) : null;
+  const user = userId ? await UserService.getUserById(userId) : null;
+
+  return user && challengeToken ? { user, challengeToken } : null;
+}
+
+// POST /api/admin/auth/two-factor/setup - Generate a secret and QR code
+export async function POST(request: NextRequest) {
+  try {
+    const challenge = await getChallengeUser(request);
+    if (!challenge) {
+      return NextResponse.json({ error: 'Sign-in expired. Request a new magic link.' }, { status: 401 });
+    }
+
+    const setup = await TwoFactorService.startEnrollment(challenge.user.id, challenge.user.email);
+    return NextResponse.json(setup);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('already enabled')) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json({ error: 'Failed to start two-factor setup' }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/auth/two-factor/setup - Confirm the first code and sign in
+export async function PUT(request: NextRequest) {
+  try {
+    const challenge = await getChallengeUser(request);
+    if (!challenge) {
+      return NextResponse.json({ error: 'Sign-in expired. Request a new magic link.' }, { status: 401 });
+    }
+
+    const { code } = confirmSchema.parse(await request.json());
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(challenge.user.id, code);
+    await TwoFactorService.completeChallenge(challenge.challengeToken);
+
+    await AuditLogService.record(request, { user_id: challenge.user.id, email: challenge.user.email }, {
+      action: 'user.enable_two_factor',
+      targetType: 'user',
+      targetId: challenge.user.id,
+      targetLabel: challenge.user.email,
+    });
+
+    const sessionToken = await createUserSession(challenge.user.id, request);
+
+    const response = NextResponse.json({ success: true, recoveryCodes });
+    setSessionCookie(response, sessionToken);
+    response.cookies.delete(TWO_FACTOR_COOKIE_NAME);
+
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Invalid verification code' ||
+      error.message.includes('not been started') ||
+      error.message.includes('already enabled')
+    )) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json({ error: 'Failed to confirm two-factor setup' }, { status: 500 });
+  }
+}
@@ -1,8 +1,23 @@
 import { NextResponse } from 'next/server';
-import { verifyMagicLink, createUserSession, SESSION_COOKIE_NAME, SESSION_COOKIE_MAX_AGE } from '@/lib/auth';
+import { verifyMagicLink, completeSignIn } from '@/lib/auth';
+import { RateLimitService, type RateLimitResult } from '@/lib/services/rate-limit-service';
+
+// Too many bad tokens from one network looks like guessing; block it for the rest of the window
+function lockoutResponse(result: RateLimitResult) {
+  return RateLimitService.tooManyRequests(
+    result,
+    `Too many failed sign-in attempts. Sign-in links are blocked from this network for ${RateLimitService.formatRetryAfter(result.retryAfter)}.`
+  );
+}
 
 export async function POST(request: Request) {
   try {
+    const clientKey = RateLimitService.clientKey(request);
+    const lockout = await RateLimitService.check('magic-link-verify', clientKey);
+    if (!lockout.allowed) {
+      return lockoutResponse(lockout);
+    }
+
     const { token } = await request.json();
 
     if (!token || typeof token !== 'string') {
@@ -13,32 +28,20 @@ export async function POST(request: Request) {
     const userId = await verifyMagicLink(token);
 
     if (!userId) {
+      const failures = await RateLimitService.hit('magic-link-verify', clientKey);
+      if (!failures.allowed || failures.remaining === 0) {
+        return lockoutResponse(failures);
+      }
+
       return NextResponse.json({ 
         error: 'Invalid or expired magic link',
       }, { status: 401 });
     }
 
-    // Create user session
-    const sessionToken = await createUserSession(userId);
-
-    // Create response with session cookie
-    const response = NextResponse.json({ 
-      success: true, 
-      message: 'Successfully authenticated',
-    });
-
-    // Set secure HTTP-only cookie
-    response.cookies.set({
-      name: SESSION_COOKIE_NAME,
-      value: sessionToken,
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: SESSION_COOKIE_MAX_AGE,
-      path: '/',
-      sameSite: 'lax',
-    });
-
-    return response;
+    await RateLimitService.reset('magic-link-verify', clientKey);
+
+    // Sets the session cookie, or starts the 2FA step when the user needs one
+    return await completeSignIn(request, userId);
 
   } catch {
     // Log error for debugging (could be replaced with proper logging service)
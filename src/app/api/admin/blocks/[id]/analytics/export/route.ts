@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { AnalyticsService } from '@/lib/services/analytics-service';
+import { BlockService } from '@/lib/services/block-service';
+
+// GET /api/admin/blocks/[id]/analytics/export - Download one block's clicks as CSV or JSON
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'analytics:read');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const block = await BlockService.getBlockById(id);
+    if (!block) {
+      return NextResponse.json({ error: 'Block not found' }, { status: 404 });
+    }
+
+    // Without a number of days every click of the block is exported
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') === 'json' ? 'json' : 'csv';
+    const days = parseInt(searchParams.get('days') || '');
+    const dateRange = days > 0
+      ? { start: new Date(Date.now() - days * 24 * 60 * 60 * 1000), end: new Date() }
+      : undefined;
+
+    const data = format === 'json'
+      ? await AnalyticsService.exportToJSON(dateRange, id)
+      : await AnalyticsService.exportToCSV(dateRange, id);
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    const filename = `gremlinlink-analytics-${block.slug}-${timestamp}.${format}`;
+
+    return new NextResponse(data, {
+      status: 200,
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to export block analytics' },
+      { status: 500 }
+    );
+  }
+}
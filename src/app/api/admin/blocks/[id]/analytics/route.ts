@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { BlockService } from '@/lib/services/block-service';
+
+// GET /api/admin/blocks/[id]/analytics - Click report of one block, compared with the previous period
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'analytics:read');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), 365);
+    const includeBots = searchParams.get('includeBots') === 'true';
+
+    const analytics = await BlockService.getBlockAnalytics(id, days, includeBots);
+
+    return NextResponse.json({ analytics });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to fetch block analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { contentBlocks } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; childId: string }> }
 ) {
   try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
     const { id: parentId, childId } = await params;
 
     // Verify the child block exists and belongs to the parent
@@ -35,6 +42,14 @@ export async function DELETE(
       .delete(contentBlocks)
       .where(eq(contentBlocks.id, childId));
 
+    await AuditLogService.record(request, user, {
+      action: 'block.delete',
+      targetType: 'block',
+      targetId: childId,
+      targetLabel: childBlock.slug,
+      before: childBlock,
+    });
+
     return NextResponse.json({
       message: 'Child block removed successfully',
     });
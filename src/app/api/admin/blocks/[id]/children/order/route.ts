@@ -2,12 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { contentBlocks } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { requireUser } from '@/lib/auth';
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
     const { id: parentId } = await params;
     const { orderedIds } = await request.json();
 
@@ -2,12 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { contentBlocks } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
+    }
+
     const { id } = await params;
 
     // Handle temp blocks (not yet saved to database)
@@ -47,6 +54,11 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
     const { id: parentId } = await params;
     const { blockId } = await request.json();
 
@@ -95,6 +107,14 @@ export async function POST(
       })
       .returning();
 
+    await AuditLogService.record(request, user, {
+      action: 'block.create',
+      targetType: 'block',
+      targetId: childBlock.id,
+      targetLabel: childBlock.slug,
+      after: childBlock,
+    });
+
     return NextResponse.json({
       child: childBlock,
       message: 'Block added successfully',
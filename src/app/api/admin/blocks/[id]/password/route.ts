@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { BlockService } from '@/lib/services/block-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { z } from 'zod';
+
+const SetPasswordSchema = z.object({
+  password: z.string().min(4, 'Password must be at least 4 characters').max(200),
+});
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Validation error', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error.message.includes('Only root blocks')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// PUT /api/admin/blocks/[id]/password - Set or change the access password
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { password } = SetPasswordSchema.parse(body);
+
+    const before = await BlockService.getBlockById(id);
+    const block = await BlockService.setAccessPassword(id, password, user.user_id);
+
+    await AuditLogService.record(request, user, {
+      action: 'block.password',
+      targetType: 'block',
+      targetId: id,
+      targetLabel: block.slug,
+      before: before ? { metadata: before.metadata } : null,
+      after: { metadata: block.metadata },
+    });
+
+    return NextResponse.json({ success: true, isProtected: true });
+  } catch (error) {
+    // Log error for debugging (could be replaced with proper logging service)
+    return handleError(error, 'Failed to set password');
+  }
+}
+
+// DELETE /api/admin/blocks/[id]/password - Remove password protection
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const before = await BlockService.getBlockById(id);
+    const block = await BlockService.setAccessPassword(id, null, user.user_id);
+
+    await AuditLogService.record(request, user, {
+      action: 'block.password',
+      targetType: 'block',
+      targetId: id,
+      targetLabel: block.slug,
+      before: before ? { metadata: before.metadata } : null,
+      after: { metadata: block.metadata },
+    });
+
+    return NextResponse.json({ success: true, isProtected: false });
+  } catch (error) {
+    // Log error for debugging (could be replaced with proper logging service)
+    return handleError(error, 'Failed to remove password');
+  }
+}
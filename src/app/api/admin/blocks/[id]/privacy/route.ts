@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { LandingBlockService } from '@/lib/services/landing-block-service';
-import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { BlockService } from '@/lib/services/block-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { requireUser } from '@/lib/auth';
 
 // POST /api/admin/blocks/[id]/privacy - Toggle privacy status
 export async function POST(
@@ -8,14 +10,9 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
     }
 
     const { id } = await params;
@@ -36,6 +33,15 @@ export async function POST(
       );
     }
 
+    const block = await BlockService.getBlockById(id);
+    await AuditLogService.record(request, user, {
+      action: 'block.privacy',
+      targetType: 'block',
+      targetId: id,
+      targetLabel: block?.slug,
+      changes: { is_private: { from: !result.isPrivate, to: !!result.isPrivate } },
+    });
+
     return NextResponse.json({ 
       success: true, 
       isPrivate: result.isPrivate,
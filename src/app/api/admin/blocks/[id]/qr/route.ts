@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { QRService, qrOptionsSchema } from '@/lib/services/qr-service';
+import { z } from 'zod';
+
+// GET /api/admin/blocks/[id]/qr - Render the block's public URL as a QR code
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    // Empty query values fall back to defaults
+    const query = Object.fromEntries(
+      Array.from(searchParams.entries()).filter(([, value]) => value !== '')
+    );
+    const options = qrOptionsSchema.parse(query);
+    const image = await QRService.generateForBlock(id, options);
+
+    const headers: Record<string, string> = {
+      'Content-Type': image.contentType,
+      'Cache-Control': 'private, no-store',
+    };
+
+    if (searchParams.get('download') === '1') {
+      headers['Content-Disposition'] = `attachment; filename="${image.filename}"`;
+    }
+
+    return new NextResponse(new Uint8Array(image.body), { headers });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes('Only root blocks') || error.message.includes('Logo must')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to generate QR code' },
+      { status: 500 }
+    );
+  }
+}
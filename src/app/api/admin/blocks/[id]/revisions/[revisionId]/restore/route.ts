@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { RevisionService } from '@/lib/services/revision-service';
+import { BlockService } from '@/lib/services/block-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+
+// POST /api/admin/blocks/[id]/revisions/[revisionId]/restore - Roll a block back
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
+    const { id, revisionId } = await params;
+    const before = await BlockService.getBlockById(id);
+    const block = await RevisionService.restoreRevision(id, revisionId, user.user_id);
+
+    await AuditLogService.record(request, user, {
+      action: 'block.restore',
+      targetType: 'block',
+      targetId: id,
+      targetLabel: block.slug,
+      before: before ? { data: before.data, metadata: before.metadata } : null,
+      after: { data: block.data, metadata: block.metadata },
+    });
+
+    return NextResponse.json({ block });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to restore revision' },
+      { status: 500 }
+    );
+  }
+}
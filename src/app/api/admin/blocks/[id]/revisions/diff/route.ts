@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { RevisionService } from '@/lib/services/revision-service';
+
+// GET /api/admin/blocks/[id]/revisions/diff?from=<revisionId>&to=<revisionId|current>
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to') || 'current';
+
+    if (!from) {
+      return NextResponse.json(
+        { error: 'The "from" revision is required' },
+        { status: 400 }
+      );
+    }
+
+    const changes = await RevisionService.diffRevisions(id, from, to);
+
+    return NextResponse.json({ from, to, changes });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Revision not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to diff revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { RevisionService } from '@/lib/services/revision-service';
+
+// GET /api/admin/blocks/[id]/revisions - List revisions for a block
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const revisions = await RevisionService.getRevisions(id, limit);
+
+    return NextResponse.json({ revisions });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to fetch revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { contentBlocks, blockTags } from '@/lib/db/schema';
-import { getCurrentUser } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
+import { RevisionService } from '@/lib/services/revision-service';
+import { SlugAliasService } from '@/lib/services/slug-alias-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { preserveAccessPassword } from '@/lib/link-access';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 
@@ -30,9 +34,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser(request);
+    const { user, response } = await requireUser(request, 'content:read');
     if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return response;
     }
 
     const { id } = await params;
@@ -79,9 +83,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser(request);
+    const { user, response } = await requireUser(request, 'content:write');
     if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return response;
     }
 
     const { id } = await params;
@@ -90,7 +94,7 @@ export async function PUT(
 
     // Check if block exists
     const existingBlock = await db
-      .select({ id: contentBlocks.id })
+      .select()
       .from(contentBlocks)
       .where(eq(contentBlocks.id, id))
       .limit(1);
@@ -117,16 +121,42 @@ export async function PUT(
 
     // Prepare update data (exclude tags from block update)
     const { tags, ...blockUpdateData } = validatedData;
+
+    // The access password is managed through /api/admin/blocks/[id]/password
+    if (blockUpdateData.metadata) {
+      blockUpdateData.metadata = preserveAccessPassword(
+        blockUpdateData.metadata,
+        existingBlock[0].metadata as Record<string, unknown>
+      );
+    }
     
-    // Update the block
-    const [updatedBlock] = await db
-      .update(contentBlocks)
-      .set({
-        ...blockUpdateData,
-        updated_at: new Date(),
-      })
-      .where(eq(contentBlocks.id, id))
-      .returning();
+    // Update the block, snapshotting the previous version when content changes
+    const [updatedBlock] = await db.transaction(async (tx) => {
+      // Keep the old slug as an alias so existing links keep working
+      if (blockUpdateData.slug && blockUpdateData.slug !== existingBlock[0].slug) {
+        await SlugAliasService.recordRename(tx, id, existingBlock[0].slug, blockUpdateData.slug, user.user_id);
+      }
+
+      if (blockUpdateData.data || blockUpdateData.metadata) {
+        await RevisionService.recordRevision(tx, {
+          id,
+          data: existingBlock[0].data as Record<string, unknown>,
+          metadata: existingBlock[0].metadata as Record<string, unknown>,
+        }, user.user_id, {
+          data: (blockUpdateData.data ?? existingBlock[0].data) as Record<string, unknown>,
+          metadata: (blockUpdateData.metadata ?? existingBlock[0].metadata) as Record<string, unknown>,
+        });
+      }
+
+      return tx
+        .update(contentBlocks)
+        .set({
+          ...blockUpdateData,
+          updated_at: new Date(),
+        })
+        .where(eq(contentBlocks.id, id))
+        .returning();
+    });
 
     // Handle tags update if provided
     if (tags !== undefined) {
@@ -146,6 +176,21 @@ export async function PUT(
       }
     }
 
+    // A change of is_published alone is logged as a publish toggle
+    const changes = AuditLogService.diff(existingBlock[0], updatedBlock);
+    const changedFields = Object.keys(changes);
+    const isPublishToggle = changedFields.length === 1 && changedFields[0] === 'is_published';
+
+    await AuditLogService.record(request, user, {
+      action: isPublishToggle
+        ? (updatedBlock.is_published ? 'block.publish' : 'block.unpublish')
+        : 'block.update',
+      targetType: 'block',
+      targetId: id,
+      targetLabel: updatedBlock.slug,
+      changes,
+    });
+
     return NextResponse.json({ block: updatedBlock });
 
   } catch (error) {
@@ -158,6 +203,13 @@ export async function PUT(
       );
     }
 
+    if (error instanceof Error && error.message.includes('reserved')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -171,16 +223,16 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser(request);
+    const { user, response } = await requireUser(request, 'content:write');
     if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return response;
     }
 
     const { id } = await params;
 
     // Check if block exists
     const existingBlock = await db
-      .select({ id: contentBlocks.id })
+      .select()
       .from(contentBlocks)
       .where(eq(contentBlocks.id, id))
       .limit(1);
@@ -194,6 +246,14 @@ export async function DELETE(
       .delete(contentBlocks)
       .where(eq(contentBlocks.id, id));
 
+    await AuditLogService.record(request, user, {
+      action: 'block.delete',
+      targetType: 'block',
+      targetId: id,
+      targetLabel: existingBlock[0].slug,
+      before: existingBlock[0],
+    });
+
     return NextResponse.json({ success: true });
 
   } catch {
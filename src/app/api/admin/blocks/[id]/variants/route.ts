@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { AnalyticsService } from '@/lib/services/analytics-service';
+
+// GET /api/admin/blocks/[id]/variants - Clicks per A/B variant
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'analytics:read');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start');
+    const endDate = searchParams.get('end');
+
+    const dateRange = startDate && endDate
+      ? { start: new Date(startDate), end: new Date(endDate) }
+      : undefined;
+
+    const variants = await AnalyticsService.getVariantReport(id, dateRange);
+
+    return NextResponse.json({ variants });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to fetch variant report' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { contentBlocks } from '@/lib/db/schema';
 import { eq, and, notInArray } from 'drizzle-orm';
+import { requireUser } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
+    }
+
     const { searchParams } = new URL(request.url);
     const excludeTypes = searchParams.get('exclude')?.split(',') || [];
     const excludeIds = searchParams.get('excludeIds')?.split(',') || [];
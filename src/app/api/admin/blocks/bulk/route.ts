@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { contentBlocks } from '@/lib/db/schema';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { inArray } from 'drizzle-orm';
+import { z } from 'zod';
+
+const BulkActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('update'),
+    ids: z.array(z.string().uuid()).min(1).max(500),
+    updates: z.object({
+      is_published: z.boolean().optional(),
+      display_order: z.number().int().min(0).optional(),
+    }),
+  }),
+  z.object({
+    action: z.literal('delete'),
+    ids: z.array(z.string().uuid()).min(1).max(500),
+  }),
+]);
+
+// POST /api/admin/blocks/bulk - Update or delete several blocks at once
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
+    const body = await request.json();
+    const validatedData = BulkActionSchema.parse(body);
+
+    const existingBlocks = await db
+      .select()
+      .from(contentBlocks)
+      .where(inArray(contentBlocks.id, validatedData.ids));
+
+    if (existingBlocks.length === 0) {
+      return NextResponse.json({ error: 'Block not found' }, { status: 404 });
+    }
+
+    const ids = existingBlocks.map(block => block.id);
+
+    if (validatedData.action === 'delete') {
+      // Cascading deletes handle tags, revisions and clicks
+      await db
+        .delete(contentBlocks)
+        .where(inArray(contentBlocks.id, ids));
+
+      for (const block of existingBlocks) {
+        await AuditLogService.record(request, user, {
+          action: 'block.delete',
+          targetType: 'block',
+          targetId: block.id,
+          targetLabel: block.slug,
+          before: block,
+        });
+      }
+
+      return NextResponse.json({ success: true, deleted: ids.length });
+    }
+
+    const updatedBlocks = await db
+      .update(contentBlocks)
+      .set({
+        ...validatedData.updates,
+        updated_at: new Date(),
+      })
+      .where(inArray(contentBlocks.id, ids))
+      .returning();
+
+    // Logged per block, the same way as single edits
+    for (const updatedBlock of updatedBlocks) {
+      const existingBlock = existingBlocks.find(block => block.id === updatedBlock.id)!;
+      const changes = AuditLogService.diff(existingBlock, updatedBlock);
+      const changedFields = Object.keys(changes);
+      if (changedFields.length === 0) {
+        continue;
+      }
+
+      const isPublishToggle = changedFields.length === 1 && changedFields[0] === 'is_published';
+
+      await AuditLogService.record(request, user, {
+        action: isPublishToggle
+          ? (updatedBlock.is_published ? 'block.publish' : 'block.unpublish')
+          : 'block.update',
+        targetType: 'block',
+        targetId: updatedBlock.id,
+        targetLabel: updatedBlock.slug,
+        changes,
+      });
+    }
+
+    return NextResponse.json({ success: true, updated: updatedBlocks.length });
+
+  } catch (error) {
+    // Log error for debugging (could be replaced with proper logging service)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { LinkImportService } from '@/lib/services/link-import-service';
+
+// GET /api/admin/blocks/export - Download all redirect links as CSV or JSON
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') === 'json' ? 'json' : 'csv';
+
+    const body = await LinkImportService.exportLinks(format);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="gremlinlink-links-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to export links' },
+      { status: 500 }
+    );
+  }
+}
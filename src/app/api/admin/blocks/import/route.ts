@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { LinkImportService } from '@/lib/services/link-import-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { z } from 'zod';
+
+const ImportSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1).max(5 * 1024 * 1024),
+  strategy: z.enum(['skip', 'overwrite', 'rename']).default('skip'),
+  dryRun: z.boolean().default(true),
+});
+
+// POST /api/admin/blocks/import - Preview or import redirect links from CSV/JSON
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
+    const body = await request.json();
+    const options = ImportSchema.parse(body);
+
+    const report = await LinkImportService.importLinks(options, user.user_id);
+
+    if (!report.dryRun && report.summary.create + report.summary.overwrite > 0) {
+      const slugsFor = (action: 'create' | 'overwrite') => report.rows
+        .filter((row) => row.action === action)
+        .map((row) => row.finalSlug || row.slug);
+
+      await AuditLogService.record(request, user, {
+        action: 'block.import',
+        targetType: 'block',
+        targetLabel: `${report.summary.create + report.summary.overwrite} links (${report.strategy})`,
+        changes: {
+          created: { from: null, to: slugsFor('create') },
+          overwritten: { from: null, to: slugsFor('overwrite') },
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Parse errors and import limits are reported back to the editor
+    if (error instanceof Error && /JSON|CSV|limited|no links/.test(error.message)) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to import links' },
+      { status: 500 }
+    );
+  }
+}
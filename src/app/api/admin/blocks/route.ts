@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { contentBlocks, blockTags } from '@/lib/db/schema';
-import { getCurrentUser } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
+import { SlugAliasService } from '@/lib/services/slug-alias-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
 import { eq, desc, and, or, ilike, sql } from 'drizzle-orm';
 import { z } from 'zod';
 
@@ -35,9 +37,9 @@ const CreateBlockSchema = z.object({
 // GET /api/admin/blocks - List all blocks with filtering
 export async function GET(request: NextRequest) {
   try {
-    const user = await getCurrentUser(request);
+    const { user, response } = await requireUser(request, 'content:read');
     if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return response;
     }
 
     const { searchParams } = new URL(request.url);
@@ -90,6 +92,8 @@ export async function GET(request: NextRequest) {
         metadata: contentBlocks.metadata,
         display_order: contentBlocks.display_order,
         is_published: contentBlocks.is_published,
+        is_landing_block: contentBlocks.is_landing_block,
+        is_private: contentBlocks.is_private,
         created_at: contentBlocks.created_at,
         updated_at: contentBlocks.updated_at,
       })
@@ -101,7 +105,7 @@ export async function GET(request: NextRequest) {
 
     // Get total count for pagination
     const totalResult = await db
-      .select({ count: sql<number>`count(*)` })
+      .select({ count: sql<number>`count(*)::int` })
       .from(contentBlocks)
       .where(whereClause);
     
@@ -112,19 +116,20 @@ export async function GET(request: NextRequest) {
       .select({
         renderer: contentBlocks.renderer,
         is_published: contentBlocks.is_published,
-        count: sql<number>`count(*)`,
+        count: sql<number>`count(*)::int`,
       })
       .from(contentBlocks)
       .groupBy(contentBlocks.renderer, contentBlocks.is_published);
 
     const stats = {
-      total: blocks.length,
+      total: 0,
       published: 0,
       drafts: 0,
       by_renderer: {} as Record<string, number>,
     };
 
     statsQuery.forEach(({ renderer, is_published, count }) => {
+      stats.total += count;
       if (is_published) {
         stats.published += count;
       } else {
@@ -156,9 +161,9 @@ export async function GET(request: NextRequest) {
 // POST /api/admin/blocks - Create new block
 export async function POST(request: NextRequest) {
   try {
-    const user = await getCurrentUser(request);
+    const { user, response } = await requireUser(request, 'content:write');
     if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return response;
     }
 
     const body = await request.json();
@@ -178,6 +183,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (await SlugAliasService.isAlias(validatedData.slug)) {
+      return NextResponse.json(
+        { error: 'Slug is reserved as a previous URL of another block' },
+        { status: 400 }
+      );
+    }
+
     // Create the block
     const [newBlock] = await db
       .insert(contentBlocks)
@@ -203,6 +215,14 @@ export async function POST(request: NextRequest) {
       await db.insert(blockTags).values(tagRelations);
     }
 
+    await AuditLogService.record(request, user, {
+      action: 'block.create',
+      targetType: 'block',
+      targetId: newBlock.id,
+      targetLabel: newBlock.slug,
+      after: newBlock,
+    });
+
     return NextResponse.json({ block: newBlock });
 
   } catch (error) {
@@ -2,9 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { contentBlocks } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
 
 export async function POST(request: NextRequest) {
   try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
     const body = await request.json();
     const { slug, type, data, publish = false } = body;
 
@@ -53,6 +60,14 @@ export async function POST(request: NextRequest) {
 
     console.log('Created block:', block);
 
+    await AuditLogService.record(request, user, {
+      action: 'block.create',
+      targetType: 'block',
+      targetId: block.id,
+      targetLabel: block.slug,
+      after: block,
+    });
+
     return NextResponse.json({
       success: true,
       block,
@@ -1,10 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { urlWords } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { requireUser } from '@/lib/auth';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const { user, response } = await requireUser(request, 'settings:manage');
+    if (!user) {
+      return response;
+    }
+
     // Get counts
     const allWords = await db.select().from(urlWords);
     const adjectives = await db.select().from(urlWords).where(eq(urlWords.word_type, 'adjective')).limit(10);
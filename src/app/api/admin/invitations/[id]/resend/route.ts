@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { InvitationService } from '@/lib/services/invitation-service';
+
+// POST /api/admin/invitations/[id]/resend - Email a new link and restart the expiry
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user: currentUser, response } = await requireUser(request, 'users:manage');
+    if (!currentUser) {
+      return response;
+    }
+
+    const { id } = await params;
+    const invitation = await InvitationService.resendInvitation(id, currentUser);
+
+    await AuditLogService.record(request, currentUser, {
+      action: 'user.resend_invite',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      targetLabel: invitation.email,
+    });
+
+    return NextResponse.json({ invitation });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invitation not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes('Only owners')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof Error && error.message.includes('Failed to send invitation email')) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json(
+      { error: 'Failed to resend invitation' },
+      { status: 500 }
+    );
+  }
+}
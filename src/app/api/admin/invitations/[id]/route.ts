@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { InvitationService } from '@/lib/services/invitation-service';
+
+// DELETE /api/admin/invitations/[id] - Revoke a pending invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user: currentUser, response } = await requireUser(request, 'users:manage');
+    if (!currentUser) {
+      return response;
+    }
+
+    const { id } = await params;
+    const invitation = await InvitationService.revokeInvitation(id, currentUser);
+
+    await AuditLogService.record(request, currentUser, {
+      action: 'user.revoke_invite',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      targetLabel: invitation.email,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invitation not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes('Only owners')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json(
+      { error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { InvitationService, createInvitationSchema } from '@/lib/services/invitation-service';
+
+// GET /api/admin/invitations - Pending (not accepted or revoked) invitations
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'users:read');
+    if (!user) {
+      return response;
+    }
+
+    const invitations = await InvitationService.listPending();
+
+    return NextResponse.json({ invitations });
+  } catch {
+    // Silent error handling - don't log to console
+    return NextResponse.json(
+      { error: 'Failed to fetch invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/invitations - Invite someone by email with a role and send the link
+export async function POST(request: NextRequest) {
+  try {
+    const { user: currentUser, response } = await requireUser(request, 'users:manage');
+    if (!currentUser) {
+      return response;
+    }
+
+    const body = await request.json();
+    const data = createInvitationSchema.parse(body);
+
+    const invitation = await InvitationService.createInvitation(data, currentUser);
+
+    await AuditLogService.record(request, currentUser, {
+      action: 'user.invite',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      targetLabel: invitation.email,
+      after: { email: invitation.email, role: invitation.role, expires_at: invitation.expires_at },
+    });
+
+    return NextResponse.json({ invitation }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('Only owners')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof Error && (error.message.includes('already exists') || error.message.includes('pending invitation'))) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof Error && error.message.includes('Failed to send invitation email')) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json(
+      { error: 'Failed to create invitation' },
+      { status: 500 }
+    );
+  }
+}
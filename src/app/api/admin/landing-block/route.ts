@@ -1,18 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { LandingBlockService } from '@/lib/services/landing-block-service';
-import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { BlockService } from '@/lib/services/block-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { requireUser } from '@/lib/auth';
 
 // GET /api/admin/landing-block - Get current landing block and status
 export async function GET(request: NextRequest) {
   try {
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
     }
 
     const status = await LandingBlockService.getLandingStatus();
@@ -29,14 +26,9 @@ export async function GET(request: NextRequest) {
 // POST /api/admin/landing-block - Set a block as landing block
 export async function POST(request: NextRequest) {
   try {
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'settings:manage');
+    if (!user) {
+      return response;
     }
 
     const { blockId } = await request.json();
@@ -48,6 +40,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const previous = await LandingBlockService.getLandingBlock();
     const result = await LandingBlockService.setLandingBlock(blockId);
 
     if (!result.success) {
@@ -57,6 +50,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const block = await BlockService.getBlockById(blockId);
+    await AuditLogService.record(request, user, {
+      action: 'landing.set',
+      targetType: 'block',
+      targetId: blockId,
+      targetLabel: block?.slug,
+      changes: { landing_block: { from: previous?.slug ?? null, to: block?.slug ?? blockId } },
+    });
+
     return NextResponse.json({ success: true });
   } catch {
     // Log error for debugging (could be replaced with proper logging service)
@@ -70,16 +72,12 @@ export async function POST(request: NextRequest) {
 // DELETE /api/admin/landing-block - Remove landing block
 export async function DELETE(request: NextRequest) {
   try {
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'settings:manage');
+    if (!user) {
+      return response;
     }
 
+    const previous = await LandingBlockService.getLandingBlock();
     const result = await LandingBlockService.removeLandingBlock();
 
     if (!result.success) {
@@ -89,6 +87,14 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    await AuditLogService.record(request, user, {
+      action: 'landing.remove',
+      targetType: 'block',
+      targetId: previous?.id,
+      targetLabel: previous?.slug,
+      changes: { landing_block: { from: previous?.slug ?? null, to: null } },
+    });
+
     return NextResponse.json({ success: true });
   } catch {
     // Log error for debugging (could be replaced with proper logging service)
@@ -1,20 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { LinkService } from '@/lib/services/link-service';
-
-const SESSION_COOKIE_NAME = 'gremlinlink_session';
-
-function isAuthenticated(request: NextRequest): boolean {
-  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-  return !!(sessionCookie && sessionCookie.value && sessionCookie.value.length > 0);
-}
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    if (!isAuthenticated(request)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
     }
 
     const { id } = await params;
@@ -37,14 +33,25 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    if (!isAuthenticated(request)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
     }
 
     const { id } = await params;
     const data = await request.json();
+    const before = await LinkService.getLink(id);
     const link = await LinkService.updateLink(id, data);
-    
+
+    await AuditLogService.record(request, user, {
+      action: 'block.update',
+      targetType: 'block',
+      targetId: id,
+      targetLabel: link.slug,
+      before: before ? { ...before } : null,
+      after: { ...link },
+    });
+
     return NextResponse.json(link);
   } catch (error) {
     return NextResponse.json(
@@ -59,12 +66,21 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    if (!isAuthenticated(request)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
     }
 
     const { id } = await params;
-    await LinkService.deleteLink(id);
+    const link = await LinkService.deleteLink(id);
+
+    await AuditLogService.record(request, user, {
+      action: 'block.delete',
+      targetType: 'block',
+      targetId: id,
+      targetLabel: link.slug,
+      before: { ...link },
+    });
     return NextResponse.json({ success: true });
   } catch (error) {
     return NextResponse.json(
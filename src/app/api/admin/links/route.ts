@@ -3,7 +3,8 @@ import { z } from 'zod';
 import { eq } from 'drizzle-orm';
 import { db } from '@/lib/db';
 import { contentBlocks } from '@/lib/db/schema';
-import { getCurrentUser } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
 
 // Zod schema for create link request body
 const createLinkSchema = z.object({
@@ -18,9 +19,9 @@ const createLinkSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await getCurrentUser(request);
+    const { user, response } = await requireUser(request, 'content:write');
     if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return response;
     }
 
     const body = await request.json();
@@ -74,6 +75,14 @@ export async function POST(request: NextRequest) {
       updated_at: result[0].updated_at,
     };
 
+    await AuditLogService.record(request, user, {
+      action: 'block.create',
+      targetType: 'block',
+      targetId: result[0].id,
+      targetLabel: result[0].slug,
+      after: result[0],
+    });
+
     return NextResponse.json({ link }, { status: 201 });
   } catch {
     // Silent error handling - don't log to console
@@ -83,9 +92,9 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await getCurrentUser(request);
+    const { user, response } = await requireUser(request, 'content:read');
     if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return response;
     }
 
     // Get all redirect blocks
@@ -6,6 +6,7 @@ import { join } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import sharp from 'sharp';
 import { uploadToSpaces, generateFileName } from '@/lib/storage';
+import { requireUser } from '@/lib/auth';
 
 const UPLOAD_DIR = join(process.cwd(), 'public', 'uploads');
 const THUMBNAIL_DIR = join(UPLOAD_DIR, 'thumbnails');
@@ -32,6 +33,11 @@ async function ensureDirectories() {
 
 export async function POST(request: NextRequest) {
   try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
     await ensureDirectories();
 
     const formData = await request.formData();
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { PasskeyService, passkeyNameSchema } from '@/lib/services/passkey-service';
+
+const renamePasskeySchema = z.object({
+  name: passkeyNameSchema,
+});
+
+// PATCH /api/admin/passkeys/[id] - Rename one of the current user's passkeys
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const { name } = renamePasskeySchema.parse(await request.json());
+    const passkey = await PasskeyService.renamePasskey(user.user_id, id, name);
+
+    return NextResponse.json({ passkey });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to rename passkey' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/passkeys/[id] - Remove one of the current user's passkeys
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const passkey = await PasskeyService.deletePasskey(user.user_id, id);
+
+    await AuditLogService.record(request, user, {
+      action: 'user.remove_passkey',
+      targetType: 'user',
+      targetId: user.user_id,
+      targetLabel: user.email,
+      changes: { passkey: { from: passkey.name, to: null } },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to remove passkey' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { PasskeyService } from '@/lib/services/passkey-service';
+
+// GET /api/admin/passkeys - List the current user's passkeys
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const passkeys = await PasskeyService.listPasskeys(user.user_id);
+
+    return NextResponse.json({ passkeys });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to fetch passkeys' },
+      { status: 500 }
+    );
+  }
+}
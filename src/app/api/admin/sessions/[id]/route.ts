@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { SessionService } from '@/lib/services/session-service';
+import { UserService } from '@/lib/services/user-service';
+
+// DELETE /api/admin/sessions/[id] - Sign out one session
+// Users can end their own sessions; ending someone else's needs users:manage and is audited.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user: currentUser, response } = await requireUser(request);
+    if (!currentUser) {
+      return response;
+    }
+
+    const { id } = await params;
+    const session = await SessionService.getSession(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (session.id === currentUser.session_id) {
+      return NextResponse.json({ error: 'Use Sign Out to end the current session' }, { status: 400 });
+    }
+
+    if (session.user_id === currentUser.user_id) {
+      await SessionService.revokeSession(id);
+      return NextResponse.json({ success: true });
+    }
+
+    if (!hasPermission(currentUser.role, 'users:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const target = await UserService.getUserById(session.user_id);
+    await UserService.assertCanModifyUser(currentUser, session.user_id, {});
+    await SessionService.revokeSession(id);
+
+    await AuditLogService.record(request, currentUser, {
+      action: 'user.revoke_session',
+      targetType: 'user',
+      targetId: session.user_id,
+      targetLabel: target?.email,
+      before: { device: session.device_label, ip_address: session.ip_address },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Only owners')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json(
+      { error: 'Failed to sign out session' },
+      { status: 500 }
+    );
+  }
+}
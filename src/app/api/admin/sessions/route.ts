@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { SessionService } from '@/lib/services/session-service';
+
+// GET /api/admin/sessions - The current user's active sessions (?all=true: every user's, needs users:read)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    if (request.nextUrl.searchParams.get('all') === 'true') {
+      if (!hasPermission(user.role, 'users:read')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+
+      const sessions = await SessionService.listAllSessions(user.session_id);
+      return NextResponse.json({ sessions });
+    }
+
+    const sessions = await SessionService.listUserSessions(user.user_id, user.session_id);
+
+    return NextResponse.json({ sessions });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/sessions - Sign out the current user everywhere except this browser
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    if (!user.session_id) {
+      return NextResponse.json({ error: 'Only available when signed in with a session' }, { status: 400 });
+    }
+
+    const revoked = await SessionService.revokeOtherSessions(user.user_id, user.session_id);
+
+    return NextResponse.json({ success: true, revoked });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to sign out other sessions' },
+      { status: 500 }
+    );
+  }
+}
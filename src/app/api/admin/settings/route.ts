@@ -1,61 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { SettingsService } from '@/lib/services/settings-service';
 
-// Settings validation schema
-const settingsSchema = z.object({
-  general: z.object({
-    siteName: z.string().min(1).max(100),
-    siteUrl: z.string().url(),
-    siteDescription: z.string().max(500),
-  }),
-  security: z.object({
-    requireAuth: z.boolean(),
-    enableRateLimit: z.boolean(),
-    enableAnalytics: z.boolean(),
-  }),
-  email: z.object({
-    smtpHost: z.string(),
-    smtpPort: z.number().int().min(1).max(65535),
-    smtpUsername: z.string().email(),
-    smtpPassword: z.string(),
-  }),
-  domain: z.object({
-    customDomain: z.string(),
-    forceHttps: z.boolean(),
-  }),
-});
-
-// Default settings
-const defaultSettings = {
-  general: {
-    siteName: 'GremlinLink',
-    siteUrl: 'https://gremlin.link',
-    siteDescription: 'A powerful URL shortener and content management system',
-  },
-  security: {
-    requireAuth: true,
-    enableRateLimit: true,
-    enableAnalytics: true,
-  },
-  email: {
-    smtpHost: 'smtp.gmail.com',
-    smtpPort: 587,
-    smtpUsername: 'your-email@example.com',
-    smtpPassword: '',
-  },
-  domain: {
-    customDomain: 'your-domain.com',
-    forceHttps: true,
-  },
-};
-
-// In-memory storage for demo purposes
-// In production, this would be stored in a database
-let currentSettings = { ...defaultSettings };
-
-export async function GET() {
+// GET /api/admin/settings - Current settings (secrets are never returned)
+export async function GET(request: NextRequest) {
   try {
-    return NextResponse.json(currentSettings);
+    const { user, response } = await requireUser(request, 'settings:manage');
+    if (!user) {
+      return response;
+    }
+
+    const settings = await SettingsService.getAdminSettings();
+    return NextResponse.json(settings);
   } catch {
     // Silent error handling - don't log to console
     return NextResponse.json(
@@ -65,27 +23,31 @@ export async function GET() {
   }
 }
 
+// PUT /api/admin/settings - Save settings
 export async function PUT(request: NextRequest) {
   try {
+    const { user, response } = await requireUser(request, 'settings:manage');
+    if (!user) {
+      return response;
+    }
+
     const body = await request.json();
-    
-    // Validate the settings data
-    const validatedSettings = settingsSchema.parse(body);
-    
-    // Update the settings
-    currentSettings = validatedSettings;
-    
-    // In production, you would save to database here
-    // await db.settings.upsert({
-    //   where: { id: 1 },
-    //   update: validatedSettings,
-    //   create: { id: 1, ...validatedSettings }
-    // });
-    
+    const { previous, settings } = await SettingsService.updateSettings(body, user.user_id);
+
+    // Secrets only show up as changed, see AuditLogService.diff
+    const current = await SettingsService.getSettings();
+    await AuditLogService.record(request, user, {
+      action: 'settings.update',
+      targetType: 'settings',
+      targetLabel: 'Site settings',
+      before: previous,
+      after: current,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Settings updated successfully',
-      settings: currentSettings,
+      settings,
     });
     
   } catch (error) {
@@ -100,10 +62,21 @@ export async function PUT(request: NextRequest) {
         { status: 400 }
       );
     }
+
+    if (error instanceof Error && error.message.includes('changed by someone else')) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof Error && error.message.includes('ENCRYPTION_KEY')) {
+      return NextResponse.json(
+        { error: 'Secrets cannot be saved until ENCRYPTION_KEY is configured' },
+        { status: 500 }
+      );
+    }
     
     return NextResponse.json(
       { error: 'Failed to save settings' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
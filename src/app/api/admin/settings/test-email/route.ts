@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth';
+import { EmailService } from '@/lib/services/email-service';
+
+const testEmailSchema = z.object({
+  to: z.string().email().optional(), // Defaults to the signed-in user
+});
+
+// POST /api/admin/settings/test-email - Send a test email with the saved settings
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'settings:manage');
+    if (!user) {
+      return response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { to } = testEmailSchema.parse(body);
+    const recipient = to || user.email;
+
+    const transport = await EmailService.sendTestEmail(recipient);
+
+    return NextResponse.json({
+      success: true,
+      message: `Test email sent to ${recipient} via ${transport}`,
+      transport,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // The transport's own message is the useful part here (auth failure, bad host, ...)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send test email' },
+      { status: 502 }
+    );
+  }
+}
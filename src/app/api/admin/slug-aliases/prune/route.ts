@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { SlugAliasService } from '@/lib/services/slug-alias-service';
+import { z } from 'zod';
+
+const PruneSchema = z.object({
+  blockId: z.string().uuid().optional(),
+  unusedForDays: z.number().int().min(0).max(3650).optional(),
+});
+
+// POST /api/admin/slug-aliases/prune - Remove aliases in bulk
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
+    }
+
+    const body = await request.json();
+    const options = PruneSchema.parse(body);
+    const deleted = await SlugAliasService.pruneAliases(options);
+
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to prune slug aliases' },
+      { status: 500 }
+    );
+  }
+}
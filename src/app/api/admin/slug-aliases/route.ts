@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { SlugAliasService } from '@/lib/services/slug-alias-service';
+
+// GET /api/admin/slug-aliases - List previous slugs (optionally for one block)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const blockId = searchParams.get('blockId') || undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '200'), 1000);
+
+    const aliases = await SlugAliasService.getAliases(blockId, limit);
+
+    return NextResponse.json({ aliases });
+  } catch {
+    // Log error for debugging (could be replaced with proper logging service)
+    return NextResponse.json(
+      { error: 'Failed to fetch slug aliases' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth';
+import { TwoFactorService } from '@/lib/services/two-factor-service';
+
+const regenerateSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+// POST /api/admin/two-factor/recovery-codes - Replace all recovery codes (needs a current code)
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const { code } = regenerateSchema.parse(await request.json());
+    if (!(await TwoFactorService.verifyCode(user.user_id, code))) {
+      return NextResponse.json({ error: 'Invalid verification code' }, { status: 400 });
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(user.user_id);
+    return NextResponse.json({ success: true, recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json(
+      { error: 'Failed to regenerate recovery codes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { TwoFactorService } from '@/lib/services/two-factor-service';
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+function twoFactorErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Validation error', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error && (
+    error.message === 'Invalid verification code' ||
+    error.message.includes('not been started') ||
+    error.message.includes('not enabled')
+  )) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  if (error instanceof Error && error.message.includes('already enabled')) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+
+  // Silent error handling - don't log to console
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/admin/two-factor - 2FA status of the signed-in user
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    return NextResponse.json(await TwoFactorService.getStatus(user.user_id));
+  } catch (error) {
+    return twoFactorErrorResponse(error, 'Failed to load two-factor status');
+  }
+}
+
+// POST /api/admin/two-factor - Start enrolment (returns the QR code)
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    return NextResponse.json(await TwoFactorService.startEnrollment(user.user_id, user.email));
+  } catch (error) {
+    return twoFactorErrorResponse(error, 'Failed to start two-factor setup');
+  }
+}
+
+// PUT /api/admin/two-factor - Confirm enrolment with a code from the app
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    const { code } = codeSchema.parse(await request.json());
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(user.user_id, code);
+
+    await AuditLogService.record(request, user, {
+      action: 'user.enable_two_factor',
+      targetType: 'user',
+      targetId: user.user_id,
+      targetLabel: user.email,
+    });
+
+    return NextResponse.json({ success: true, recoveryCodes });
+  } catch (error) {
+    return twoFactorErrorResponse(error, 'Failed to confirm two-factor setup');
+  }
+}
+
+// DELETE /api/admin/two-factor - Turn 2FA off (needs a current code)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, response } = await requireUser(request);
+    if (!user) {
+      return response;
+    }
+
+    if (await TwoFactorService.isRequired()) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is required for all users' },
+        { status: 403 }
+      );
+    }
+
+    const { code } = codeSchema.parse(await request.json());
+    if (!(await TwoFactorService.verifyCode(user.user_id, code))) {
+      throw new Error('Invalid verification code');
+    }
+
+    await TwoFactorService.disable(user.user_id);
+
+    await AuditLogService.record(request, user, {
+      action: 'user.disable_two_factor',
+      targetType: 'user',
+      targetId: user.user_id,
+      targetLabel: user.email,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return twoFactorErrorResponse(error, 'Failed to disable two-factor authentication');
+  }
+}
@@ -1,18 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
 import { uploadToSpaces, generateFileName, validateImageFile } from '@/lib/storage';
 
 export async function POST(request: NextRequest) {
   try {
-    // Validate authentication
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'content:write');
+    if (!user) {
+      return response;
     }
 
     // Parse form data
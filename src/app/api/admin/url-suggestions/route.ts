@@ -2,9 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { urlWords } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { requireUser } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
+    const { user, response } = await requireUser(request, 'content:read');
+    if (!user) {
+      return response;
+    }
+
     const { searchParams } = new URL(request.url);
     const count = parseInt(searchParams.get('count') || '5');
     
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/services/user-service';
+import { TwoFactorService } from '@/lib/services/two-factor-service';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+
+// POST /api/admin/users/[id]/reset-two-factor - Remove a user's 2FA (lost device)
+// The user can sign in with a magic link alone afterwards, or must enrol again when 2FA is required.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user: currentUser, response } = await requireUser(request, 'users:manage');
+    if (!currentUser) {
+      return response;
+    }
+
+    const { id } = await params;
+    const target = await UserService.getUserById(id);
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await UserService.assertCanModifyUser(currentUser, id, {});
+    const removed = await TwoFactorService.disable(id);
+
+    if (removed) {
+      await AuditLogService.record(request, currentUser, {
+        action: 'user.reset_two_factor',
+        targetType: 'user',
+        targetId: id,
+        targetLabel: target.email,
+      });
+    }
+
+    return NextResponse.json({ success: true, reset: removed });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Only owners')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json(
+      { error: 'Failed to reset two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { UserService } from '@/lib/services/user-service';
-import { isAuthenticated } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    if (!isAuthenticated(request)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user: currentUser, response } = await requireUser(request, 'users:manage');
+    if (!currentUser) {
+      return response;
     }
 
     const { id } = await params;
+    const target = await UserService.getUserById(id);
+    await UserService.assertCanModifyUser(currentUser, id, {});
     await UserService.revokeUserSessions(id);
+
+    await AuditLogService.record(request, currentUser, {
+      action: 'user.revoke_sessions',
+      targetType: 'user',
+      targetId: id,
+      targetLabel: target?.email,
+    });
     return NextResponse.json({ success: true });
-  } catch {
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Only owners')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
     // Silent error handling - don't log to console
     return NextResponse.json(
       { error: 'Failed to revoke user sessions' },
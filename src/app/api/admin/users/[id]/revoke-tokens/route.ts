@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiTokenService } from '@/lib/services/api-token-service';
+import { requireUser } from '@/lib/auth';
+import { UserService } from '@/lib/services/user-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await requireUser(request, 'users:manage');
+    if (!user) {
+      return response;
+    }
+
+    const { id } = await params;
+    const target = await UserService.getUserById(id);
+    await UserService.assertCanModifyUser(user, id, {});
+    const revoked = await ApiTokenService.revokeAllForUser(id);
+
+    await AuditLogService.record(request, user, {
+      action: 'user.revoke_tokens',
+      targetType: 'user',
+      targetId: id,
+      targetLabel: target?.email,
+      changes: { revoked_tokens: { from: null, to: revoked } },
+    });
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Only owners')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json(
+      { error: 'Failed to revoke API tokens' },
+      { status: 500 }
+    );
+  }
+}
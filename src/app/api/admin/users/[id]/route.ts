@@ -2,49 +2,81 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
+import { UserService } from '@/lib/services/user-service';
+import { AuditLogService, AuditChanges } from '@/lib/services/audit-log-service';
+import { USER_ROLES } from '@/lib/permissions';
 import { z } from 'zod';
 
 // Validation schema for user updates
 const updateUserSchema = z.object({
   email: z.string().email().optional(),
   name: z.string().optional(),
+  role: z.enum(USER_ROLES).optional(),
   is_active: z.boolean().optional(),
 });
 
 const fullUpdateUserSchema = z.object({
   email: z.string().email(),
   name: z.string().optional(),
+  role: z.enum(USER_ROLES).optional(),
   is_active: z.boolean(),
 });
 
+// Map owner-protection errors from UserService.assertCanModifyUser
+function userChangeErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof Error)) return null;
+
+  if (error.message === 'User not found') {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error.message.startsWith('Only owners')) {
+    return NextResponse.json({ error: error.message }, { status: 403 });
+  }
+  if (error.message.startsWith('The last owner')) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return null;
+}
+
+// Activation changes get their own audit actions so they are easy to filter
+function userAuditAction(changes: AuditChanges): 'user.update' | 'user.activate' | 'user.deactivate' {
+  const fields = Object.keys(changes);
+  if (fields.length === 1 && fields[0] === 'is_active') {
+    return changes.is_active.to ? 'user.activate' : 'user.deactivate';
+  }
+  return 'user.update';
+}
+
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    
-    // Check authentication
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'users:manage');
+    if (!user) {
+      return response;
     }
 
     const body = await request.json();
     const validatedData = fullUpdateUserSchema.parse(body);
 
+    await UserService.assertCanModifyUser(user, id, {
+      role: validatedData.role,
+      is_active: validatedData.is_active,
+    });
+
+    const before = await UserService.getUserById(id);
+
     // Update user with full data
     const updatedUser = await db
       .update(users)
       .set({
         email: validatedData.email,
         name: validatedData.name || null,
+        ...(validatedData.role && { role: validatedData.role }),
         is_active: validatedData.is_active,
         updated_at: new Date(),
       })
@@ -58,10 +90,24 @@ export async function PUT(
       );
     }
 
+    const changes = AuditLogService.diff(before ? { ...before } : null, updatedUser[0]);
+    await AuditLogService.record(request, user, {
+      action: userAuditAction(changes),
+      targetType: 'user',
+      targetId: id,
+      targetLabel: updatedUser[0].email,
+      changes,
+    });
+
     return NextResponse.json(updatedUser[0]);
   } catch (error) {
     // Silent error handling - don't log to console
     
+    const changeError = userChangeErrorResponse(error);
+    if (changeError) {
+      return changeError;
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Invalid user data', details: error.issues },
@@ -82,21 +128,22 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params;
-    
-    // Check authentication
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'users:manage');
+    if (!user) {
+      return response;
     }
 
     const body = await request.json();
     const validatedData = updateUserSchema.parse(body);
 
+    await UserService.assertCanModifyUser(user, id, {
+      role: validatedData.role,
+      is_active: validatedData.is_active,
+    });
+
+    const before = await UserService.getUserById(id);
+
     // Build update object with only provided fields
     const updateData: Record<string, unknown> = {
       updated_at: new Date(),
@@ -108,6 +155,9 @@ export async function PATCH(
     if (validatedData.name !== undefined) {
       updateData.name = validatedData.name || null;
     }
+    if (validatedData.role !== undefined) {
+      updateData.role = validatedData.role;
+    }
     if (validatedData.is_active !== undefined) {
       updateData.is_active = validatedData.is_active;
     }
@@ -126,10 +176,24 @@ export async function PATCH(
       );
     }
 
+    const changes = AuditLogService.diff(before ? { ...before } : null, updatedUser[0]);
+    await AuditLogService.record(request, user, {
+      action: userAuditAction(changes),
+      targetType: 'user',
+      targetId: id,
+      targetLabel: updatedUser[0].email,
+      changes,
+    });
+
     return NextResponse.json(updatedUser[0]);
   } catch (error) {
     // Silent error handling - don't log to console
     
+    const changeError = userChangeErrorResponse(error);
+    if (changeError) {
+      return changeError;
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Invalid user data', details: error.issues },
@@ -150,26 +214,22 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    
-    // Check authentication
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'users:manage');
+    if (!user) {
+      return response;
     }
 
     // Prevent self-deletion
-    if (session.user_id === id) {
+    if (user.user_id === id) {
       return NextResponse.json(
         { error: 'Cannot delete your own account' },
         { status: 400 }
       );
     }
 
+    await UserService.assertCanModifyUser(user, id, { delete: true });
+
     // Delete user
     const deletedUser = await db
       .delete(users)
@@ -183,9 +243,22 @@ export async function DELETE(
       );
     }
 
+    await AuditLogService.record(request, user, {
+      action: 'user.delete',
+      targetType: 'user',
+      targetId: id,
+      targetLabel: deletedUser[0].email,
+      before: deletedUser[0],
+    });
+
     return NextResponse.json({ success: true });
-  } catch {
+  } catch (error) {
     // Silent error handling - don't log to console
+    const changeError = userChangeErrorResponse(error);
+    if (changeError) {
+      return changeError;
+    }
+
     return NextResponse.json(
       { error: 'Failed to delete user' },
       { status: 500 }
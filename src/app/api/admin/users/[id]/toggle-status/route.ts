@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { UserService } from '@/lib/services/user-service';
-import { isAuthenticated } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
 
 export async function POST(
   request: NextRequest,
@@ -9,11 +10,25 @@ export async function POST(
   try {
     const { id } = await params;
     
-    if (!isAuthenticated(request)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user: currentUser, response } = await requireUser(request, 'users:manage');
+    if (!currentUser) {
+      return response;
+    }
+
+    const target = await UserService.getUserById(id);
+    if (target) {
+      await UserService.assertCanModifyUser(currentUser, id, { is_active: !target.is_active });
     }
 
     const user = await UserService.toggleUserStatus(id);
+
+    await AuditLogService.record(request, currentUser, {
+      action: user.is_active ? 'user.activate' : 'user.deactivate',
+      targetType: 'user',
+      targetId: id,
+      targetLabel: user.email,
+      changes: { is_active: { from: !user.is_active, to: user.is_active } },
+    });
     return NextResponse.json({ user });
   } catch (error) {
     // Silent error handling - don't log to console
@@ -21,6 +36,14 @@ export async function POST(
     if (error instanceof Error && error.message === 'User not found') {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
+
+    if (error instanceof Error && error.message.startsWith('Only owners')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof Error && error.message.startsWith('The last owner')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     
     return NextResponse.json(
       { error: 'Failed to toggle user status' },
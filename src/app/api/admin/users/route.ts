@@ -2,22 +2,26 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { UserService } from '@/lib/services/user-service';
+import { isUserRole } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'users:read');
+    if (!user) {
+      return response;
     }
 
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
-    }
+    // Includes session counts and whether 2FA is enabled
+    const allUsers = await UserService.getAllUsers();
 
-    const allUsers = await db.select().from(users);
+    // The users panel on the dev page also wants the summary counts
+    if (request.nextUrl.searchParams.get('stats') === 'true') {
+      const stats = await UserService.getUserStats();
+      return NextResponse.json({ users: allUsers, stats });
+    }
     
     return NextResponse.json(allUsers);
   } catch {
@@ -31,19 +35,13 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
-    if (!sessionCookie?.value) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const session = await validateSession(sessionCookie.value);
-    if (!session) {
-      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    const { user, response } = await requireUser(request, 'users:manage');
+    if (!user) {
+      return response;
     }
 
     const body = await request.json();
-    const { email, name, is_active = true } = body;
+    const { email, name, is_active = true, role = 'editor' } = body;
 
     if (!email) {
       return NextResponse.json(
@@ -52,6 +50,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isUserRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role' },
+        { status: 400 }
+      );
+    }
+
+    if (role === 'owner' && user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only owners can manage owner accounts' },
+        { status: 403 }
+      );
+    }
+
     // Check if user already exists
     const existingUser = await db
       .select()
@@ -71,10 +83,19 @@ export async function POST(request: NextRequest) {
       .values({
         email,
         name: name || null,
+        role,
         is_active,
       })
       .returning();
 
+    await AuditLogService.record(request, user, {
+      action: 'user.create',
+      targetType: 'user',
+      targetId: newUser[0].id,
+      targetLabel: newUser[0].email,
+      after: newUser[0],
+    });
+
     return NextResponse.json(newUser[0], { status: 201 });
   } catch {
     // Silent error handling - don't log to console
@@ -1,11 +1,18 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { LandingBlockService } from '@/lib/services/landing-block-service';
+import { BlockService } from '@/lib/services/block-service';
+import { RateLimitService } from '@/lib/services/rate-limit-service';
 
 // GET /api/public-blocks - Get all public blocks for the index page
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const limit = await RateLimitService.hit('public-blocks', RateLimitService.clientKey(request));
+    if (!limit.allowed) {
+      return RateLimitService.tooManyRequests(limit, 'Too many requests');
+    }
+
     const blocks = await LandingBlockService.getPublicBlocks();
-    return NextResponse.json({ blocks });
+    return NextResponse.json({ blocks: blocks.map((block) => BlockService.toPublicBlock(block)) });
   } catch {
     // Silent error handling - don't log to console
     return NextResponse.json(
@@ -1,33 +1,123 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { LinkService } from '@/lib/services/link-service';
+import { BlockService } from '@/lib/services/block-service';
+import { GeoIpService } from '@/lib/services/geoip-service';
+import { RateLimitService } from '@/lib/services/rate-limit-service';
+import { renderBlock } from '@/lib/renderers';
+import { getAccessCookieName, getAccessPasswordHash, verifyAccessToken } from '@/lib/link-access';
+import { VISITOR_COOKIE_NAME } from '@/lib/auth-constants';
+import { getClientIp } from '@/lib/request-info';
+import { setVisitorCookie } from '@/lib/visitor';
 
+// GET /api/redirect/[slug] - Resolve a short link to its destination for this visitor
+// Applies the same password, availability, rule and variant checks as visiting the link.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ slug: string }> }
 ) {
   try {
+    const limit = await RateLimitService.hit('redirect', RateLimitService.clientKey(request));
+    if (!limit.allowed) {
+      return RateLimitService.tooManyRequests(limit, 'Too many requests');
+    }
+
     const { slug } = await params;
-    
-    // Get the link from database
-    const link = await LinkService.getLinkBySlug(slug);
-    
-    if (!link || !link.target_url || !link.is_active) {
+
+    const block = await BlockService.getBlockBySlug(slug);
+    if (!block || block.renderer !== 'redirect') {
+      return NextResponse.json({ found: false }, { status: 404 });
+    }
+
+    // Password-protected links resolve only for visitors who unlocked them
+    const passwordHash = getAccessPasswordHash(block.metadata as Record<string, unknown>);
+    if (passwordHash && !isUnlocked(request, slug, passwordHash)) {
+      return NextResponse.json({ found: true, locked: true }, { status: 401 });
+    }
+
+    const data = block.data as Record<string, unknown>;
+    const userAgent = request.headers.get('user-agent') || undefined;
+    const referrer = request.headers.get('referer') || undefined;
+    const ipAddress = getClientIp(request) || undefined;
+
+    const clickCount = data.max_clicks
+      ? await BlockService.getRedirectClickCount(block.id)
+      : undefined;
+
+    // Only look up the visitor's country when a country rule needs it
+    const hasCountryRule = Array.isArray(data.rules) &&
+      data.rules.some((rule: { type?: string }) => rule?.type === 'country');
+    const country = hasCountryRule
+      ? (await GeoIpService.lookup(ipAddress, request.headers))?.country
+      : undefined;
+
+    // A new visitor ID is only stored when it decided a variant
+    const existingVisitorId = request.cookies.get(VISITOR_COOKIE_NAME)?.value;
+    const visitorId = existingVisitorId || crypto.randomUUID();
+
+    const renderResult = await renderBlock(block, {
+      userAgent,
+      referrer,
+      ipAddress,
+      clickCount,
+      country,
+      acceptLanguage: request.headers.get('accept-language') || undefined,
+      visitorId,
+    });
+
+    if (renderResult.type === 'unavailable') {
+      return NextResponse.json({
+        found: true,
+        available: false,
+        reason: renderResult.reason,
+        message: renderResult.message,
+        ...(renderResult.activateAt && { activate_at: renderResult.activateAt }),
+      }, { status: 410 });
+    }
+
+    if (renderResult.type !== 'redirect') {
       return NextResponse.json({ found: false }, { status: 404 });
     }
 
-    // Increment click count asynchronously (fire-and-forget)
-    LinkService.incrementClickCount(link.id).catch(() => {
+    // Track analytics asynchronously (fire-and-forget)
+    BlockService.trackClick(block.id, {
+      timestamp: new Date().toISOString(),
+      source: 'api',
+      type: renderResult.fallbackReason ? 'fallback' : 'redirect',
+      reason: renderResult.fallbackReason,
+      matchedRule: renderResult.matchedRule,
+      variant: renderResult.variant,
+      country,
+      userAgent,
+      referrer,
+      ipAddress,
+    }, request.headers).catch(() => {
       // Silent error handling - don't log to console
     });
 
-    return NextResponse.json({ 
-      found: true, 
-      target_url: link.target_url,
-      slug: link.slug,
+    const response = NextResponse.json({
+      found: true,
+      available: true,
+      url: renderResult.url,
+      slug: block.slug,
     });
-    
+
+    if (renderResult.variant && !existingVisitorId) {
+      setVisitorCookie(response, visitorId);
+    }
+
+    return response;
+
   } catch {
     // Silent error handling - don't log to console
     return NextResponse.json({ found: false }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
+
+// Whether the visitor holds a valid unlock cookie for the slug
+function isUnlocked(request: NextRequest, slug: string, passwordHash: string): boolean {
+  try {
+    return verifyAccessToken(slug, passwordHash, request.cookies.get(getAccessCookieName(slug))?.value);
+  } catch {
+    // Missing signing secret - treat as locked
+    return false;
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BlockService } from '@/lib/services/block-service';
+import {
+  createAccessToken,
+  getAccessCookieName,
+  getAccessPasswordHash,
+  verifyAccessPassword,
+} from '@/lib/link-access';
+import { ACCESS_COOKIE_MAX_AGE } from '@/lib/auth-constants';
+import { getClientIp } from '@/lib/request-info';
+import { RateLimitService, type RateLimitResult } from '@/lib/services/rate-limit-service';
+import { z } from 'zod';
+
+const UnlockSchema = z.object({
+  slug: z.string().min(1).max(255),
+  password: z.string().min(1).max(200),
+});
+
+// Repeated wrong passwords look like guessing; block the link for this network for the rest of the window
+function lockoutResponse(result: RateLimitResult) {
+  return RateLimitService.tooManyRequests(
+    result,
+    `Too many incorrect passwords. Try again in ${RateLimitService.formatRetryAfter(result.retryAfter)}.`
+  );
+}
+
+// POST /api/unlock - Unlock a password-protected slug
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { slug, password } = UnlockSchema.parse(body);
+
+    const limitKey = `${RateLimitService.clientKey(request)}:${slug}`;
+    const lockout = await RateLimitService.check('link-unlock', limitKey);
+    if (!lockout.allowed) {
+      return lockoutResponse(lockout);
+    }
+
+    const block = await BlockService.getBlockBySlug(slug);
+    const passwordHash = block ? getAccessPasswordHash(block.metadata) : null;
+
+    if (!block || !passwordHash) {
+      return NextResponse.json({ error: 'Link not found' }, { status: 404 });
+    }
+
+    const isValid = verifyAccessPassword(password, passwordHash);
+
+    // Record the attempt separately from locked page views (non-blocking)
+    BlockService.trackClick(block.id, {
+      timestamp: new Date().toISOString(),
+      type: isValid ? 'unlock' : 'unlock_failed',
+      userAgent: request.headers.get('user-agent') || undefined,
+      referrer: request.headers.get('referer') || undefined,
+      ipAddress: getClientIp(request) || undefined,
+    }, request.headers).catch(() => {
+      // Silent error handling - don't log to console
+    });
+
+    if (!isValid) {
+      const failures = await RateLimitService.hit('link-unlock', limitKey);
+      if (!failures.allowed || failures.remaining === 0) {
+        return lockoutResponse(failures);
+      }
+
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 });
+    }
+
+    await RateLimitService.reset('link-unlock', limitKey);
+
+    const response = NextResponse.json({ success: true });
+
+    // Signed cookie that only unlocks this slug; sent site-wide so /api/redirect/[slug] sees it too
+    response.cookies.set({
+      name: getAccessCookieName(slug),
+      value: createAccessToken(slug, passwordHash),
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: ACCESS_COOKIE_MAX_AGE,
+      path: '/',
+      sameSite: 'lax',
+    });
+
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Silent error handling - don't log to console
+    return NextResponse.json({ error: 'Failed to unlock link' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VISITOR_COOKIE_NAME } from '@/lib/auth-constants';
+import { setVisitorCookie } from '@/lib/visitor';
+
+// GET /api/visitor?next=/slug - Give the visitor an ID for sticky A/B redirects, then go back to the link
+export async function GET(request: NextRequest) {
+  const next = new URL(request.url).searchParams.get('next') || '/';
+
+  // Only paths on this site, never another host
+  const path = next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+  const response = NextResponse.redirect(new URL(path, request.url), 307);
+
+  if (!request.cookies.get(VISITOR_COOKIE_NAME)?.value) {
+    setVisitorCookie(response, crypto.randomUUID());
+  }
+
+  return response;
+}
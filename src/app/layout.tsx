@@ -3,6 +3,7 @@ import { Inter, Space_Grotesk, Space_Mono } from 'next/font/google';
 import './globals.css';
 import LandingDetector from '@/components/LandingDetector';
 import { Toaster } from 'sonner';
+import { SettingsService, DEFAULT_SETTINGS } from '@/lib/services/settings-service';
 
 // Configure fonts
 const inter = Inter({
@@ -24,11 +25,25 @@ const spaceMono = Space_Mono({
   variable: '--font-space-mono',
 });
 
-export const metadata: Metadata = {
-  title: 'GremlinLink - URL Shortener',
-  description: 'Your personal URL shortener with dual-action redirect system',
-  metadataBase: new URL(process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3002'),
-};
+// Site name and description come from the admin settings
+export async function generateMetadata(): Promise<Metadata> {
+  let general = DEFAULT_SETTINGS.general;
+  try {
+    general = (await SettingsService.getSettings()).general;
+  } catch {
+    // Fall back to the defaults when the database is unavailable (e.g. during builds)
+  }
+
+  return {
+    title: {
+      default: general.siteName,
+      template: `%s | ${general.siteName}`,
+    },
+    description: general.siteDescription,
+    applicationName: general.siteName,
+    metadataBase: new URL(process.env.NEXT_PUBLIC_BASE_URL || general.siteUrl),
+  };
+}
 
 export default function RootLayout({
   children,
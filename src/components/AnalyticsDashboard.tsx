@@ -26,6 +26,8 @@ import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { DateRangePicker } from '@/components/ui/date-picker';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 
 interface AnalyticsData {
   totalClicks: number;
@@ -36,6 +38,10 @@ interface AnalyticsData {
   clickTrends: TrendData[];
   topLinks: TopLinkData[];
   clicksByCountry: CountryData[];
+  clicksByDevice: BreakdownData[];
+  clicksByBrowser: BreakdownData[];
+  clicksByOs: BreakdownData[];
+  botClicks: number;
   topLinksForChart?: TopLinkData[];
   metadata: {
     queryTime: number;
@@ -51,6 +57,8 @@ interface ClickData {
   linkTitle: string;
   referrer?: string;
   country?: string;
+  region?: string;
+  city?: string;
   ipAddress?: string;
   userAgent?: string;
 }
@@ -73,6 +81,11 @@ interface CountryData {
   clicks: number;
 }
 
+interface BreakdownData {
+  name: string;
+  clicks: number;
+}
+
 // GremlinLabs brand colors for charts
 const COLORS = ['#1FCC00', '#00A3FF', '#8000FF', '#FF5722', '#FFD600', '#17A300'];
 
@@ -81,21 +94,23 @@ export default function AnalyticsDashboard() {
   const [isLoading, setIsLoading] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
   const [dateRange, setDateRange] = useState<{ from: Date; to?: Date } | undefined>(undefined);
+  const [includeBots, setIncludeBots] = useState(false);
 
   const fetchAnalytics = useCallback(async () => {
     try {
       setIsLoading(true);
-      let url = '/api/admin/analytics';
+      const params = new URLSearchParams();
       
       if (dateRange?.from) {
-        const params = new URLSearchParams({
-          start: dateRange.from.toISOString().split('T')[0],
-          end: dateRange.to ? dateRange.to.toISOString().split('T')[0] : dateRange.from.toISOString().split('T')[0],
-        });
-        url += `?${params.toString()}`;
+        params.set('start', dateRange.from.toISOString().split('T')[0]);
+        params.set('end', dateRange.to ? dateRange.to.toISOString().split('T')[0] : dateRange.from.toISOString().split('T')[0]);
+      }
+      if (includeBots) {
+        params.set('includeBots', 'true');
       }
 
-      const response = await fetch(url);
+      const query = params.toString();
+      const response = await fetch(`/api/admin/analytics${query ? `?${query}` : ''}`);
       if (response.ok) {
         const analyticsData = await response.json();
         setData(analyticsData);
@@ -108,7 +123,7 @@ export default function AnalyticsDashboard() {
     } finally {
       setIsLoading(false);
     }
-  }, [dateRange]);
+  }, [dateRange, includeBots]);
 
   useEffect(() => {
     fetchAnalytics();
@@ -201,6 +216,11 @@ export default function AnalyticsDashboard() {
             <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+
+          <div className="flex items-center gap-2">
+            <Switch id="include-bots" checked={includeBots} onCheckedChange={setIncludeBots} />
+            <Label htmlFor="include-bots">Include bots</Label>
+          </div>
         </div>
         
         <Button 
@@ -222,6 +242,11 @@ export default function AnalyticsDashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-primary">{data.totalClicks}</div>
+            <p className="text-xs text-muted-foreground">
+              {includeBots
+                ? `Including ${data.botClicks || 0} from bots`
+                : `${data.botClicks || 0} bot clicks excluded`}
+            </p>
           </CardContent>
         </Card>
         
@@ -253,7 +278,7 @@ export default function AnalyticsDashboard() {
           <CardContent>
             <div className="text-2xl font-bold text-purple-500">{data.uniqueVisitors || 0}</div>
             <p className="text-xs text-muted-foreground">
-              Unique IP addresses
+              Distinct visitors per day
             </p>
           </CardContent>
         </Card>
@@ -349,6 +374,79 @@ export default function AnalyticsDashboard() {
           </CardContent>
         </Card>
 
+        {/* Clicks by Device */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Clicks by Device</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <PieChart>
+                <Pie
+                  data={data.clicksByDevice}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={({ name, percent }) => `${name} ${percent ? (percent * 100).toFixed(0) : 0}%`}
+                  outerRadius={80}
+                  fill="#8884d8"
+                  dataKey="clicks"
+                  nameKey="name"
+                >
+                  {data.clicksByDevice?.map((_entry, index) => (
+                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip />
+              </PieChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        {/* Top Browsers */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Browsers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={data.clicksByBrowser?.slice(0, 6)}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip />
+                <Bar dataKey="clicks">
+                  {data.clicksByBrowser?.slice(0, 6).map((_entry, index) => (
+                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        {/* Operating Systems */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Operating Systems</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={data.clicksByOs?.slice(0, 6)}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip />
+                <Bar dataKey="clicks">
+                  {data.clicksByOs?.slice(0, 6).map((_entry, index) => (
+                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
         {/* Recent Activity */}
         <Card>
           <CardHeader>
@@ -362,7 +460,7 @@ export default function AnalyticsDashboard() {
                     <p className="font-medium text-sm">{click.linkTitle || click.linkSlug}</p>
                     <p className="text-xs text-muted-foreground">
                       {new Date(click.timestamp).toLocaleString()}
-                      {click.country && ` • ${click.country}`}
+                      {click.country && ` • ${[click.city, click.region, click.country].filter(Boolean).join(', ')}`}
                       {click.ipAddress && ` • ${click.ipAddress}`}
                     </p>
                     {click.referrer && (
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { KeyRound, Copy, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { API_TOKEN_SCOPES, ApiTokenScope } from '@/lib/auth-constants';
+
+interface ApiTokenItem {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  last_used_at?: string;
+  expires_at?: string;
+  revoked_at?: string;
+  created_at: string;
+}
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  'links:read': 'List and export links',
+  'links:write': 'Create, update, import and delete links',
+  'analytics:read': 'Read click analytics and exports',
+};
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+];
+
+const getTokenStatus = (token: ApiTokenItem): string | null => {
+  if (token.revoked_at) return 'Revoked';
+  if (token.expires_at && new Date(token.expires_at) < new Date()) return 'Expired';
+  return null;
+};
+
+/**
+ * API TOKENS PANEL
+ *
+ * Personal tokens for scripts and CI pipelines, sent as
+ * `Authorization: Bearer <token>`. A token is only shown once, right after
+ * it is created.
+ */
+export function ApiTokensCard() {
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['links:read', 'links:write']);
+  const [expiry, setExpiry] = useState('90');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery({
+    queryKey: ['api-tokens'],
+    queryFn: async (): Promise<ApiTokenItem[]> => {
+      const response = await fetch('/api/admin/api-tokens');
+      if (!response.ok) throw new Error('Failed to fetch API tokens');
+      const data = await response.json();
+      return data.tokens;
+    },
+  });
+
+  const createTokenMutation = useMutation({
+    mutationFn: async (): Promise<{ token: string }> => {
+      const response = await fetch('/api/admin/api-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiry === 'never' ? null : parseInt(expiry),
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.details?.[0]?.message || error.error || 'Failed to create API token');
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+      setCreatedToken(data.token);
+      setName('');
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/api-tokens/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to revoke API token');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+      toast.success('API token revoked');
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const closeCreateDialog = () => {
+    setIsCreateOpen(false);
+    setCreatedToken(null);
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast.success('Token copied to clipboard');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            API Tokens
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Token
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Use tokens from scripts and CI with the header <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+
+        {isLoading ? (
+          <div className="h-16 bg-muted rounded animate-pulse"></div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No API tokens yet.</p>
+        ) : (
+          tokens.map((token) => {
+            const status = getTokenStatus(token);
+            return (
+              <div
+                key={token.id}
+                className="flex items-center justify-between gap-3 p-4 border rounded-lg bg-[var(--color-card-elevated)]"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {token.name}
+                    {status && <span className="ml-2 text-xs text-muted-foreground">({status})</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground font-mono">{token.token_prefix}…</p>
+                  <p className="text-xs text-muted-foreground">
+                    {token.scopes.join(', ')} ·{' '}
+                    {token.last_used_at
+                      ? `last used ${formatDistanceToNow(new Date(token.last_used_at), { addSuffix: true })}`
+                      : 'never used'}
+                    {token.expires_at && !status && ` · expires ${formatDistanceToNow(new Date(token.expires_at), { addSuffix: true })}`}
+                  </p>
+                </div>
+                {!token.revoked_at && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeTokenMutation.mutate(token.id)}
+                    disabled={revokeTokenMutation.isPending}
+                    title="Revoke token"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => !open && closeCreateDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{createdToken ? 'Token Created' : 'New API Token'}</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? 'Copy the token now. It will not be shown again.'
+                : 'Tokens act as you, limited to the scopes you choose.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdToken ? (
+            <div className="flex gap-2">
+              <Input readOnly value={createdToken} className="font-mono text-xs" />
+              <Button variant="outline" onClick={copyToken} title="Copy token">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="CI pipeline"
+                  className="bg-[var(--color-input-contrast)]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {API_TOKEN_SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-start gap-3 text-sm">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <span>
+                      <span className="font-mono">{scope}</span>
+                      <span className="block text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <div>
+                <Label>Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdToken ? (
+              <Button onClick={closeCreateDialog}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeCreateDialog}>Cancel</Button>
+                <Button
+                  onClick={() => createTokenMutation.mutate()}
+                  disabled={!name.trim() || scopes.length === 0 || createTokenMutation.isPending}
+                >
+                  Create Token
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
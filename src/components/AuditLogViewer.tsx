@@ -0,0 +1,307 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Download, Search, ChevronDown, ChevronRight, ScrollText } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface AuditLogChange {
+  from: unknown;
+  to: unknown;
+}
+
+interface AuditLogEntry {
+  id: string;
+  actor_id?: string;
+  actor_email?: string;
+  action: string;
+  target_type: string;
+  target_id?: string;
+  target_label?: string;
+  changes?: Record<string, AuditLogChange>;
+  ip_address?: string;
+  user_agent?: string;
+  created_at: string;
+}
+
+interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+const PAGE_SIZE = 50;
+
+// Groups match every action with that prefix (e.g. 'block' → block.*)
+const ACTION_FILTERS = [
+  { value: 'all', label: 'All actions' },
+  { value: 'block', label: 'All content changes' },
+  { value: 'block.create', label: 'Content created' },
+  { value: 'block.update', label: 'Content updated' },
+  { value: 'block.delete', label: 'Content deleted' },
+  { value: 'block.publish', label: 'Published' },
+  { value: 'block.unpublish', label: 'Unpublished' },
+  { value: 'block.restore', label: 'Revision restored' },
+  { value: 'block.import', label: 'Links imported' },
+  { value: 'block.password', label: 'Password changed' },
+  { value: 'block.privacy', label: 'Privacy changed' },
+  { value: 'landing', label: 'Landing page changes' },
+  { value: 'user', label: 'All user changes' },
+  { value: 'user.create', label: 'User created' },
+  { value: 'user.update', label: 'User updated' },
+  { value: 'user.deactivate', label: 'User deactivated' },
+  { value: 'user.delete', label: 'User deleted' },
+  { value: 'user.revoke_sessions', label: 'Sessions revoked' },
+  { value: 'user.revoke_session', label: 'Session signed out' },
+  { value: 'user.revoke_tokens', label: 'API tokens revoked' },
+  { value: 'user.enable_two_factor', label: '2FA enabled' },
+  { value: 'user.disable_two_factor', label: '2FA disabled' },
+  { value: 'user.reset_two_factor', label: '2FA reset by admin' },
+  { value: 'user.add_passkey', label: 'Passkey added' },
+  { value: 'user.remove_passkey', label: 'Passkey removed' },
+  { value: 'user.invite', label: 'User invited' },
+  { value: 'user.resend_invite', label: 'Invitation resent' },
+  { value: 'user.revoke_invite', label: 'Invitation revoked' },
+  { value: 'user.accept_invite', label: 'Invitation accepted' },
+  { value: 'settings', label: 'Settings changes' },
+  { value: 'analytics', label: 'Analytics data changes' },
+  { value: 'analytics.purge', label: 'Expired data purged' },
+  { value: 'analytics.erase', label: 'Visitor data erased' },
+];
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * AUDIT LOG VIEWER
+ *
+ * Filterable, paginated list of admin actions with the field-level changes
+ * of each entry. The export downloads every entry matching the filters.
+ */
+export default function AuditLogViewer() {
+  const [search, setSearch] = useState('');
+  const [action, setAction] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const filterParams = new URLSearchParams();
+  if (search.trim()) filterParams.set('search', search.trim());
+  if (action !== 'all') filterParams.set('action', action);
+  if (from) filterParams.set('from', new Date(`${from}T00:00:00`).toISOString());
+  if (to) filterParams.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+  const filterQuery = filterParams.toString();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['audit-logs', filterQuery, offset],
+    queryFn: async (): Promise<AuditLogResponse> => {
+      const response = await fetch(`/api/admin/audit-logs?${filterQuery}&limit=${PAGE_SIZE}&offset=${offset}`);
+      if (response.status === 403) throw new Error('You do not have permission to view the audit log');
+      if (!response.ok) throw new Error('Failed to fetch audit log');
+      return response.json();
+    },
+  });
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  const exportCSV = () => {
+    window.location.href = `/api/admin/audit-logs/export?${filterQuery}`;
+  };
+
+  const entries = data?.entries || [];
+  const total = data?.pagination.total || 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor="audit-search" className="block mb-2 text-sm font-medium">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="audit-search"
+                  value={search}
+                  onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                  placeholder="Actor email or target"
+                  className="pl-9 bg-[var(--color-input-contrast)]"
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="block mb-2 text-sm font-medium">Action</Label>
+              <Select value={action} onValueChange={updateFilter(setAction)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTION_FILTERS.map((filter) => (
+                    <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="audit-from" className="block mb-2 text-sm font-medium">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={from}
+                onChange={(e) => updateFilter(setFrom)(e.target.value)}
+                className="bg-[var(--color-input-contrast)]"
+              />
+            </div>
+            <div>
+              <Label htmlFor="audit-to" className="block mb-2 text-sm font-medium">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={to}
+                onChange={(e) => updateFilter(setTo)(e.target.value)}
+                className="bg-[var(--color-input-contrast)]"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <ScrollText className="w-5 h-5" />
+              {isLoading ? 'Entries' : `${total.toLocaleString()} ${total === 1 ? 'entry' : 'entries'}`}
+            </span>
+            <Button variant="outline" size="sm" onClick={exportCSV} disabled={total === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading ? (
+            [...Array(5)].map((_, i) => (
+              <div key={i} className="h-14 bg-muted rounded animate-pulse"></div>
+            ))
+          ) : error ? (
+            <p className="text-sm text-destructive">{error.message}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No entries match these filters.</p>
+          ) : (
+            entries.map((entry) => {
+              const isExpanded = expanded === entry.id;
+              const changes = Object.entries(entry.changes || {});
+
+              return (
+                <div key={entry.id} className="border rounded-lg bg-[var(--color-card-elevated)]">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                    className="w-full flex items-center gap-3 p-3 text-left"
+                  >
+                    {isExpanded
+                      ? <ChevronDown className="w-4 h-4 shrink-0 text-muted-foreground" />
+                      : <ChevronRight className="w-4 h-4 shrink-0 text-muted-foreground" />}
+                    <Badge variant="outline" className="font-mono shrink-0">{entry.action}</Badge>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm truncate">
+                        <span className="font-medium">{entry.actor_email || 'Unknown user'}</span>
+                        {entry.target_label && (
+                          <span className="text-muted-foreground"> → <span className="font-mono">{entry.target_label}</span></span>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(entry.created_at).toLocaleString()} ({formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })})
+                        {entry.ip_address && ` · ${entry.ip_address}`}
+                      </p>
+                    </div>
+                    {changes.length > 0 && (
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {changes.length} {changes.length === 1 ? 'change' : 'changes'}
+                      </span>
+                    )}
+                  </button>
+
+                  {isExpanded && (
+                    <div className="border-t px-3 py-2 space-y-2 text-xs">
+                      {changes.length === 0 ? (
+                        <p className="text-muted-foreground">No field changes recorded.</p>
+                      ) : (
+                        <table className="w-full">
+                          <thead>
+                            <tr className="text-muted-foreground">
+                              <th className="text-left font-medium py-1 pr-3">Field</th>
+                              <th className="text-left font-medium py-1 pr-3">Before</th>
+                              <th className="text-left font-medium py-1">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {changes.map(([field, change]) => (
+                              <tr key={field} className="border-t align-top">
+                                <td className="py-1 pr-3 font-mono">{field}</td>
+                                <td className="py-1 pr-3 break-all text-red-700 dark:text-red-400">{formatValue(change.from)}</td>
+                                <td className="py-1 break-all text-green-700 dark:text-green-400">{formatValue(change.to)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      {entry.user_agent && (
+                        <p className="text-muted-foreground break-all">{entry.user_agent}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between pt-2">
+              <p className="text-sm text-muted-foreground">
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total.toLocaleString()}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                  disabled={offset === 0}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={!data?.pagination.hasMore}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
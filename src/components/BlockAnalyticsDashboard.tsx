@@ -0,0 +1,498 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  Download,
+  MousePointer,
+  RefreshCw,
+  TrendingDown,
+  TrendingUp,
+  Users,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+
+interface BlockAnalytics {
+  days: number;
+  period_start: string;
+  total_clicks: number;
+  period_clicks: number;
+  previous_period_clicks: number;
+  unique_visitors: number;
+  previous_unique_visitors: number;
+  daily_stats: { date: string; clicks: number; previous_date: string; previous_clicks: number }[];
+  top_referrers: BreakdownData[];
+  countries: CountryData[];
+  devices: BreakdownData[];
+  utm: {
+    source: BreakdownData[];
+    medium: BreakdownData[];
+    campaign: BreakdownData[];
+  };
+  recent_clicks: ClickData[];
+}
+
+interface ClickData {
+  id: string;
+  timestamp: Date;
+  referrer?: string;
+  country?: string;
+  region?: string;
+  city?: string;
+  ipAddress?: string;
+}
+
+interface CountryData {
+  country: string;
+  clicks: number;
+}
+
+interface BreakdownData {
+  name: string;
+  clicks: number;
+}
+
+// GremlinLabs brand colors for charts
+const COLORS = ['#1FCC00', '#00A3FF', '#8000FF', '#FF5722', '#FFD600', '#17A300'];
+
+const RANGES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 365 days' },
+];
+
+const UTM_FIELDS = [
+  { key: 'source', label: 'Source' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'campaign', label: 'Campaign' },
+] as const;
+
+/**
+ * Change against the previous period, e.g. "+12%"
+ */
+function formatChange(current: number, previous: number): string {
+  if (previous === 0) {
+    return current > 0 ? 'New' : 'No change';
+  }
+
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change > 0 ? '+' : ''}${change}%`;
+}
+
+/**
+ * PER-BLOCK ANALYTICS
+ *
+ * Clicks of one link or page over a selectable range, compared day by day
+ * with the range before it, with its traffic sources and an export of its
+ * raw clicks.
+ */
+export default function BlockAnalyticsDashboard({ blockId }: { blockId: string }) {
+  const [data, setData] = useState<BlockAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [exporting, setExporting] = useState<'csv' | 'json' | null>(null);
+  const [days, setDays] = useState(30);
+  const [includeBots, setIncludeBots] = useState(false);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({ days: String(days) });
+      if (includeBots) {
+        params.set('includeBots', 'true');
+      }
+
+      const response = await fetch(`/api/admin/blocks/${blockId}/analytics?${params.toString()}`);
+      if (response.ok) {
+        const { analytics } = await response.json();
+        setData(analytics);
+      } else {
+        toast.error('Failed to fetch analytics data');
+      }
+    } catch {
+      // Log error for debugging (could be replaced with proper logging service)
+      toast.error('Error loading analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [blockId, days, includeBots]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      setExporting(format);
+      const params = new URLSearchParams({ format, days: String(days) });
+      const response = await fetch(`/api/admin/blocks/${blockId}/analytics/export?${params.toString()}`);
+      if (response.ok) {
+        // The server names the file after the block
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const filename = disposition.match(/filename="([^"]+)"/)?.[1]
+          || `gremlinlink-analytics-${new Date().toISOString().split('T')[0]}.${format}`;
+
+        const blob = await response.blob();
+        const downloadUrl = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = downloadUrl;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        window.URL.revokeObjectURL(downloadUrl);
+        toast.success('Analytics exported successfully');
+      } else {
+        toast.error('Failed to export analytics');
+      }
+    } catch {
+      // Log error for debugging (could be replaced with proper logging service)
+      toast.error('Error exporting data');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const controls = (
+    <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value))}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map((range) => (
+              <SelectItem key={range.days} value={String(range.days)}>
+                {range.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button
+          variant="outline"
+          onClick={fetchAnalytics}
+          disabled={isLoading}
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+
+        <div className="flex items-center gap-2">
+          <Switch id="block-include-bots" checked={includeBots} onCheckedChange={setIncludeBots} />
+          <Label htmlFor="block-include-bots">Include bots</Label>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={() => handleExport('csv')}
+          disabled={exporting !== null}
+          variant="outline"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+        </Button>
+        <Button
+          onClick={() => handleExport('json')}
+          disabled={exporting !== null}
+          variant="outline"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {exporting === 'json' ? 'Exporting...' : 'Export JSON'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (isLoading && !data) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-24 bg-muted rounded"></div>
+            ))}
+          </div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="space-y-6">
+        {controls}
+        <div className="p-6 text-center">
+          <p className="text-muted-foreground">No analytics data available</p>
+        </div>
+      </div>
+    );
+  }
+
+  const ClicksTrendIcon = data.period_clicks >= data.previous_period_clicks ? TrendingUp : TrendingDown;
+
+  return (
+    <div className="space-y-6">
+      {controls}
+
+      {/* Stats Overview */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Clicks</CardTitle>
+            <ClicksTrendIcon className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-primary">{data.period_clicks}</div>
+            <p className="text-xs text-muted-foreground">
+              {formatChange(data.period_clicks, data.previous_period_clicks)} vs. previous {data.days} days
+              ({data.previous_period_clicks})
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Unique Visitors</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-purple-500">{data.unique_visitors}</div>
+            <p className="text-xs text-muted-foreground">
+              {formatChange(data.unique_visitors, data.previous_unique_visitors)} vs. previous {data.days} days
+              ({data.previous_unique_visitors})
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">All-Time Clicks</CardTitle>
+            <MousePointer className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-primary">{data.total_clicks}</div>
+            <p className="text-xs text-muted-foreground">
+              {includeBots ? 'Including bots' : 'Bots excluded'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Clicks over time, against the same days of the previous period */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Clicks Over Time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={data.daily_stats}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Line
+                type="monotone"
+                dataKey="clicks"
+                stroke="#1FCC00"
+                strokeWidth={3}
+                dot={data.days <= 30 ? { fill: '#1FCC00', strokeWidth: 2 } : false}
+                name={`Last ${data.days} days`}
+              />
+              <Line
+                type="monotone"
+                dataKey="previous_clicks"
+                stroke="#00A3FF"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                name={`Previous ${data.days} days`}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Charts Grid */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Top Referrers */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Referrers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {data.top_referrers.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={data.top_referrers.slice(0, 6)}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="clicks">
+                    {data.top_referrers.slice(0, 6).map((_entry, index) => (
+                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-muted-foreground text-center py-4">No clicks in this period</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Clicks by Country */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Clicks by Country</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {data.countries.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <PieChart>
+                  <Pie
+                    data={data.countries.slice(0, 6)}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    label={({ country, percent }) => `${country} ${percent ? (percent * 100).toFixed(0) : 0}%`}
+                    outerRadius={80}
+                    fill="#8884d8"
+                    dataKey="clicks"
+                    nameKey="country"
+                  >
+                    {data.countries.slice(0, 6).map((_entry, index) => (
+                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                </PieChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-muted-foreground text-center py-4">No locations in this period</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Clicks by Device */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Clicks by Device</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {data.devices.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <PieChart>
+                  <Pie
+                    data={data.devices}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    label={({ name, percent }) => `${name} ${percent ? (percent * 100).toFixed(0) : 0}%`}
+                    outerRadius={80}
+                    fill="#8884d8"
+                    dataKey="clicks"
+                    nameKey="name"
+                  >
+                    {data.devices.map((_entry, index) => (
+                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                </PieChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-muted-foreground text-center py-4">No clicks in this period</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* UTM Campaigns */}
+        <Card>
+          <CardHeader>
+            <CardTitle>UTM Campaigns</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-h-[300px] overflow-y-auto">
+              {UTM_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <p className="text-sm font-medium mb-2">{label}</p>
+                  <div className="space-y-1">
+                    {data.utm[key].map((row) => (
+                      <div key={row.name} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate" title={row.name}>{row.name}</span>
+                        <span className="font-mono text-muted-foreground">{row.clicks}</span>
+                      </div>
+                    ))}
+                    {data.utm[key].length === 0 && (
+                      <p className="text-xs text-muted-foreground">None</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-4">
+              From utm_source, utm_medium and utm_campaign on visits to this link
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Recent Activity */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Clicks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3 max-h-[400px] overflow-y-auto">
+            {data.recent_clicks.map((click) => (
+              <div key={click.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                <div className="flex-1">
+                  <p className="text-sm">
+                    {new Date(click.timestamp).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {click.country ? [click.city, click.region, click.country].filter(Boolean).join(', ') : 'Unknown location'}
+                    {click.ipAddress && ` • ${click.ipAddress}`}
+                  </p>
+                  {click.referrer && (
+                    <p className="text-xs text-muted-foreground mt-1 break-all">
+                      From: {click.referrer}
+                    </p>
+                  )}
+                </div>
+                <MousePointer className="h-4 w-4 text-muted-foreground" />
+              </div>
+            ))}
+            {data.recent_clicks.length === 0 && (
+              <p className="text-muted-foreground text-center py-4">No recent activity</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
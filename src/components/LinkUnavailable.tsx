@@ -0,0 +1,41 @@
+import Link from 'next/link';
+import { Clock, LinkIcon } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import type { RedirectUnavailableReason } from '@/lib/renderers';
+
+interface LinkUnavailableProps {
+  reason: RedirectUnavailableReason;
+  message: string;
+  activateAt?: string;
+}
+
+/**
+ * LinkUnavailable Component
+ *
+ * Shown in place of a redirect that is scheduled for later, has expired
+ * or has reached its click limit and has no fallback URL configured.
+ */
+export function LinkUnavailable({ reason, message, activateAt }: LinkUnavailableProps) {
+  const Icon = reason === 'scheduled' ? Clock : LinkIcon;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="max-w-md w-full">
+        <CardContent className="p-8 text-center space-y-4">
+          <div className="mx-auto w-12 h-12 rounded-full bg-muted flex items-center justify-center">
+            <Icon className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">{message}</h1>
+          <p className="text-muted-foreground">
+            {reason === 'scheduled' && activateAt
+              ? `Check back after ${new Date(activateAt).toUTCString()}.`
+              : 'The owner of this link has limited how long or how often it can be used.'}
+          </p>
+          <Link href="/" className="inline-block text-sm text-primary hover:underline">
+            Go to the homepage
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface LinkUnlockFormProps {
+  slug: string;
+}
+
+/**
+ * LinkUnlockForm Component
+ *
+ * Asks for the access password of a protected link. On success the server
+ * sets an unlock cookie and the page is reloaded to redirect or render.
+ */
+export function LinkUnlockForm({ slug }: LinkUnlockFormProps) {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/unlock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to unlock link');
+        setIsSubmitting(false);
+        return;
+      }
+
+      window.location.reload();
+    } catch {
+      setError('Failed to unlock link');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="max-w-md w-full">
+        <CardContent className="p-8 space-y-6">
+          <div className="text-center space-y-4">
+            <div className="mx-auto w-12 h-12 rounded-full bg-muted flex items-center justify-center">
+              <Lock className="w-6 h-6 text-muted-foreground" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground">Password required</h1>
+            <p className="text-muted-foreground">
+              This link is protected. Enter the password to continue.
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="access-password" className="block mb-2 text-sm font-medium">Password</Label>
+              <Input
+                id="access-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+                required
+                className="h-11 text-base"
+              />
+              {error && (
+                <p className="text-sm text-destructive mt-2">{error}</p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={isSubmitting || !password}>
+              {isSubmitting ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Fingerprint, Plus, Trash2, Pencil } from 'lucide-react';
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+interface PasskeyItem {
+  id: string;
+  name: string;
+  device_type: string;
+  backed_up: boolean;
+  last_used_at?: string;
+  created_at: string;
+}
+
+// Browser errors worth showing as-is; anything else gets a generic message
+const getPasskeyErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof Error && error.name === 'NotAllowedError') return 'Passkey request was cancelled or timed out';
+  if (error instanceof Error && error.name === 'InvalidStateError') return 'This device already has a passkey for your account';
+  return error instanceof Error ? error.message : fallback;
+};
+
+/**
+ * PASSKEYS PANEL
+ *
+ * Register passkeys (Touch ID, Windows Hello, security keys, synced phone
+ * passkeys) to sign in without waiting for a magic link email.
+ */
+export function PasskeysCard() {
+  const queryClient = useQueryClient();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<PasskeyItem | null>(null);
+  const [newName, setNewName] = useState('');
+  const [isSupported, setIsSupported] = useState(true);
+
+  // Only known in the browser, so checked after mount
+  useEffect(() => {
+    setIsSupported(browserSupportsWebAuthn());
+  }, []);
+
+  const { data: passkeys = [], isLoading } = useQuery({
+    queryKey: ['passkeys'],
+    queryFn: async (): Promise<PasskeyItem[]> => {
+      const response = await fetch('/api/admin/passkeys');
+      if (!response.ok) throw new Error('Failed to fetch passkeys');
+      const data = await response.json();
+      return data.passkeys;
+    },
+  });
+
+  const addPasskeyMutation = useMutation({
+    mutationFn: async () => {
+      const optionsResponse = await fetch('/api/admin/auth/passkey/register', { method: 'POST' });
+      const { challengeId, options, error } = await optionsResponse.json();
+      if (!optionsResponse.ok) throw new Error(error || 'Failed to start passkey registration');
+
+      const registration = await startRegistration({ optionsJSON: options });
+
+      const response = await fetch('/api/admin/auth/passkey/register', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeId, name, response: registration }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to register passkey');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['passkeys'] });
+      setIsAddOpen(false);
+      setName('');
+      toast.success('Passkey added');
+    },
+    onError: (error) => {
+      toast.error(getPasskeyErrorMessage(error, 'Failed to register passkey'));
+    },
+  });
+
+  const renamePasskeyMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const response = await fetch(`/api/admin/passkeys/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) throw new Error('Failed to rename passkey');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['passkeys'] });
+      setRenaming(null);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const removePasskeyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/passkeys/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to remove passkey');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['passkeys'] });
+      toast.success('Passkey removed');
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Fingerprint className="w-5 h-5" />
+            Passkeys
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setIsAddOpen(true)} disabled={!isSupported}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Passkey
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {isSupported
+            ? 'Sign in with your fingerprint, face or device PIN instead of waiting for an email. Magic links keep working as a fallback.'
+            : 'This browser does not support passkeys.'}
+        </p>
+
+        {isLoading ? (
+          <div className="h-16 bg-muted rounded animate-pulse"></div>
+        ) : passkeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No passkeys yet.</p>
+        ) : (
+          passkeys.map((passkey) => (
+            <div
+              key={passkey.id}
+              className="flex items-center justify-between gap-3 p-4 border rounded-lg bg-[var(--color-card-elevated)]"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {passkey.name}
+                  {passkey.backed_up && <span className="ml-2 text-xs text-muted-foreground">(synced)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Added {formatDistanceToNow(new Date(passkey.created_at), { addSuffix: true })} ·{' '}
+                  {passkey.last_used_at
+                    ? `last used ${formatDistanceToNow(new Date(passkey.last_used_at), { addSuffix: true })}`
+                    : 'never used'}
+                </p>
+              </div>
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setRenaming(passkey);
+                    setNewName(passkey.name);
+                  }}
+                  title="Rename passkey"
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm(`Remove the passkey "${passkey.name}"?`)) {
+                      removePasskeyMutation.mutate(passkey.id);
+                    }
+                  }}
+                  disabled={removePasskeyMutation.isPending}
+                  title="Remove passkey"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Passkey</DialogTitle>
+            <DialogDescription>
+              Name this passkey so you can tell your devices apart. Your browser will then ask you to confirm.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="passkey-name">Name</Label>
+            <Input
+              id="passkey-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Work laptop"
+              className="bg-[var(--color-input-contrast)]"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => addPasskeyMutation.mutate()}
+              disabled={!name.trim() || addPasskeyMutation.isPending}
+            >
+              {addPasskeyMutation.isPending ? 'Waiting for device...' : 'Continue'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Passkey</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="bg-[var(--color-input-contrast)]"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+            <Button
+              onClick={() => renaming && renamePasskeyMutation.mutate({ id: renaming.id, name: newName })}
+              disabled={!newName.trim() || renamePasskeyMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
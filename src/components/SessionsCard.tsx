@@ -0,0 +1,211 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+
+interface SessionItem {
+  id: string;
+  user_email?: string;
+  device_label: string;
+  user_agent?: string;
+  ip_address?: string;
+  last_seen_at: string;
+  created_at: string;
+  current: boolean;
+}
+
+const isMobileDevice = (label: string) => /iPhone|iPad|Android/.test(label);
+
+function useRevokeSession(queryKey: string[]) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/sessions/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to sign out session');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Session signed out');
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+function SessionRow({
+  session,
+  showUser,
+  onRevoke,
+  isRevoking,
+}: {
+  session: SessionItem;
+  showUser?: boolean;
+  onRevoke?: () => void;
+  isRevoking?: boolean;
+}) {
+  const DeviceIcon = isMobileDevice(session.device_label) ? Smartphone : Monitor;
+
+  return (
+    <div className="flex items-center justify-between gap-3 p-4 border rounded-lg bg-[var(--color-card-elevated)]">
+      <div className="flex items-center gap-3 min-w-0">
+        <DeviceIcon className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="font-medium truncate" title={session.user_agent}>
+            {showUser && session.user_email ? `${session.user_email} · ` : ''}
+            {session.device_label}
+            {session.current && <Badge variant="outline" className="ml-2">This device</Badge>}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {session.ip_address || 'Unknown IP'} · signed in{' '}
+            {formatDistanceToNow(new Date(session.created_at), { addSuffix: true })} · active{' '}
+            {formatDistanceToNow(new Date(session.last_seen_at), { addSuffix: true })}
+          </p>
+        </div>
+      </div>
+      {onRevoke && !session.current && (
+        <Button variant="ghost" size="sm" onClick={onRevoke} disabled={isRevoking} title="Sign out this session">
+          <LogOut className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * ACTIVE SESSIONS PANEL
+ *
+ * The signed-in user's sessions with the device and IP they came from.
+ * Individual sessions, or all but the current one, can be signed out.
+ */
+export function SessionsCard() {
+  const queryClient = useQueryClient();
+  const revokeSessionMutation = useRevokeSession(['sessions']);
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async (): Promise<SessionItem[]> => {
+      const response = await fetch('/api/admin/sessions');
+      if (!response.ok) throw new Error('Failed to fetch sessions');
+      const data = await response.json();
+      return data.sessions;
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/sessions', { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to sign out other sessions');
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast.success(`Signed out ${data.revoked} other ${data.revoked === 1 ? 'session' : 'sessions'}`);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Monitor className="w-5 h-5" />
+            Active Sessions
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              if (confirm('Sign out all other sessions? Those devices will need to sign in again.')) {
+                revokeOthersMutation.mutate();
+              }
+            }}
+            disabled={!hasOtherSessions || revokeOthersMutation.isPending}
+          >
+            Sign Out Other Sessions
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="h-16 bg-muted rounded animate-pulse"></div>
+        ) : (
+          sessions.map((session) => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              onRevoke={() => revokeSessionMutation.mutate(session.id)}
+              isRevoking={revokeSessionMutation.isPending}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * ALL SESSIONS PANEL
+ *
+ * Every user's active sessions, for admins. Signing out someone else's
+ * session needs the users:manage permission.
+ */
+export function AllSessionsCard({ canManage }: { canManage: boolean }) {
+  const revokeSessionMutation = useRevokeSession(['sessions', 'all']);
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['sessions', 'all'],
+    queryFn: async (): Promise<SessionItem[]> => {
+      const response = await fetch('/api/admin/sessions?all=true');
+      if (!response.ok) throw new Error('Failed to fetch sessions');
+      const data = await response.json();
+      return data.sessions;
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions ({sessions.length})</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="h-16 bg-muted rounded animate-pulse"></div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          sessions.map((session) => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              showUser
+              onRevoke={canManage
+                ? () => {
+                  if (confirm(`Sign out ${session.user_email} on ${session.device_label}?`)) {
+                    revokeSessionMutation.mutate(session.id);
+                  }
+                }
+                : undefined}
+              isRevoking={revokeSessionMutation.isPending}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { RecoveryCodesList, TwoFactorSetup } from '@/components/TwoFactorSetup';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Actions on an enabled 2FA that need a current code first
+type CodeAction = 'disable' | 'regenerate';
+
+/**
+ * TWO-FACTOR PANEL
+ *
+ * Lets the signed-in user enrol an authenticator app, replace their
+ * recovery codes or turn 2FA off (unless the security settings require it).
+ */
+export function TwoFactorCard() {
+  const queryClient = useQueryClient();
+  const [isSetupOpen, setIsSetupOpen] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['two-factor'],
+    queryFn: async (): Promise<TwoFactorStatus> => {
+      const response = await fetch('/api/admin/two-factor');
+      if (!response.ok) throw new Error('Failed to fetch two-factor status');
+      return response.json();
+    },
+  });
+
+  const closeSetup = () => {
+    setIsSetupOpen(false);
+    setRecoveryCodes(null);
+  };
+
+  const closeCodeAction = () => {
+    setCodeAction(null);
+    setCode('');
+    setRecoveryCodes(null);
+  };
+
+  const completeSetup = (codes: string[]) => {
+    setRecoveryCodes(codes);
+    queryClient.invalidateQueries({ queryKey: ['two-factor'] });
+    toast.success('Two-factor authentication enabled');
+  };
+
+  const submitCodeAction = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const response = codeAction === 'disable'
+        ? await fetch('/api/admin/two-factor', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code }),
+        })
+        : await fetch('/api/admin/two-factor/recovery-codes', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code }),
+        });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+
+      queryClient.invalidateQueries({ queryKey: ['two-factor'] });
+      if (codeAction === 'disable') {
+        toast.success('Two-factor authentication disabled');
+        closeCodeAction();
+      } else {
+        setRecoveryCodes(data.recoveryCodes);
+        setCode('');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Two-Factor Authentication
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading || !status ? (
+          <div className="h-16 bg-muted rounded animate-pulse"></div>
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Enabled. Sign-ins ask for a code from your authenticator app after the magic link.{' '}
+              {status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? 'code' : 'codes'} left.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setCodeAction('regenerate')}>
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" size="sm" onClick={() => setCodeAction('disable')}>
+                  Disable
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {status.required
+                ? 'Required for all users. You will be asked to set it up at your next sign-in.'
+                : 'Protect your account with a code from an authenticator app, in addition to the magic link.'}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setIsSetupOpen(true)}>
+              Set Up
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isSetupOpen} onOpenChange={(open) => !open && closeSetup()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{recoveryCodes ? 'Recovery Codes' : 'Set Up Two-Factor Authentication'}</DialogTitle>
+          </DialogHeader>
+          {recoveryCodes ? (
+            <>
+              <RecoveryCodesList codes={recoveryCodes} />
+              <DialogFooter>
+                <Button onClick={closeSetup}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <TwoFactorSetup endpoint="/api/admin/two-factor" onComplete={completeSetup} onCancel={closeSetup} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={codeAction !== null} onOpenChange={(open) => !open && closeCodeAction()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {codeAction === 'disable' ? 'Disable Two-Factor Authentication' : 'New Recovery Codes'}
+            </DialogTitle>
+            {!recoveryCodes && (
+              <DialogDescription>
+                {codeAction === 'disable'
+                  ? 'Enter a code from your authenticator app (or a recovery code) to turn 2FA off.'
+                  : 'Enter a code from your authenticator app. Your old recovery codes will stop working.'}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {recoveryCodes ? (
+            <>
+              <RecoveryCodesList codes={recoveryCodes} />
+              <DialogFooter>
+                <Button onClick={closeCodeAction}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={submitCodeAction} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="totp-action-code">Code</Label>
+                <Input
+                  id="totp-action-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  className="font-mono bg-[var(--color-input-contrast)]"
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeCodeAction}>Cancel</Button>
+                <Button
+                  type="submit"
+                  variant={codeAction === 'disable' ? 'destructive' : 'default'}
+                  disabled={!code.trim() || isSubmitting}
+                >
+                  {codeAction === 'disable' ? 'Disable' : 'Generate'}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
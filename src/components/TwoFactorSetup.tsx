@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface SetupData {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface TwoFactorSetupProps {
+  endpoint: string; // POST starts enrolment, PUT confirms it
+  onComplete: (recoveryCodes: string[]) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * TOTP ENROLMENT
+ *
+ * Shows the QR code (and the secret for manual entry), then confirms the
+ * first code from the authenticator app. Used from settings and from the
+ * sign-in flow when 2FA is required.
+ */
+export function TwoFactorSetup({ endpoint, onComplete, onCancel }: TwoFactorSetupProps) {
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  useEffect(() => {
+    const startSetup = async () => {
+      try {
+        const response = await fetch(endpoint, { method: 'POST' });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to start two-factor setup');
+        setSetup(data);
+      } catch (setupError) {
+        setError(setupError instanceof Error ? setupError.message : 'Failed to start two-factor setup');
+      }
+    };
+
+    startSetup();
+  }, [endpoint]);
+
+  const confirmSetup = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsConfirming(true);
+    setError(null);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to confirm two-factor setup');
+      onComplete(data.recoveryCodes);
+    } catch (confirmError) {
+      setError(confirmError instanceof Error ? confirmError.message : 'Failed to confirm two-factor setup');
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (!setup) {
+    return error
+      ? <p className="text-sm text-destructive">{error}</p>
+      : <div className="h-60 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <form onSubmit={confirmSetup} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan the QR code with an authenticator app (1Password, Google Authenticator, Authy, ...), then enter the 6-digit code it shows.
+      </p>
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto w-48 h-48 rounded bg-white p-2" />
+      <div>
+        <Label className="text-xs text-muted-foreground">Can&apos;t scan? Enter this key instead</Label>
+        <p className="font-mono text-sm break-all select-all">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="totp-setup-code">Verification code</Label>
+        <Input
+          id="totp-setup-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          className="font-mono bg-[var(--color-input-contrast)]"
+        />
+      </div>
+      {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+      <div className="flex gap-2 justify-end">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+        )}
+        <Button type="submit" disabled={code.trim().length < 6 || isConfirming}>
+          {isConfirming ? 'Verifying...' : 'Enable Two-Factor'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Recovery codes, shown once after enrolment or regeneration
+ */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    toast.success('Recovery codes copied to clipboard');
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these codes somewhere safe. Each one signs you in once if you lose your authenticator. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 rounded-lg border font-mono text-sm bg-[var(--color-card-elevated)]">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadCodes}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
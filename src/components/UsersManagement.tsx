@@ -15,6 +15,10 @@ import {
   MoreHorizontal,
   Mail,
   Activity,
+  ShieldOff,
+  Send,
+  RotateCw,
+  XCircle,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
@@ -48,6 +52,8 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { USER_ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, UserRole } from '@/lib/permissions';
 
 interface User {
   id: string;
@@ -60,6 +66,7 @@ interface User {
   session_count: number;
   last_session?: Date | null;
   magic_link_count: number;
+  two_factor_enabled: boolean;
 }
 
 interface UserStats {
@@ -69,6 +76,16 @@ interface UserStats {
   recentLogins: number;
 }
 
+interface Invitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  invited_by_email?: string;
+  expires_at: string;
+  last_sent_at: string;
+  created_at: string;
+}
+
 interface CreateUserData {
   email: string;
   name?: string;
@@ -83,6 +100,11 @@ export default function UsersManagement() {
   const [isLoading, setIsLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
 
   // Form state
   const [formData, setFormData] = useState<CreateUserData>({
@@ -93,6 +115,7 @@ export default function UsersManagement() {
 
   useEffect(() => {
     fetchUsers();
+    fetchInvitations();
   }, []);
 
   useEffect(() => {
@@ -131,6 +154,87 @@ export default function UsersManagement() {
     }
   };
 
+  const fetchInvitations = async () => {
+    try {
+      const response = await fetch('/api/admin/invitations');
+      if (response.ok) {
+        const data = await response.json();
+        setInvitations(data.invitations || []);
+      }
+    } catch {
+      // Silent error handling - the users list reports connection problems
+    }
+  };
+
+  const handleInviteUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+
+    try {
+      const response = await fetch('/api/admin/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+
+      if (response.ok) {
+        toast.success(`Invitation sent to ${inviteEmail}`);
+        setInviteDialogOpen(false);
+        setInviteEmail('');
+        setInviteRole('editor');
+        fetchInvitations();
+      } else {
+        const error = await response.json();
+        toast.error(error.details?.[0]?.message || error.error || 'Failed to send invitation');
+      }
+    } catch {
+      // Log error for debugging (could be replaced with proper logging service)
+      toast.error('Error sending invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleResendInvitation = async (invitation: Invitation) => {
+    try {
+      const response = await fetch(`/api/admin/invitations/${invitation.id}/resend`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        toast.success(`Invitation resent to ${invitation.email}`);
+        fetchInvitations();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to resend invitation');
+      }
+    } catch {
+      // Log error for debugging (could be replaced with proper logging service)
+      toast.error('Error resending invitation');
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}? The link in their email will stop working.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/invitations/${invitation.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        toast.success('Invitation revoked');
+        fetchInvitations();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to revoke invitation');
+      }
+    } catch {
+      // Log error for debugging (could be replaced with proper logging service)
+      toast.error('Error revoking invitation');
+    }
+  };
+
   const handleCreateUser = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -254,6 +358,27 @@ export default function UsersManagement() {
     }
   };
 
+  const handleResetTwoFactor = async (user: User) => {
+    if (!confirm(`Reset two-factor authentication for ${user.email}? They can sign in with a magic link alone until they enrol again.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/reset-two-factor`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        toast.success('Two-factor authentication reset');
+        fetchUsers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to reset two-factor authentication');
+      }
+    } catch {
+      // Log error for debugging (could be replaced with proper logging service)
+      toast.error('Error resetting two-factor authentication');
+    }
+  };
+
   const startEdit = (user: User) => {
     setEditingUser(user);
     setFormData({
@@ -317,61 +442,117 @@ export default function UsersManagement() {
           <h1 className="text-3xl font-bold">Users Management</h1>
           <p className="text-muted-foreground">Manage user accounts and permissions</p>
         </div>
-        <Dialog open={dialogOpen} onOpenChange={handleDialogOpenChange}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add User
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>{editingUser ? 'Edit User' : 'Create New User'}</DialogTitle>
-              <DialogDescription>
-                {editingUser ? 'Update user information' : 'Add a new user to the system'}
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={editingUser ? handleUpdateUser : handleCreateUser}>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="email">Email</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    value={formData.email}
-                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                    required
-                  />
+        <div className="flex gap-2">
+          <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Send className="h-4 w-4 mr-2" />
+                Invite User
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Invite User</DialogTitle>
+                <DialogDescription>
+                  Send an invitation link. The account is created with this role when they accept, even if their email domain is not in ALLOWED_DOMAINS.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleInviteUser}>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="invite-email">Email</Label>
+                    <Input
+                      id="invite-email"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label>Role</Label>
+                    <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as UserRole)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                            <span className="ml-2 text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-                <div>
-                  <Label htmlFor="name">Name (Optional)</Label>
-                  <Input
-                    id="name"
-                    type="text"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  />
+                <DialogFooter className="mt-6">
+                  <Button type="button" variant="outline" onClick={() => setInviteDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isInviting}>
+                    {isInviting ? 'Sending...' : 'Send Invitation'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+          <Dialog open={dialogOpen} onOpenChange={handleDialogOpenChange}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add User
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingUser ? 'Edit User' : 'Create New User'}</DialogTitle>
+                <DialogDescription>
+                  {editingUser ? 'Update user information' : 'Add a new user to the system'}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={editingUser ? handleUpdateUser : handleCreateUser}>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="name">Name (Optional)</Label>
+                    <Input
+                      id="name"
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="is_active"
+                      checked={formData.is_active}
+                      onCheckedChange={(checked) => setFormData({ ...formData, is_active: !!checked })}
+                    />
+                    <Label htmlFor="is_active">Active User</Label>
+                  </div>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="is_active"
-                    checked={formData.is_active}
-                    onCheckedChange={(checked) => setFormData({ ...formData, is_active: !!checked })}
-                  />
-                  <Label htmlFor="is_active">Active User</Label>
-                </div>
-              </div>
-              <DialogFooter className="mt-6">
-                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingUser ? 'Update User' : 'Create User'}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter className="mt-6">
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingUser ? 'Update User' : 'Create User'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -415,6 +596,72 @@ export default function UsersManagement() {
         </Card>
       </div>
 
+      {/* Pending Invitations */}
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Invitations ({invitations.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Invited By</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => {
+                  const isExpired = new Date(invitation.expires_at).getTime() < Date.now();
+
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell className="font-medium">{invitation.email}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{ROLE_LABELS[invitation.role] || invitation.role}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {invitation.invited_by_email || 'Unknown'}
+                      </TableCell>
+                      <TableCell className="text-sm">{getRelativeTime(new Date(invitation.last_sent_at))}</TableCell>
+                      <TableCell>
+                        {isExpired ? (
+                          <Badge variant="secondary">Expired</Badge>
+                        ) : (
+                          <span className="text-sm">{formatDate(new Date(invitation.expires_at))}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleResendInvitation(invitation)}
+                          title="Resend invitation"
+                        >
+                          <RotateCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevokeInvitation(invitation)}
+                          title="Revoke invitation"
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Search */}
       <div className="flex items-center space-x-2">
         <div className="relative flex-1 max-w-sm">
@@ -466,6 +713,9 @@ export default function UsersManagement() {
                     <Badge variant={user.is_active ? 'default' : 'secondary'}>
                       {user.is_active ? 'Active' : 'Inactive'}
                     </Badge>
+                    {user.two_factor_enabled && (
+                      <Badge variant="outline" className="ml-1">2FA</Badge>
+                    )}
                   </TableCell>
                   <TableCell>
                     <div className="text-sm">
@@ -522,6 +772,12 @@ export default function UsersManagement() {
                           <Shield className="h-4 w-4 mr-2" />
                           Revoke Sessions
                         </DropdownMenuItem>
+                        {user.two_factor_enabled && (
+                          <DropdownMenuItem onClick={() => handleResetTwoFactor(user)}>
+                            <ShieldOff className="h-4 w-4 mr-2" />
+                            Reset 2FA
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuSeparator />
                         <DropdownMenuItem 
                           onClick={() => handleDeleteUser(user.id)}
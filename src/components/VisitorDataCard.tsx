@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Eraser, Trash2, UserX } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+/**
+ * VISITOR DATA PANEL
+ *
+ * Erases one visitor's personal data from click analytics, e.g. to answer
+ * a GDPR erasure request, and purges raw data past the retention period
+ * without waiting for the next automatic run.
+ */
+export function VisitorDataCard() {
+  const [ipAddress, setIpAddress] = useState('');
+  const [userAgent, setUserAgent] = useState('');
+
+  const eraseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/analytics/erase', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ipAddress: ipAddress.trim(),
+          ...(userAgent.trim() ? { userAgent: userAgent.trim() } : {}),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to erase visitor data');
+      return data;
+    },
+    onSuccess: (data) => {
+      setIpAddress('');
+      setUserAgent('');
+      toast.success(`Erased visitor data from ${data.erased} ${data.erased === 1 ? 'click' : 'clicks'}`);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/analytics/purge', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to purge analytics data');
+      return data;
+    },
+    onSuccess: (data) => {
+      toast.success(`Purged raw data from ${data.clicksPurged} ${data.clicksPurged === 1 ? 'click' : 'clicks'}`);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <UserX className="w-5 h-5" />
+            Visitor Data
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => purgeMutation.mutate()}
+            disabled={purgeMutation.isPending}
+            title="Remove IPs and user agents older than the saved retention period"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {purgeMutation.isPending ? 'Purging...' : 'Purge Expired Data'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Remove a visitor&apos;s IP address, user agent, referrer and location from their clicks.
+          The clicks remain in the totals. Add the visitor&apos;s user agent to also find clicks whose
+          IP address was truncated or not stored.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="erase-ip">IP Address</Label>
+            <Input
+              id="erase-ip"
+              value={ipAddress}
+              onChange={(e) => setIpAddress(e.target.value)}
+              placeholder="203.0.113.7"
+              className="bg-[var(--color-input-contrast)]"
+            />
+          </div>
+          <div>
+            <Label htmlFor="erase-user-agent">User Agent (optional)</Label>
+            <Input
+              id="erase-user-agent"
+              value={userAgent}
+              onChange={(e) => setUserAgent(e.target.value)}
+              placeholder="Mozilla/5.0 ..."
+              className="bg-[var(--color-input-contrast)]"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            variant="destructive"
+            onClick={() => {
+              if (confirm('Erase this visitor\'s data from all matching clicks? This cannot be undone.')) {
+                eraseMutation.mutate();
+              }
+            }}
+            disabled={!ipAddress.trim() || eraseMutation.isPending}
+          >
+            <Eraser className="w-4 h-4 mr-2" />
+            {eraseMutation.isPending ? 'Erasing...' : 'Erase Visitor Data'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
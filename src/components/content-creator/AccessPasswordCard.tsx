@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Lock, LockOpen } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useSetAccessPassword } from '@/lib/hooks/use-blocks';
+
+interface AccessPasswordCardProps {
+  blockId: string;
+  isProtected: boolean;
+}
+
+/**
+ * ACCESS PASSWORD PANEL
+ *
+ * Lets editors require a password before a link redirects or a page renders.
+ * The password is hashed on the server and never sent back to the editor.
+ */
+export function AccessPasswordCard({ blockId, isProtected: initialProtected }: AccessPasswordCardProps) {
+  const [isProtected, setIsProtected] = useState(initialProtected);
+  const [password, setPassword] = useState('');
+  const passwordMutation = useSetAccessPassword();
+
+  useEffect(() => {
+    setIsProtected(initialProtected);
+  }, [initialProtected]);
+
+  const handleSave = async () => {
+    try {
+      const result = await passwordMutation.mutateAsync({ blockId, password });
+      setIsProtected(result.isProtected);
+      setPassword('');
+    } catch {
+      // Error toast is handled by the mutation
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      const result = await passwordMutation.mutateAsync({ blockId, password: null });
+      setIsProtected(result.isProtected);
+      setPassword('');
+    } catch {
+      // Error toast is handled by the mutation
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-sm bg-card/50 backdrop-blur">
+      <CardHeader className="pb-3 sm:pb-4 px-4 sm:px-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          {isProtected ? <Lock className="w-4 h-4" /> : <LockOpen className="w-4 h-4" />}
+          Password Protection
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <p className="text-sm text-muted-foreground">
+          {isProtected
+            ? 'Visitors must enter the password before this link opens.'
+            : 'Anyone with the URL can open this link.'}
+        </p>
+
+        <div>
+          <Label htmlFor="accessPassword" className="text-sm font-medium mb-2 block">
+            {isProtected ? 'New Password' : 'Password'}
+          </Label>
+          <Input
+            id="accessPassword"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="At least 4 characters"
+            className="h-11 bg-[var(--color-input-contrast)]"
+          />
+          {isProtected && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Changing the password signs out visitors who already unlocked the link
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={handleSave}
+            disabled={passwordMutation.isPending || password.length < 4}
+            className="flex-1"
+          >
+            {isProtected ? 'Change Password' : 'Set Password'}
+          </Button>
+          {isProtected && (
+            <Button
+              variant="outline"
+              onClick={handleRemove}
+              disabled={passwordMutation.isPending}
+            >
+              Remove
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useImportLinks, LinkImportReport, LinkImportRow } from '@/lib/hooks/use-blocks';
+import { cn } from '@/lib/utils';
+
+interface LinkImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ImportStrategy = LinkImportReport['strategy'];
+
+const ACTION_LABELS: Record<LinkImportRow['action'], string> = {
+  create: 'Create',
+  overwrite: 'Overwrite',
+  skip: 'Skip',
+  invalid: 'Invalid',
+};
+
+const CONFLICT_LABELS: Record<NonNullable<LinkImportRow['conflict']>, string> = {
+  exists: 'Slug already in use',
+  reserved: 'Reserved slug',
+  alias: 'Previous URL of another link',
+  duplicate: 'Repeated in this file',
+};
+
+const detectFormat = (content: string, fileName?: string): 'csv' | 'json' => {
+  if (fileName?.toLowerCase().endsWith('.json')) return 'json';
+  if (fileName?.toLowerCase().endsWith('.csv')) return 'csv';
+  const trimmed = content.trimStart();
+  return trimmed.startsWith('[') || trimmed.startsWith('{') ? 'json' : 'csv';
+};
+
+/**
+ * LINK IMPORT DIALOG
+ *
+ * Bulk import of redirect links from CSV or JSON with a dry-run preview of
+ * what will be created, overwritten or skipped, plus export of all links.
+ */
+export function LinkImportDialog({ open, onOpenChange }: LinkImportDialogProps) {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [strategy, setStrategy] = useState<ImportStrategy>('skip');
+  const [preview, setPreview] = useState<LinkImportReport | null>(null);
+  const importMutation = useImportLinks();
+
+  const reset = () => {
+    setContent('');
+    setFileName(undefined);
+    setPreview(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setContent(await file.text());
+    setFileName(file.name);
+    setPreview(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    try {
+      const report = await importMutation.mutateAsync({
+        format: detectFormat(content, fileName),
+        content,
+        strategy,
+        dryRun,
+      });
+
+      if (dryRun) {
+        setPreview(report);
+      } else {
+        handleOpenChange(false);
+      }
+    } catch {
+      // Error toast is handled by the mutation
+    }
+  };
+
+  const exportLinks = (format: 'csv' | 'json') => {
+    window.location.href = `/api/admin/blocks/export?format=${format}`;
+  };
+
+  const importable = preview ? preview.summary.create + preview.summary.overwrite : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import &amp; Export Links</DialogTitle>
+          <DialogDescription>
+            CSV files need a header row with slug and url columns; title, tags (separated by ;) and published are optional.
+            JSON files hold an array of objects with the same fields.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="importFile" className="block mb-2 text-sm font-medium">File</Label>
+              <input
+                id="importFile"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="block w-full text-sm file:mr-3 file:rounded-md file:border-0 file:bg-muted file:px-3 file:py-2 file:text-sm"
+              />
+            </div>
+            <div>
+              <Label className="block mb-2 text-sm font-medium">When a slug is taken</Label>
+              <Select
+                value={strategy}
+                onValueChange={(value) => {
+                  setStrategy(value as ImportStrategy);
+                  setPreview(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip the row</SelectItem>
+                  <SelectItem value="overwrite">Overwrite the existing link</SelectItem>
+                  <SelectItem value="rename">Import under a new slug</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="importContent" className="block mb-2 text-sm font-medium">Or paste the contents</Label>
+            <Textarea
+              id="importContent"
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                setFileName(undefined);
+                setPreview(null);
+              }}
+              placeholder={'slug,url,title,tags,published\nspring-sale,https://example.com/sale,Spring Sale,promo;email,true'}
+              className="font-mono text-xs min-h-[120px]"
+            />
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {preview.summary.create} to create, {preview.summary.overwrite} to overwrite,{' '}
+                {preview.summary.skip} skipped, {preview.summary.invalid} invalid
+                {preview.summary.renamed > 0 && ` (${preview.summary.renamed} renamed)`}
+              </p>
+              <div className="border rounded-lg overflow-auto max-h-72">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 sticky top-0">
+                    <tr>
+                      <th className="text-left font-medium px-3 py-2">Row</th>
+                      <th className="text-left font-medium px-3 py-2">Slug</th>
+                      <th className="text-left font-medium px-3 py-2">Action</th>
+                      <th className="text-left font-medium px-3 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map((row) => (
+                      <tr key={row.row} className="border-t align-top">
+                        <td className="px-3 py-2 text-muted-foreground">{row.row}</td>
+                        <td className="px-3 py-2 font-mono text-xs break-all">
+                          {row.slug || '—'}
+                          {row.finalSlug && row.finalSlug !== row.slug && (
+                            <span className="block text-muted-foreground">→ {row.finalSlug}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={cn(
+                            'px-2 py-0.5 text-xs rounded-full font-medium',
+                            row.action === 'create' && 'bg-green-100 text-green-800',
+                            row.action === 'overwrite' && 'bg-blue-100 text-blue-800',
+                            row.action === 'skip' && 'bg-gray-100 text-gray-800',
+                            row.action === 'invalid' && 'bg-red-100 text-red-800',
+                          )}>
+                            {ACTION_LABELS[row.action]}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-xs text-muted-foreground">
+                          {row.errors?.join('; ') || (row.conflict && CONFLICT_LABELS[row.conflict]) || row.url}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => exportLinks('csv')}>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="outline" onClick={() => exportLinks('json')}>
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => runImport(true)}
+              disabled={!content.trim() || importMutation.isPending}
+            >
+              Preview
+            </Button>
+            <Button
+              onClick={() => runImport(false)}
+              disabled={!preview || importable === 0 || importMutation.isPending}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {preview ? `Import ${importable} link${importable === 1 ? '' : 's'}` : 'Import'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
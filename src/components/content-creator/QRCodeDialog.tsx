@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImageSelector, MediaAsset } from '@/components/ui/image-selector';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface QRCodeDialogProps {
+  blockId: string;
+  slug: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface QRSettings {
+  size: number;
+  margin: number;
+  level: 'L' | 'M' | 'Q' | 'H';
+  fg: string;
+  bg: string;
+  logo: MediaAsset | null;
+}
+
+const DEFAULT_SETTINGS: QRSettings = {
+  size: 512,
+  margin: 4,
+  level: 'M',
+  fg: '#000000',
+  bg: '#ffffff',
+  logo: null,
+};
+
+/**
+ * QR CODE DIALOG
+ *
+ * Previews and downloads a QR code for a block's public URL. Scans are
+ * tracked as their own click source.
+ */
+export function QRCodeDialog({ blockId, slug, open, onOpenChange }: QRCodeDialogProps) {
+  const [settings, setSettings] = useState<QRSettings>(DEFAULT_SETTINGS);
+  const [previewQuery, setPreviewQuery] = useState('');
+  const [previewError, setPreviewError] = useState(false);
+
+  const buildQuery = (format: 'svg' | 'png', download = false) => {
+    const params = new URLSearchParams({
+      format,
+      size: String(settings.size),
+      margin: String(settings.margin),
+      level: settings.level,
+      fg: settings.fg,
+      bg: settings.bg,
+    });
+    if (settings.logo) params.set('logo', settings.logo.id);
+    if (download) params.set('download', '1');
+    return params.toString();
+  };
+
+  // Debounce preview requests while colours and sizes are being adjusted
+  useEffect(() => {
+    if (!open) return;
+    const timeoutId = setTimeout(() => {
+      setPreviewError(false);
+      setPreviewQuery(buildQuery('svg'));
+    }, 300);
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, settings]);
+
+  const updateSetting = <K extends keyof QRSettings>(key: K, value: QRSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const download = (format: 'svg' | 'png') => {
+    window.location.href = `/api/admin/blocks/${blockId}/qr?${buildQuery(format, true)}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>QR Code</DialogTitle>
+          <DialogDescription>
+            Scans of this code open /{slug} and are reported as QR traffic in analytics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="flex items-center justify-center rounded-lg border bg-muted/30 p-4 min-h-[240px]">
+            {previewError ? (
+              <p className="text-sm text-destructive text-center">Could not render the QR code with these settings.</p>
+            ) : previewQuery ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={`/api/admin/blocks/${blockId}/qr?${previewQuery}`}
+                alt={`QR code for /${slug}`}
+                className="w-full max-w-[240px] h-auto"
+                onError={() => setPreviewError(true)}
+              />
+            ) : (
+              <div className="w-full max-w-[240px] aspect-square bg-muted rounded animate-pulse"></div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="qrSize" className="block mb-2 text-sm font-medium">Size (px)</Label>
+                <Input
+                  id="qrSize"
+                  type="number"
+                  min={64}
+                  max={2048}
+                  step={64}
+                  value={settings.size}
+                  onChange={(e) => updateSetting('size', Math.min(2048, Math.max(64, parseInt(e.target.value) || 64)))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="qrMargin" className="block mb-2 text-sm font-medium">Margin</Label>
+                <Input
+                  id="qrMargin"
+                  type="number"
+                  min={0}
+                  max={16}
+                  value={settings.margin}
+                  onChange={(e) => updateSetting('margin', Math.min(16, Math.max(0, parseInt(e.target.value) || 0)))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label className="block mb-2 text-sm font-medium">Error Correction</Label>
+              <Select
+                value={settings.level}
+                onValueChange={(value) => updateSetting('level', value as QRSettings['level'])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="L">Low (7%)</SelectItem>
+                  <SelectItem value="M">Medium (15%)</SelectItem>
+                  <SelectItem value="Q">Quartile (25%)</SelectItem>
+                  <SelectItem value="H">High (30%)</SelectItem>
+                </SelectContent>
+              </Select>
+              {settings.logo && (settings.level === 'L' || settings.level === 'M') && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  High error correction is used automatically when a logo is added
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="qrFg" className="block mb-2 text-sm font-medium">Foreground</Label>
+                <Input
+                  id="qrFg"
+                  type="color"
+                  value={settings.fg}
+                  onChange={(e) => updateSetting('fg', e.target.value)}
+                  className="h-10 p-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="qrBg" className="block mb-2 text-sm font-medium">Background</Label>
+                <Input
+                  id="qrBg"
+                  type="color"
+                  value={settings.bg}
+                  onChange={(e) => updateSetting('bg', e.target.value)}
+                  className="h-10 p-1"
+                />
+              </div>
+            </div>
+
+            <ImageSelector
+              value={settings.logo}
+              onChange={(asset) => updateSetting('logo', asset)}
+              label="Logo (optional)"
+              helpText="Shown in the centre of the code"
+              aspectRatio={1}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => setSettings(DEFAULT_SETTINGS)}>
+            Reset
+          </Button>
+          <Button variant="outline" onClick={() => download('svg')}>
+            <Download className="w-4 h-4 mr-2" />
+            SVG
+          </Button>
+          <Button onClick={() => download('png')}>
+            <Download className="w-4 h-4 mr-2" />
+            PNG
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
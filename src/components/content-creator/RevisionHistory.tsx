@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, RotateCcw, GitCompare } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  useBlockRevisions,
+  useRevisionDiff,
+  useRestoreRevision,
+  BlockRevision,
+  RevisionChange,
+} from '@/lib/hooks/use-blocks';
+import { cn } from '@/lib/utils';
+
+interface RevisionHistoryProps {
+  blockId: string;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+const getAuthorLabel = (revision: BlockRevision): string => {
+  return revision.created_by_name || revision.created_by_email || 'Unknown editor';
+};
+
+/**
+ * REVISION HISTORY PANEL
+ *
+ * Lists saved revisions of a block, shows what changed compared to the
+ * current version and lets editors roll back.
+ */
+export function RevisionHistory({ blockId }: RevisionHistoryProps) {
+  const [compareRevision, setCompareRevision] = useState<BlockRevision | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<BlockRevision | null>(null);
+
+  const { data, isLoading } = useBlockRevisions(blockId);
+  const { data: diffData, isLoading: diffLoading } = useRevisionDiff(blockId, compareRevision?.id || null);
+  const restoreMutation = useRestoreRevision();
+
+  const revisions = data?.revisions || [];
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+
+    try {
+      await restoreMutation.mutateAsync({ blockId, revisionId: restoreTarget.id });
+      setRestoreTarget(null);
+      setCompareRevision(null);
+    } catch {
+      // Error toast is handled by the mutation
+    }
+  };
+
+  const renderChange = (change: RevisionChange) => (
+    <div key={change.path} className="border rounded-md p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-xs break-all">{change.path}</span>
+        <span className={cn(
+          'px-2 py-0.5 text-xs rounded-full font-medium flex-shrink-0',
+          change.type === 'added' && 'bg-green-100 text-green-800',
+          change.type === 'removed' && 'bg-red-100 text-red-800',
+          change.type === 'changed' && 'bg-blue-100 text-blue-800',
+        )}>
+          {change.type}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <pre className="text-xs bg-red-50 dark:bg-red-950/30 rounded p-2 whitespace-pre-wrap break-all max-h-40 overflow-auto">
+          {formatValue(change.before)}
+        </pre>
+        <pre className="text-xs bg-green-50 dark:bg-green-950/30 rounded p-2 whitespace-pre-wrap break-all max-h-40 overflow-auto">
+          {formatValue(change.after)}
+        </pre>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="border-0 shadow-sm bg-card/50 backdrop-blur">
+      <CardHeader className="pb-3 sm:pb-4 px-4 sm:px-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Revision History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 px-4 sm:px-6">
+        {isLoading ? (
+          <div className="animate-pulse space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No earlier versions yet. A revision is saved each time the content changes.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {revisions.map((revision) => (
+              <div key={revision.id} className="p-3 border rounded-lg bg-[var(--color-card-elevated)]">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{getAuthorLabel(revision)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCompareRevision(revision)}
+                      title="Compare with current version"
+                    >
+                      <GitCompare className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRestoreTarget(revision)}
+                      title="Restore this version"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Diff Dialog */}
+      <Dialog open={!!compareRevision} onOpenChange={(open) => !open && setCompareRevision(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Compare with current version</DialogTitle>
+            <DialogDescription>
+              {compareRevision && (
+                <>
+                  Changes from the version saved by {getAuthorLabel(compareRevision)}{' '}
+                  {formatDistanceToNow(new Date(compareRevision.created_at), { addSuffix: true })} (left)
+                  to the current version (right).
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {diffLoading ? (
+              <div className="h-24 bg-muted rounded animate-pulse"></div>
+            ) : diffData?.changes.length ? (
+              diffData.changes.map(renderChange)
+            ) : (
+              <p className="text-sm text-muted-foreground">This revision matches the current version.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCompareRevision(null)}>
+              Close
+            </Button>
+            <Button onClick={() => compareRevision && setRestoreTarget(compareRevision)}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Restore this version
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Restore Confirmation Dialog */}
+      <Dialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore Revision</DialogTitle>
+            <DialogDescription>
+              The current content will be replaced with this version. The current
+              version is kept in the history, so this can be undone. Unsaved edits will be lost.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRestoreTarget(null)}
+              disabled={restoreMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleRestore} disabled={restoreMutation.isPending}>
+              {restoreMutation.isPending ? 'Restoring...' : 'Restore'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
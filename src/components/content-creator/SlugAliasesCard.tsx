@@ -0,0 +1,88 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { Link2, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  useSlugAliases,
+  useDeleteSlugAlias,
+  usePruneSlugAliases,
+} from '@/lib/hooks/use-blocks';
+
+interface SlugAliasesCardProps {
+  blockId: string;
+}
+
+// Aliases not visited for this long are offered for cleanup
+const UNUSED_AFTER_DAYS = 90;
+
+/**
+ * PREVIOUS URLS PANEL
+ *
+ * Old slugs of a renamed block keep redirecting to its current URL. Editors
+ * can see how often they are still used and release them.
+ */
+export function SlugAliasesCard({ blockId }: SlugAliasesCardProps) {
+  const { data, isLoading } = useSlugAliases(blockId);
+  const deleteMutation = useDeleteSlugAlias();
+  const pruneMutation = usePruneSlugAliases();
+
+  const aliases = data?.aliases || [];
+
+  if (isLoading || aliases.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-0 shadow-sm bg-card/50 backdrop-blur">
+      <CardHeader className="pb-3 sm:pb-4 px-4 sm:px-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Link2 className="w-4 h-4" />
+          Previous URLs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 px-4 sm:px-6">
+        <p className="text-sm text-muted-foreground">
+          These slugs permanently redirect here. Removing one frees it for other content.
+        </p>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {aliases.map((alias) => (
+            <div key={alias.id} className="p-3 border rounded-lg bg-[var(--color-card-elevated)]">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-mono truncate">/{alias.slug}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {alias.hit_count.toLocaleString()} {alias.hit_count === 1 ? 'visit' : 'visits'}
+                    {alias.last_hit_at
+                      ? `, last ${formatDistanceToNow(new Date(alias.last_hit_at), { addSuffix: true })}`
+                      : ''}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate({ id: alias.id, blockId })}
+                  disabled={deleteMutation.isPending}
+                  title="Remove previous URL"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => pruneMutation.mutate({ blockId, unusedForDays: UNUSED_AFTER_DAYS })}
+          disabled={pruneMutation.isPending}
+        >
+          Remove unused for {UNUSED_AFTER_DAYS} days
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
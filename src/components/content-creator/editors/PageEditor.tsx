@@ -83,7 +83,7 @@ export const PageEditor: React.FC<PageEditorProps> = ({ block, onChange }) => {
 
   const loadAvailableBlocks = useCallback(async () => {
     try {
-      const response = await fetch('/api/blocks?published=true&limit=100');
+      const response = await fetch('/api/admin/blocks?published=true&limit=100');
       if (response.ok) {
         const data = await response.json();
         setAvailableBlocks(data.blocks || []);
@@ -10,12 +10,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ImageSelector, MediaAsset } from '@/components/ui/image-selector';
 import { IconPicker } from '@/components/IconPicker';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, Info } from 'lucide-react';
-import { ContentBlock } from '@/lib/db/schema';
+import { ChevronDown, Clock, FlaskConical, Info, Split, Tags } from 'lucide-react';
+import { ContentBlock, RedirectRule, RedirectUtmParams, RedirectVariant } from '@/lib/db/schema';
+import { RedirectRulesEditor } from './RedirectRulesEditor';
+import { RedirectVariantsEditor } from './RedirectVariantsEditor';
+import { RedirectUtmEditor } from './RedirectUtmEditor';
 
 interface RedirectEditorProps {
   block: ContentBlock;
   onChange: (updates: Partial<ContentBlock>) => void;
+  showVariantResults?: boolean; // Only saved blocks have A/B results to show
 }
 
 interface RedirectData {
@@ -27,14 +31,43 @@ interface RedirectData {
   cardImage?: MediaAsset;
   icon?: string;
   buttonLabel?: string;
+  // Availability options
+  activate_at?: string | null;
+  expires_at?: string | null;
+  max_clicks?: number | null;
+  fallback_url?: string | null;
+  // Conditional routing
+  rules?: RedirectRule[];
+  variants?: RedirectVariant[];
+  // Query parameters
+  utm?: RedirectUtmParams;
+  query_passthrough?: boolean;
+  query_precedence?: 'link' | 'incoming';
 }
 
-export const RedirectEditor: React.FC<RedirectEditorProps> = ({ block, onChange }) => {
+// Convert an ISO timestamp to the local value a datetime-local input expects
+const toLocalInputValue = (iso?: string | null): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const fromLocalInputValue = (value: string): string | null => {
+  return value ? new Date(value).toISOString() : null;
+};
+
+export const RedirectEditor: React.FC<RedirectEditorProps> = ({ block, onChange, showVariantResults = false }) => {
   const [showDisplayOptions, setShowDisplayOptions] = useState(true);
+  const [showAvailability, setShowAvailability] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [showVariants, setShowVariants] = useState(false);
+  const [showUtm, setShowUtm] = useState(false);
   
   const data = block.data as unknown as RedirectData;
 
-  const updateData = (key: keyof RedirectData, value: string | number | MediaAsset | null) => {
+  const updateData = (key: keyof RedirectData, value: string | number | boolean | MediaAsset | RedirectRule[] | RedirectVariant[] | RedirectUtmParams | null | undefined) => {
     const newData = { ...block.data, [key]: value };
     const newMetadata = { ...block.metadata };
 
@@ -111,6 +144,194 @@ export const RedirectEditor: React.FC<RedirectEditorProps> = ({ block, onChange
         </CardContent>
       </Card>
 
+      {/* UTM & Query Parameters */}
+      <Collapsible open={showUtm} onOpenChange={setShowUtm}>
+        <Card className="bg-card-elevated">
+          <CollapsibleTrigger asChild>
+            <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors px-4 sm:px-6 py-3 sm:py-4">
+              <CardTitle className="flex items-center justify-between text-base sm:text-lg">
+                <div className="flex items-center gap-2">
+                  UTM & Query Parameters
+                  <Tags className="w-4 h-4 text-muted-foreground" />
+                </div>
+                <ChevronDown className={`w-4 h-4 transition-transform flex-shrink-0 ${showUtm ? 'rotate-180' : ''}`} />
+              </CardTitle>
+              <p className="text-sm text-muted-foreground text-left pr-6">
+                Tag the destination with campaign parameters and forward the visitor&apos;s query string
+              </p>
+            </CardHeader>
+          </CollapsibleTrigger>
+
+          <CollapsibleContent>
+            <CardContent className="pt-0 px-4 sm:px-6 pb-4 sm:pb-6">
+              <RedirectUtmEditor
+                url={data.url || ''}
+                settings={{
+                  utm: data.utm,
+                  query_passthrough: data.query_passthrough,
+                  query_precedence: data.query_precedence,
+                }}
+                onChange={(key, value) => updateData(key, value)}
+              />
+            </CardContent>
+          </CollapsibleContent>
+        </Card>
+      </Collapsible>
+
+      {/* Conditional Routing */}
+      <Collapsible open={showRules} onOpenChange={setShowRules}>
+        <Card className="bg-card-elevated">
+          <CollapsibleTrigger asChild>
+            <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors px-4 sm:px-6 py-3 sm:py-4">
+              <CardTitle className="flex items-center justify-between text-base sm:text-lg">
+                <div className="flex items-center gap-2">
+                  Smart Routing
+                  <Split className="w-4 h-4 text-muted-foreground" />
+                  {!!data.rules?.length && (
+                    <span className="text-xs font-normal text-muted-foreground">
+                      ({data.rules.length} {data.rules.length === 1 ? 'rule' : 'rules'})
+                    </span>
+                  )}
+                </div>
+                <ChevronDown className={`w-4 h-4 transition-transform flex-shrink-0 ${showRules ? 'rotate-180' : ''}`} />
+              </CardTitle>
+              <p className="text-sm text-muted-foreground text-left pr-6">
+                Send visitors elsewhere based on their device, country or language. The first matching rule wins.
+              </p>
+            </CardHeader>
+          </CollapsibleTrigger>
+
+          <CollapsibleContent>
+            <CardContent className="pt-0 px-4 sm:px-6 pb-4 sm:pb-6">
+              <RedirectRulesEditor
+                rules={data.rules || []}
+                onChange={(rules) => updateData('rules', rules)}
+              />
+            </CardContent>
+          </CollapsibleContent>
+        </Card>
+      </Collapsible>
+
+      {/* A/B Testing */}
+      <Collapsible open={showVariants} onOpenChange={setShowVariants}>
+        <Card className="bg-card-elevated">
+          <CollapsibleTrigger asChild>
+            <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors px-4 sm:px-6 py-3 sm:py-4">
+              <CardTitle className="flex items-center justify-between text-base sm:text-lg">
+                <div className="flex items-center gap-2">
+                  A/B Test
+                  <FlaskConical className="w-4 h-4 text-muted-foreground" />
+                  {!!data.variants?.length && (
+                    <span className="text-xs font-normal text-muted-foreground">
+                      ({data.variants.length} variants)
+                    </span>
+                  )}
+                </div>
+                <ChevronDown className={`w-4 h-4 transition-transform flex-shrink-0 ${showVariants ? 'rotate-180' : ''}`} />
+              </CardTitle>
+              <p className="text-sm text-muted-foreground text-left pr-6">
+                Split visitors between several destinations by percentage. Smart routing rules take priority.
+              </p>
+            </CardHeader>
+          </CollapsibleTrigger>
+
+          <CollapsibleContent>
+            <CardContent className="pt-0 px-4 sm:px-6 pb-4 sm:pb-6">
+              <RedirectVariantsEditor
+                blockId={showVariantResults ? block.id : undefined}
+                variants={data.variants || []}
+                onChange={(variants) => updateData('variants', variants)}
+              />
+            </CardContent>
+          </CollapsibleContent>
+        </Card>
+      </Collapsible>
+
+      {/* Availability Options */}
+      <Collapsible open={showAvailability} onOpenChange={setShowAvailability}>
+        <Card className="bg-card-elevated">
+          <CollapsibleTrigger asChild>
+            <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors px-4 sm:px-6 py-3 sm:py-4">
+              <CardTitle className="flex items-center justify-between text-base sm:text-lg">
+                <div className="flex items-center gap-2">
+                  Schedule & Limits
+                  <Clock className="w-4 h-4 text-muted-foreground" />
+                </div>
+                <ChevronDown className={`w-4 h-4 transition-transform flex-shrink-0 ${showAvailability ? 'rotate-180' : ''}`} />
+              </CardTitle>
+              <p className="text-sm text-muted-foreground text-left pr-6">
+                Activate the link later, expire it automatically or cap the number of clicks
+              </p>
+            </CardHeader>
+          </CollapsibleTrigger>
+
+          <CollapsibleContent>
+            <CardContent className="space-y-4 pt-0 px-4 sm:px-6 pb-4 sm:pb-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="activateAt" className="block mb-2 text-sm font-medium">Activate At</Label>
+                  <Input
+                    id="activateAt"
+                    type="datetime-local"
+                    value={toLocalInputValue(data.activate_at)}
+                    onChange={(e) => updateData('activate_at', fromLocalInputValue(e.target.value))}
+                    className="bg-input-contrast h-11 text-base"
+                  />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Leave empty to activate immediately
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor="expiresAt" className="block mb-2 text-sm font-medium">Expires At</Label>
+                  <Input
+                    id="expiresAt"
+                    type="datetime-local"
+                    value={toLocalInputValue(data.expires_at)}
+                    onChange={(e) => updateData('expires_at', fromLocalInputValue(e.target.value))}
+                    className="bg-input-contrast h-11 text-base"
+                  />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Leave empty to never expire
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="maxClicks" className="block mb-2 text-sm font-medium">Click Limit</Label>
+                <Input
+                  id="maxClicks"
+                  type="number"
+                  min={1}
+                  value={data.max_clicks ?? ''}
+                  onChange={(e) => updateData('max_clicks', e.target.value ? parseInt(e.target.value) : null)}
+                  placeholder="Unlimited"
+                  className="bg-input-contrast h-11 text-base"
+                />
+                <p className="text-xs text-muted-foreground mt-2">
+                  The link stops redirecting after this many clicks
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="fallbackUrl" className="block mb-2 text-sm font-medium">Fallback URL</Label>
+                <Input
+                  id="fallbackUrl"
+                  type="url"
+                  value={data.fallback_url || ''}
+                  onChange={(e) => updateData('fallback_url', e.target.value || null)}
+                  placeholder="https://example.com/campaign-ended"
+                  className="bg-input-contrast h-11 text-base"
+                />
+                <p className="text-xs text-muted-foreground mt-2">
+                  Where visitors go when the link is not active. Leave empty to show a &quot;link expired&quot; page.
+                </p>
+              </div>
+            </CardContent>
+          </CollapsibleContent>
+        </Card>
+      </Collapsible>
+
       {/* Card Display Options */}
       <Collapsible open={showDisplayOptions} onOpenChange={setShowDisplayOptions}>
         <Card className="bg-card-elevated">
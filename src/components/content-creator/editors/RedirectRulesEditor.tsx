@@ -0,0 +1,204 @@
+'use client';
+
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { RedirectRule, RedirectRuleDevice, RedirectRuleType } from '@/lib/db/schema';
+import { cn } from '@/lib/utils';
+
+interface RedirectRulesEditorProps {
+  rules: RedirectRule[];
+  onChange: (rules: RedirectRule[]) => void;
+}
+
+const DEVICE_OPTIONS: { value: RedirectRuleDevice; label: string }[] = [
+  { value: 'ios', label: 'iOS' },
+  { value: 'android', label: 'Android' },
+  { value: 'mobile', label: 'Any mobile' },
+  { value: 'desktop', label: 'Desktop' },
+];
+
+const VALUE_PLACEHOLDERS: Record<Exclude<RedirectRuleType, 'device'>, string> = {
+  country: 'DE, AT, CH',
+  language: 'fr, pt-br',
+};
+
+const VALUE_HINTS: Record<Exclude<RedirectRuleType, 'device'>, string> = {
+  country: 'Two-letter country codes, separated by commas',
+  language: 'Matches browser languages starting with any of these',
+};
+
+const createRule = (): RedirectRule => ({
+  id: crypto.randomUUID(),
+  type: 'device',
+  values: ['ios'],
+  url: '',
+});
+
+/**
+ * REDIRECT RULES EDITOR
+ *
+ * Ordered list of device, country and language rules. The first rule that
+ * matches a visitor decides the destination; otherwise the default URL is used.
+ */
+export function RedirectRulesEditor({ rules, onChange }: RedirectRulesEditorProps) {
+  const updateRule = (index: number, updates: Partial<RedirectRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  const toggleDevice = (index: number, device: RedirectRuleDevice) => {
+    const values = rules[index].values;
+    updateRule(index, {
+      values: values.includes(device)
+        ? values.filter((value) => value !== device)
+        : [...values, device],
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No rules yet. Everyone is sent to the destination URL.
+        </p>
+      )}
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="border rounded-lg p-3 sm:p-4 space-y-3 bg-[var(--color-card-elevated)]">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-medium text-muted-foreground">Rule {index + 1}</span>
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveRule(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveRule(index, 1)}
+                disabled={index === rules.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeRule(index)}
+                title="Remove rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <Label className="block mb-2 text-sm font-medium">When</Label>
+              <Select
+                value={rule.type}
+                onValueChange={(value) => updateRule(index, {
+                  type: value as RedirectRuleType,
+                  values: value === 'device' ? ['ios'] : [],
+                })}
+              >
+                <SelectTrigger className="bg-input-contrast h-11">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="device">Device is</SelectItem>
+                  <SelectItem value="country">Country is</SelectItem>
+                  <SelectItem value="language">Language starts with</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="sm:col-span-2">
+              <Label className="block mb-2 text-sm font-medium">
+                {rule.type === 'device' ? 'Devices' : 'Values'}
+              </Label>
+              {rule.type === 'device' ? (
+                <div className="flex flex-wrap gap-2">
+                  {DEVICE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => toggleDevice(index, option.value)}
+                      className={cn(
+                        'px-3 py-2 text-sm rounded-md border transition-colors',
+                        rule.values.includes(option.value)
+                          ? 'bg-primary text-primary-foreground border-primary'
+                          : 'bg-input-contrast hover:bg-muted'
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <Input
+                    value={rule.values.join(',')}
+                    onChange={(e) => updateRule(index, { values: e.target.value.split(',') })}
+                    placeholder={VALUE_PLACEHOLDERS[rule.type]}
+                    className="bg-input-contrast h-11 text-base"
+                  />
+                  <p className="text-xs text-muted-foreground mt-2">{VALUE_HINTS[rule.type]}</p>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <Label className="block mb-2 text-sm font-medium">Send to</Label>
+            <Input
+              type="url"
+              value={rule.url}
+              onChange={(e) => updateRule(index, { url: e.target.value })}
+              placeholder="https://apps.apple.com/..."
+              className="bg-input-contrast h-11 text-base"
+            />
+          </div>
+
+          <div>
+            <Label className="block mb-2 text-sm font-medium">Label (optional)</Label>
+            <Input
+              value={rule.label || ''}
+              onChange={(e) => updateRule(index, { label: e.target.value })}
+              placeholder="App Store"
+              className="bg-input-contrast h-11 text-base"
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" onClick={() => onChange([...rules, createRule()])} className="w-full">
+        <Plus className="w-4 h-4 mr-2" />
+        Add Rule
+      </Button>
+    </div>
+  );
+}
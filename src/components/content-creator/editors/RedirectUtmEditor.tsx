@@ -0,0 +1,120 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { RedirectUtmParams } from '@/lib/db/schema';
+import { buildDestinationUrl } from '@/lib/renderers';
+
+export interface RedirectQuerySettings {
+  utm?: RedirectUtmParams;
+  query_passthrough?: boolean;
+  query_precedence?: 'link' | 'incoming';
+}
+
+interface RedirectUtmEditorProps {
+  url: string;
+  settings: RedirectQuerySettings;
+  onChange: <K extends keyof RedirectQuerySettings>(key: K, value: RedirectQuerySettings[K]) => void;
+}
+
+const UTM_FIELDS: { key: keyof RedirectUtmParams; label: string; placeholder: string }[] = [
+  { key: 'source', label: 'Source', placeholder: 'newsletter' },
+  { key: 'medium', label: 'Medium', placeholder: 'email' },
+  { key: 'campaign', label: 'Campaign', placeholder: 'spring_sale' },
+  { key: 'term', label: 'Term', placeholder: 'running+shoes' },
+  { key: 'content', label: 'Content', placeholder: 'header_button' },
+];
+
+// Example visitor query used to preview passthrough
+const SAMPLE_QUERY = new URLSearchParams({ utm_source: 'twitter', ref: 'friend' });
+
+/**
+ * UTM BUILDER
+ *
+ * Default UTM parameters for a redirect plus the option to forward the
+ * visitor's own query string to the destination.
+ */
+export function RedirectUtmEditor({ url, settings, onChange }: RedirectUtmEditorProps) {
+  const utm = settings.utm || {};
+  const precedence = settings.query_precedence || 'link';
+
+  const updateUtm = (key: keyof RedirectUtmParams, value: string) => {
+    onChange('utm', { ...utm, [key]: value });
+  };
+
+  const previewUrl = url
+    ? buildDestinationUrl(url, { ...settings }, settings.query_passthrough ? SAMPLE_QUERY : undefined)
+    : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {UTM_FIELDS.map((field) => (
+          <div key={field.key}>
+            <Label htmlFor={`utm-${field.key}`} className="block mb-2 text-sm font-medium">
+              {field.label} <span className="font-mono text-xs text-muted-foreground">utm_{field.key}</span>
+            </Label>
+            <Input
+              id={`utm-${field.key}`}
+              value={utm[field.key] || ''}
+              onChange={(e) => updateUtm(field.key, e.target.value)}
+              placeholder={field.placeholder}
+              className="bg-input-contrast h-11 text-base"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label htmlFor="queryPassthrough" className="text-sm font-medium">
+            Forward visitor query parameters
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Parameters on the short link (e.g. ?ref=friend) are added to the destination
+          </p>
+        </div>
+        <Switch
+          id="queryPassthrough"
+          checked={settings.query_passthrough || false}
+          onCheckedChange={(checked) => onChange('query_passthrough', checked)}
+        />
+      </div>
+
+      {settings.query_passthrough && (
+        <div>
+          <Label className="block mb-2 text-sm font-medium">When a parameter is set on both</Label>
+          <Select
+            value={precedence}
+            onValueChange={(value) => onChange('query_precedence', value as 'link' | 'incoming')}
+          >
+            <SelectTrigger className="bg-input-contrast h-11">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="link">Keep this link&apos;s value</SelectItem>
+              <SelectItem value="incoming">Use the visitor&apos;s value</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-2">
+            Applies to UTM defaults above and to parameters already in the destination URL
+          </p>
+        </div>
+      )}
+
+      {previewUrl && (
+        <div>
+          <Label className="block mb-2 text-sm font-medium">Preview</Label>
+          <p className="font-mono text-xs break-all bg-muted/50 rounded p-3">{previewUrl}</p>
+          {settings.query_passthrough && (
+            <p className="text-xs text-muted-foreground mt-2">
+              For a visitor arriving with ?{SAMPLE_QUERY.toString()}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { RedirectVariant } from '@/lib/db/schema';
+import { useVariantReport } from '@/lib/hooks/use-blocks';
+import { cn } from '@/lib/utils';
+
+interface RedirectVariantsEditorProps {
+  blockId?: string;
+  variants: RedirectVariant[];
+  onChange: (variants: RedirectVariant[]) => void;
+}
+
+const getVariantName = (variant: RedirectVariant, index: number): string => {
+  return variant.label || `Variant ${String.fromCharCode(65 + index)}`;
+};
+
+// Split 100% as evenly as possible across the given number of variants
+const evenWeights = (total: number): number[] => {
+  const base = Math.floor(100 / total);
+  return Array.from({ length: total }, (_, i) => base + (i < 100 - base * total ? 1 : 0));
+};
+
+/**
+ * A/B VARIANTS EDITOR
+ *
+ * Weighted destinations for split-testing landing pages. Visitors keep
+ * seeing the same variant, and clicks per variant are reported below.
+ */
+export function RedirectVariantsEditor({ blockId, variants, onChange }: RedirectVariantsEditorProps) {
+  const { data: reportData } = useVariantReport(blockId || '', !!blockId && variants.length > 0);
+
+  const totalWeight = variants.reduce((sum, variant) => sum + (Number(variant.weight) || 0), 0);
+  const report = reportData?.variants || [];
+
+  const updateVariant = (index: number, updates: Partial<RedirectVariant>) => {
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...updates } : variant)));
+  };
+
+  const rebalance = (next: RedirectVariant[]) => {
+    const weights = evenWeights(next.length);
+    return next.map((variant, i) => ({ ...variant, weight: weights[i] }));
+  };
+
+  const addVariant = () => {
+    // Starting a test needs two destinations
+    const additions = variants.length === 0 ? 2 : 1;
+    const next = [
+      ...variants,
+      ...Array.from({ length: additions }, () => ({ id: crypto.randomUUID(), url: '', weight: 0 })),
+    ];
+    onChange(rebalance(next));
+  };
+
+  const removeVariant = (index: number) => {
+    const next = variants.filter((_, i) => i !== index);
+    // A single variant is not a test, so drop it back to the destination URL
+    onChange(next.length < 2 ? [] : rebalance(next));
+  };
+
+  return (
+    <div className="space-y-3">
+      {variants.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No test running. Add variants to split traffic between several destination URLs.
+        </p>
+      )}
+
+      {variants.map((variant, index) => (
+        <div key={variant.id} className="border rounded-lg p-3 sm:p-4 space-y-3 bg-[var(--color-card-elevated)]">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-medium text-muted-foreground">{getVariantName(variant, index)}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeVariant(index)}
+              title="Remove variant"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <div className="sm:col-span-3">
+              <Label className="block mb-2 text-sm font-medium">Destination URL</Label>
+              <Input
+                type="url"
+                value={variant.url}
+                onChange={(e) => updateVariant(index, { url: e.target.value })}
+                placeholder="https://example.com/landing-a"
+                className="bg-input-contrast h-11 text-base"
+              />
+            </div>
+            <div>
+              <Label className="block mb-2 text-sm font-medium">Weight (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={variant.weight}
+                onChange={(e) => updateVariant(index, { weight: parseInt(e.target.value) || 0 })}
+                className="bg-input-contrast h-11 text-base"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label className="block mb-2 text-sm font-medium">Label (optional)</Label>
+            <Input
+              value={variant.label || ''}
+              onChange={(e) => updateVariant(index, { label: e.target.value })}
+              placeholder="New pricing page"
+              className="bg-input-contrast h-11 text-base"
+            />
+          </div>
+        </div>
+      ))}
+
+      {variants.length > 0 && (
+        <p className={cn(
+          'text-xs',
+          totalWeight === 100 ? 'text-muted-foreground' : 'text-destructive'
+        )}>
+          Weights total {totalWeight}%{totalWeight !== 100 && ' - they must add up to 100% before saving'}
+        </p>
+      )}
+
+      <Button type="button" variant="outline" onClick={addVariant} className="w-full">
+        <Plus className="w-4 h-4 mr-2" />
+        {variants.length === 0 ? 'Start A/B Test' : 'Add Variant'}
+      </Button>
+
+      {report.length > 0 && (
+        <div className="pt-2">
+          <Label className="block mb-2 text-sm font-medium">Results</Label>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">Variant</th>
+                  <th className="text-right font-medium px-3 py-2">Weight</th>
+                  <th className="text-right font-medium px-3 py-2">Clicks</th>
+                  <th className="text-right font-medium px-3 py-2">Unique</th>
+                  <th className="text-right font-medium px-3 py-2">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((row) => (
+                  <tr key={row.variantId} className="border-t">
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{row.label}</div>
+                      {row.url && (
+                        <div className="text-xs text-muted-foreground truncate max-w-[220px]">{row.url}</div>
+                      )}
+                    </td>
+                    <td className="text-right px-3 py-2">{row.weight}%</td>
+                    <td className="text-right px-3 py-2">{row.clicks.toLocaleString()}</td>
+                    <td className="text-right px-3 py-2">{row.uniqueVisitors.toLocaleString()}</td>
+                    <td className="text-right px-3 py-2">{row.share}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+// Runs once when the server starts (Next.js instrumentation hook)
+export async function register() {
+  // Background jobs need Node.js and a database connection, not the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Minutes between click rollup passes; 0 when they run elsewhere (npm run db:rollup-clicks from cron)
+  // Passes use their own database connection and commit one hour at a time
+  const rollupInterval = Number(process.env.CLICK_ROLLUP_INTERVAL_MINUTES ?? 5);
+  if (rollupInterval > 0) {
+    const { ClickRollupService } = await import('@/lib/services/click-rollup-service');
+    ClickRollupService.startAggregator(rollupInterval * 60 * 1000);
+  }
+}
@@ -0,0 +1,218 @@
+import { and, eq, gte, lt, min, sql, type SQL } from 'drizzle-orm';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
+import type { PostgresJsQueryResultHKT } from 'drizzle-orm/postgres-js';
+import * as schema from '../db/schema';
+import { clickRollupsDaily, clickRollupsHourly, clickRollupState, clicks } from '../db/schema';
+
+/**
+ * CLICK ROLLUPS
+ *
+ * Pre-aggregated click counts so dashboards do not scan the raw clicks
+ * table. Each completed hour is rolled up per block and bot flag into
+ * totals and breakdowns by country, referrer domain and device type, with
+ * the number of distinct visitors; complete UTC days get the same rows in
+ * the daily table, counted from the raw clicks so daily uniques are exact.
+ * Progress is kept in click_rollup_state, so each pass only handles the
+ * hours that finished since the last one. Functions take the database to
+ * use so scripts can run them on their own connection.
+ */
+
+export type RollupDatabase = PgDatabase<PostgresJsQueryResultHKT, typeof schema>;
+
+export const ROLLUP_DIMENSIONS = ['total', 'country', 'referrer', 'device'] as const;
+export type RollupDimension = typeof ROLLUP_DIMENSIONS[number];
+
+export type RollupGranularity = 'hour' | 'day';
+
+export const ROLLUP_TABLES = {
+  hour: clickRollupsHourly,
+  day: clickRollupsDaily,
+};
+
+const STATE_ID = 'clicks';
+
+// Serializes passes across replicas; the key is arbitrary but must stay stable
+const LOCK_KEY = sql`hashtext('click_rollups')`;
+
+// Hours rolled up per transaction, so catching up on a large table commits as it goes
+// and no transaction holds its connection and the lock for long
+const HOURS_PER_TRANSACTION = 1;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// An hour is only rolled up this long after it ended, so clicks still being written make it in
+const SETTLE_MS = 60 * 1000;
+
+// Host of the referrer without "www.", or '' for direct traffic
+const referrerDomain = sql`left(COALESCE(lower(regexp_replace(substring(${clicks.referrer} from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^@/?#]*@)?([^:/?#]+)'), '^www\\.', '')), ''), 255)`;
+
+// Value of each dimension for a raw click, matching what the rollups store
+export const DIMENSION_VALUES: Record<RollupDimension, SQL<string>> = {
+  total: sql<string>`''`,
+  country: sql<string>`COALESCE(${clicks.country}, '')`,
+  referrer: sql<string>`${referrerDomain}`,
+  device: sql<string>`COALESCE(${clicks.device_type}, '')`,
+};
+
+// Click types that record access to a link rather than a visit: password
+// prompts, unlock attempts and links that were not available
+export const ACCESS_EVENT_TYPES = ['locked', 'unlock', 'unlock_failed', 'unavailable'] as const;
+
+// Condition for clicks that count as visits in analytics and rollups
+export const isVisitClick: SQL = sql`COALESCE(${clicks.metadata}->>'type', '') NOT IN (${sql.join(ACCESS_EVENT_TYPES.map((type) => sql`${type}`), sql`, `)})`;
+
+export function floorHour(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+}
+
+export function ceilHour(date: Date): Date {
+  return new Date(Math.ceil(date.getTime() / HOUR_MS) * HOUR_MS);
+}
+
+export function floorDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+export function ceilDay(date: Date): Date {
+  return new Date(Math.ceil(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Start of the first hour that is not rolled up yet, or null before the first pass
+ */
+export async function getRolledUpTo(database: RollupDatabase): Promise<Date | null> {
+  const [state] = await database
+    .select({ rolledUpTo: clickRollupState.rolled_up_to })
+    .from(clickRollupState)
+    .where(eq(clickRollupState.id, STATE_ID))
+    .limit(1);
+
+  return state?.rolledUpTo || null;
+}
+
+/**
+ * Roll up every hour that has ended since the last pass; returns the number of hours
+ * Does nothing while another process holds the rollup lock.
+ */
+export async function rollUpPendingClicks(database: RollupDatabase, now: Date = new Date()): Promise<number> {
+  const currentHour = floorHour(new Date(now.getTime() - SETTLE_MS));
+  let total = 0;
+
+  while (true) {
+    const hours = await database.transaction(async (tx) => {
+      const [{ locked }] = await tx.execute<{ locked: boolean }>(sql`SELECT pg_try_advisory_xact_lock(${LOCK_KEY}) AS locked`);
+      if (!locked) {
+        return 0;
+      }
+
+      const rolledUpTo = await getRolledUpTo(tx);
+      let from = rolledUpTo;
+      if (!from) {
+        // First pass: start at the oldest click
+        const [oldest] = await tx.select({ timestamp: min(clicks.timestamp) }).from(clicks);
+        from = oldest?.timestamp ? floorHour(oldest.timestamp) : currentHour;
+      }
+
+      const to = new Date(Math.min(from.getTime() + HOURS_PER_TRANSACTION * HOUR_MS, currentHour.getTime()));
+      if (to <= from) {
+        if (!rolledUpTo) {
+          await saveRolledUpTo(tx, from);
+        }
+        return 0;
+      }
+
+      await rollUp(tx, 'hour', from, to);
+
+      // The day that ended with this hour
+      if (floorDay(to) > floorDay(from)) {
+        await rollUp(tx, 'day', floorDay(from), floorDay(to));
+      }
+
+      await saveRolledUpTo(tx, to);
+      return (to.getTime() - from.getTime()) / HOUR_MS;
+    });
+
+    total += hours;
+    if (hours === 0) {
+      return total;
+    }
+  }
+}
+
+/**
+ * Recompute rollups from `from` (default: all history), e.g. after backfilling
+ * clicks or re-parsing user agents; returns the number of hours rolled up
+ */
+export async function rebuildClickRollups(database: RollupDatabase, from?: Date, now: Date = new Date()): Promise<number> {
+  await database.transaction(async (tx) => {
+    // Waits for a running pass instead of skipping
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${LOCK_KEY})`);
+
+    if (!from) {
+      await tx.delete(clickRollupsHourly);
+      await tx.delete(clickRollupsDaily);
+      await tx.delete(clickRollupState).where(eq(clickRollupState.id, STATE_ID));
+      return;
+    }
+
+    // Day-aligned so the first day's daily rows are recomputed as well
+    const start = floorDay(from);
+    await tx.delete(clickRollupsHourly).where(gte(clickRollupsHourly.bucket, start));
+    await tx.delete(clickRollupsDaily).where(gte(clickRollupsDaily.bucket, start));
+
+    const rolledUpTo = await getRolledUpTo(tx);
+    if (rolledUpTo && rolledUpTo > start) {
+      await saveRolledUpTo(tx, start);
+    }
+  });
+
+  return rollUpPendingClicks(database, now);
+}
+
+// Replace the rollup rows of [from, to) with fresh counts from the raw clicks
+async function rollUp(database: RollupDatabase, granularity: RollupGranularity, from: Date, to: Date): Promise<void> {
+  const table = ROLLUP_TABLES[granularity];
+  await database.delete(table).where(and(gte(table.bucket, from), lt(table.bucket, to)));
+
+  // One scan for all dimensions: each grouping set yields the rows of one dimension
+  await database.execute(sql`
+    INSERT INTO ${table} (bucket, block_id, is_bot, dimension, value, clicks, uniques)
+    SELECT
+      bucket,
+      block_id,
+      is_bot,
+      CASE
+        WHEN GROUPING(country) = 0 THEN 'country'
+        WHEN GROUPING(referrer) = 0 THEN 'referrer'
+        WHEN GROUPING(device) = 0 THEN 'device'
+        ELSE 'total'
+      END,
+      COALESCE(country, referrer, device, ''),
+      count(*)::int,
+      count(DISTINCT visitor)::int
+    FROM (
+      SELECT
+        date_trunc(${granularity}, ${clicks.timestamp}) AS bucket,
+        ${clicks.block_id} AS block_id,
+        ${clicks.is_bot} AS is_bot,
+        ${DIMENSION_VALUES.country} AS country,
+        ${DIMENSION_VALUES.referrer} AS referrer,
+        ${DIMENSION_VALUES.device} AS device,
+        COALESCE(${clicks.visitor_hash}, ${clicks.ip_address}) AS visitor
+      FROM ${clicks}
+      WHERE ${and(gte(clicks.timestamp, from), lt(clicks.timestamp, to), isVisitClick)}
+    ) AS rolled
+    GROUP BY bucket, block_id, is_bot, GROUPING SETS ((), (country), (referrer), (device))
+  `);
+}
+
+async function saveRolledUpTo(database: RollupDatabase, rolledUpTo: Date): Promise<void> {
+  await database
+    .insert(clickRollupState)
+    .values({ id: STATE_ID, rolled_up_to: rolledUpTo, updated_at: new Date() })
+    .onConflictDoUpdate({
+      target: clickRollupState.id,
+      set: { rolled_up_to: rolledUpTo, updated_at: new Date() },
+    });
+}
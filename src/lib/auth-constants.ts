@@ -1,4 +1,13 @@
 // Auth constants that can be used in Edge Runtime
 export const SESSION_COOKIE_NAME = 'gremlinlink_session';
 export const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
-export const MAGIC_LINK_EXPIRY = 60 * 15; // 15 minutes 
\ No newline at end of file
+export const MAGIC_LINK_EXPIRY = 60 * 15; // 15 minutes 
+export const ACCESS_COOKIE_MAX_AGE = 60 * 60 * 24; // 24 hours for unlocked password-protected links
+export const VISITOR_COOKIE_NAME = 'gremlinlink_visitor'; // Anonymous ID for sticky A/B assignment
+export const VISITOR_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days, only set for links with variants
+export const API_TOKEN_PREFIX = 'glk_'; // Makes tokens recognisable in scripts and secret scanners
+export const API_TOKEN_SCOPES = ['links:read', 'links:write', 'analytics:read'] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+export const TWO_FACTOR_COOKIE_NAME = 'gremlinlink_2fa'; // Pending sign-in waiting for the TOTP step
+export const TWO_FACTOR_CHALLENGE_EXPIRY = 60 * 10; // 10 minutes
+export const INVITATION_EXPIRY = 60 * 60 * 24 * 7; // 7 days
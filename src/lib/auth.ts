@@ -1,27 +1,20 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { users, magicLinks, userSessions } from '@/lib/db/schema';
-import { eq, and, gt } from 'drizzle-orm';
-import { Resend } from 'resend';
+import { eq, and, sql } from 'drizzle-orm';
 import { 
   SESSION_COOKIE_NAME as _SESSION_COOKIE_NAME,
   SESSION_COOKIE_MAX_AGE as _SESSION_COOKIE_MAX_AGE,
-  MAGIC_LINK_EXPIRY as _MAGIC_LINK_EXPIRY
+  MAGIC_LINK_EXPIRY as _MAGIC_LINK_EXPIRY,
+  TWO_FACTOR_COOKIE_NAME,
+  TWO_FACTOR_CHALLENGE_EXPIRY,
+  type ApiTokenScope,
 } from '@/lib/auth-constants';
-
-// Lazy initialization of Resend to avoid build-time errors
-let resendInstance: Resend | null = null;
-
-function getResendInstance(): Resend {
-  if (!resendInstance) {
-    const apiKey = process.env.RESEND_API_KEY;
-    if (!apiKey) {
-      throw new Error('RESEND_API_KEY environment variable is not set');
-    }
-    resendInstance = new Resend(apiKey);
-  }
-  return resendInstance;
-}
+import { ApiTokenService } from '@/lib/services/api-token-service';
+import { EmailService } from '@/lib/services/email-service';
+import { TwoFactorService } from '@/lib/services/two-factor-service';
+import { SessionService } from '@/lib/services/session-service';
+import { hasPermission, PERMISSION_TOKEN_SCOPES, type Permission, type UserRole } from '@/lib/permissions';
 
 // Re-export constants for backward compatibility
 export const SESSION_COOKIE_NAME = _SESSION_COOKIE_NAME;
@@ -100,28 +93,67 @@ export async function sendMagicLink(email: string, token: string) {
   const magicUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001'}/admin/auth/verify?token=${token}`;
   
   try {
-    await getResendInstance().emails.send({
-      from: process.env.FROM_EMAIL || 'noreply@gremlinlink.com',
-      to: email,
-      subject: 'Sign in to GremlinLink Admin',
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>Sign in to GremlinLink Admin</h2>
-          <p>Click the link below to sign in to your admin account:</p>
-          <p>
-            <a href="${magicUrl}" style="background-color: #007cba; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
-              Sign In
-            </a>
-          </p>
-          <p>This link will expire in 15 minutes.</p>
-          <p>If you didn't request this, you can safely ignore this email.</p>
-        </div>
-      `,
+    await EmailService.sendMagicLink(email, magicUrl, Math.round(MAGIC_LINK_EXPIRY / 60));
+  } catch (error) {
+    // Keep the transport's reason; the route shows a generic message
+    throw new Error(`Failed to send magic link email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Set the session cookie on a sign-in response
+export function setSessionCookie(response: NextResponse, sessionToken: string) {
+  response.cookies.set({
+    name: SESSION_COOKIE_NAME,
+    value: sessionToken,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_COOKIE_MAX_AGE,
+    path: '/',
+    sameSite: 'lax',
+  });
+}
+
+// Finish a first-factor sign-in (magic link or passkey)
+// Issues the session, or a pending 2FA challenge when the user has TOTP
+// enabled or policy requires it. `verified` skips the TOTP step for factors
+// that already proved more than possession (passkeys with user verification).
+export async function completeSignIn(
+  request: Request,
+  userId: string,
+  options: { verified?: boolean } = {}
+): Promise<NextResponse> {
+  const twoFactorEnabled = await TwoFactorService.isEnabled(userId);
+  if (!options.verified && (twoFactorEnabled || await TwoFactorService.isRequired())) {
+    const challengeToken = await TwoFactorService.createChallenge(userId);
+
+    const response = NextResponse.json({
+      success: true,
+      twoFactorRequired: true,
+      enrollmentRequired: !twoFactorEnabled,
+    });
+
+    response.cookies.set({
+      name: TWO_FACTOR_COOKIE_NAME,
+      value: challengeToken,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: TWO_FACTOR_CHALLENGE_EXPIRY,
+      path: '/',
+      sameSite: 'strict',
     });
-  } catch {
-    // Failed to send magic link email - silent error handling
-    throw new Error('Failed to send magic link email');
+
+    return response;
   }
+
+  const sessionToken = await createUserSession(userId, request);
+
+  const response = NextResponse.json({
+    success: true,
+    message: 'Successfully authenticated',
+  });
+  setSessionCookie(response, sessionToken);
+
+  return response;
 }
 
 // Verify magic link token
@@ -163,15 +195,11 @@ export async function verifyMagicLink(token: string) {
 }
 
 // Create user session
-export async function createUserSession(userId: string): Promise<string> {
+// `request` is the sign-in request; its user agent and IP identify the session in the sessions list.
+export async function createUserSession(userId: string, request?: Request): Promise<string> {
   const token = generateSecureToken();
-  const expiresAt = new Date(Date.now() + SESSION_COOKIE_MAX_AGE * 1000);
 
-  await db.insert(userSessions).values({
-    user_id: userId,
-    token,
-    expires_at: expiresAt,
-  });
+  await SessionService.createSession(userId, token, request);
 
   // Update user's last login
   await db
@@ -179,33 +207,40 @@ export async function createUserSession(userId: string): Promise<string> {
     .set({ last_login: new Date() })
     .where(eq(users.id, userId));
 
+  await ensureOwner(userId);
+
   return token;
 }
 
+// Make the signing-in user an owner when there is no active owner yet, but
+// only if it is the designated OWNER_EMAIL (fresh installs); upgraded installs
+// assign roles with npm run db:backfill-roles
+async function ensureOwner(userId: string) {
+  const ownerEmail = process.env.OWNER_EMAIL?.trim().toLowerCase();
+  if (!ownerEmail) {
+    return;
+  }
+
+  const [owner] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.role, 'owner'), eq(users.is_active, true)))
+    .limit(1);
+
+  if (!owner) {
+    await db
+      .update(users)
+      .set({ role: 'owner', updated_at: new Date() })
+      .where(and(eq(users.id, userId), sql`lower(${users.email}) = ${ownerEmail}`));
+  }
+}
+
 // Validate session token
+// Enforces the idle timeout and absolute lifetime from the security settings.
 export async function validateSession(token: string) {
   if (!token) return null;
 
-  const session = await db
-    .select({
-      user_id: userSessions.user_id,
-      expires_at: userSessions.expires_at,
-      email: users.email,
-      name: users.name,
-      is_active: users.is_active,
-    })
-    .from(userSessions)
-    .innerJoin(users, eq(userSessions.user_id, users.id))
-    .where(
-      and(
-        eq(userSessions.token, token),
-        gt(userSessions.expires_at, new Date()),
-        eq(users.is_active, true)
-      )
-    )
-    .limit(1);
-
-  return session.length > 0 ? session[0] : null;
+  return SessionService.validateSession(token);
 }
 
 // Check if user is authenticated (for middleware)
@@ -220,11 +255,65 @@ export async function isAuthenticated(request?: NextRequest): Promise<boolean> {
 }
 
 // Get current user from request
-export async function getCurrentUser(request: NextRequest) {
+// API tokens (Authorization: Bearer) are only accepted when the route names
+// the scope it needs; routes without a scope stay session-only.
+export async function getCurrentUser(request: NextRequest, scope?: ApiTokenScope) {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    if (!scope) return null;
+
+    const tokenUser = await ApiTokenService.validateToken(authorization.slice(7).trim());
+    if (!tokenUser || !tokenUser.scopes.includes(scope)) return null;
+
+    return {
+      user_id: tokenUser.user_id,
+      email: tokenUser.email,
+      name: tokenUser.name,
+      role: tokenUser.role as UserRole,
+      is_active: tokenUser.is_active,
+      token_id: tokenUser.token_id as string | null,
+      session_id: null as string | null,
+    };
+  }
+
   const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
   if (!sessionCookie?.value) return null;
 
-  return await validateSession(sessionCookie.value);
+  const session = await validateSession(sessionCookie.value);
+  if (!session) return null;
+
+  return {
+    user_id: session.user_id,
+    email: session.email,
+    name: session.name,
+    role: session.role as UserRole,
+    is_active: session.is_active,
+    token_id: null as string | null,
+    session_id: session.session_id as string | null,
+  };
+}
+
+export type CurrentUser = NonNullable<Awaited<ReturnType<typeof getCurrentUser>>>;
+
+// Shared guard for admin API routes
+// Resolves the signed-in user and checks their role grants `permission`.
+// API tokens are accepted for permissions that map to a token scope.
+// Usage: const { user, response } = await requireUser(request, 'content:write');
+//        if (!user) return response;
+export async function requireUser(
+  request: NextRequest,
+  permission?: Permission
+): Promise<{ user: CurrentUser; response: null } | { user: null; response: NextResponse }> {
+  const user = await getCurrentUser(request, permission ? PERMISSION_TOKEN_SCOPES[permission] : undefined);
+  if (!user) {
+    return { user: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (permission && !hasPermission(user.role, permission)) {
+    return { user: null, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { user, response: null };
 }
 
 // Logout user (invalidate session)
@@ -8,4 +8,7 @@ const client = postgres(process.env.DATABASE_URL!, {
   connect_timeout: 10,
 });
 
-export const db = drizzle(client, { schema });
\ No newline at end of file
+export const db = drizzle(client, { schema });
+
+// Handle passed to helpers that must run inside a db.transaction() callback
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
\ No newline at end of file
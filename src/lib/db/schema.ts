@@ -1,4 +1,6 @@
-import { pgTable, uuid, varchar, text, integer, boolean, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, integer, boolean, timestamp, jsonb, index, primaryKey } from 'drizzle-orm/pg-core';
+import type { ApiTokenScope } from '../auth-constants';
+import type { UserRole } from '../permissions';
 
 /**
  * UNIFIED BLOCK-BASED ARCHITECTURE
@@ -48,20 +50,73 @@ export const clicks = pgTable('clicks', {
   timestamp: timestamp('timestamp').defaultNow().notNull(),
   referrer: varchar('referrer', { length: 500 }),
   user_agent: text('user_agent'),
-  ip_address: varchar('ip_address', { length: 45 }), // IPv6 compatible
+  ip_address: varchar('ip_address', { length: 45 }), // IPv6 compatible; truncated or null depending on privacy settings
+  visitor_hash: varchar('visitor_hash', { length: 64 }), // Salted hash of IP and user agent, rotates daily
   country: varchar('country', { length: 2 }), // ISO country code
+  region: varchar('region', { length: 100 }), // Subdivision code or name
+  city: varchar('city', { length: 100 }),
+  browser: varchar('browser', { length: 50 }), // Browser family, or the bot's name
+  browser_version: varchar('browser_version', { length: 20 }), // Major version
+  os: varchar('os', { length: 50 }),
+  device_type: varchar('device_type', { length: 20 }), // DeviceType - see lib/user-agent; null until parsed
+  is_bot: boolean('is_bot').default(false).notNull(), // Crawlers and link-preview fetchers, excluded from counts
   metadata: jsonb('metadata').default('{}'), // Flexible analytics data
 }, (table) => ({
   // Analytics-optimized indexes
   blockTimestampIndex: index('idx_clicks_block_timestamp').on(table.block_id, table.timestamp),
   timestampIndex: index('idx_clicks_timestamp').on(table.timestamp),
+  botTimestampIndex: index('idx_clicks_bot_timestamp').on(table.is_bot, table.timestamp),
+  visitorIndex: index('idx_clicks_visitor_hash').on(table.visitor_hash),
 }));
 
+// Random salt per UTC day for visitor hashes - deleted with the raw click data it can re-identify
+export const visitorSalts = pgTable('visitor_salts', {
+  day: varchar('day', { length: 10 }).primaryKey(), // YYYY-MM-DD
+  salt: varchar('salt', { length: 64 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Click counts per block and hour, by dimension - written by the rollup aggregator (see lib/analytics/click-rollups)
+export const clickRollupsHourly = pgTable('click_rollups_hourly', {
+  bucket: timestamp('bucket').notNull(), // Start of the hour
+  block_id: uuid('block_id').references(() => contentBlocks.id, { onDelete: 'cascade' }).notNull(),
+  is_bot: boolean('is_bot').notNull(),
+  dimension: varchar('dimension', { length: 20 }).notNull(), // RollupDimension: 'total', 'country', 'referrer' or 'device'
+  value: varchar('value', { length: 255 }).notNull(), // Country code, referrer domain or device type; '' when unknown or for totals
+  clicks: integer('clicks').notNull(),
+  uniques: integer('uniques').notNull(), // Distinct visitors within the bucket
+}, (table) => ({
+  pk: primaryKey({ columns: [table.block_id, table.dimension, table.bucket, table.is_bot, table.value] }),
+  dimensionBucketIndex: index('idx_click_rollups_hourly_dimension_bucket').on(table.dimension, table.bucket),
+}));
+
+// Same as clickRollupsHourly per UTC day; only complete days are rolled up
+export const clickRollupsDaily = pgTable('click_rollups_daily', {
+  bucket: timestamp('bucket').notNull(), // Midnight UTC
+  block_id: uuid('block_id').references(() => contentBlocks.id, { onDelete: 'cascade' }).notNull(),
+  is_bot: boolean('is_bot').notNull(),
+  dimension: varchar('dimension', { length: 20 }).notNull(),
+  value: varchar('value', { length: 255 }).notNull(),
+  clicks: integer('clicks').notNull(),
+  uniques: integer('uniques').notNull(), // Distinct visitors within the day
+}, (table) => ({
+  pk: primaryKey({ columns: [table.block_id, table.dimension, table.bucket, table.is_bot, table.value] }),
+  dimensionBucketIndex: index('idx_click_rollups_daily_dimension_bucket').on(table.dimension, table.bucket),
+}));
+
+// Progress of the rollup aggregator - clicks before `rolled_up_to` are in the rollup tables
+export const clickRollupState = pgTable('click_rollup_state', {
+  id: varchar('id', { length: 20 }).primaryKey(), // Always 'clicks'
+  rolled_up_to: timestamp('rolled_up_to').notNull(), // Start of the first hour not rolled up yet
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Keep existing auth tables unchanged for compatibility
 export const users = pgTable('users', {
   id: uuid('id').defaultRandom().primaryKey(),
   email: varchar('email', { length: 255 }).notNull().unique(),
   name: varchar('name', { length: 255 }),
+  role: varchar('role', { length: 20 }).default('viewer').notNull(), // UserRole - see lib/permissions
   is_active: boolean('is_active').default(true).notNull(),
   last_login: timestamp('last_login'),
   created_at: timestamp('created_at').defaultNow().notNull(),
@@ -82,9 +137,106 @@ export const userSessions = pgTable('user_sessions', {
   user_id: uuid('user_id').references(() => users.id).notNull(),
   token: varchar('token', { length: 255 }).notNull().unique(),
   expires_at: timestamp('expires_at').notNull(),
+  user_agent: text('user_agent'),
+  ip_address: varchar('ip_address', { length: 45 }),
+  device_label: varchar('device_label', { length: 100 }), // e.g. "Chrome on macOS"
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIndex: index('idx_user_sessions_user').on(table.user_id),
+}));
+
+// Personal API tokens - only a SHA-256 hash of the token is stored
+export const apiTokens = pgTable('api_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  token_prefix: varchar('token_prefix', { length: 16 }).notNull(), // Shown in the UI to tell tokens apart
+  scopes: jsonb('scopes').notNull().default('[]'), // ApiTokenScope[]
+  last_used_at: timestamp('last_used_at'),
+  expires_at: timestamp('expires_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIndex: index('idx_api_tokens_user').on(table.user_id),
+}));
+
+// TOTP second factor - kept out of `users` so user queries never select the secret
+export const userTwoFactor = pgTable('user_two_factor', {
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).primaryKey(),
+  secret: text('secret').notNull(), // Encrypted base32 secret (lib/encryption)
+  enabled_at: timestamp('enabled_at'), // Null while enrolment is unconfirmed
+  recovery_code_hashes: jsonb('recovery_code_hashes').notNull().default('[]'), // SHA-256 of unused codes
+  last_used_step: integer('last_used_step'), // Rejects replays of an accepted code
   created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// WebAuthn credentials (passkeys) - a passwordless alternative to magic links
+export const passkeys = pgTable('passkeys', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  credential_id: varchar('credential_id', { length: 512 }).notNull().unique(), // base64url
+  public_key: text('public_key').notNull(), // base64url COSE key
+  counter: integer('counter').default(0).notNull(),
+  transports: jsonb('transports').notNull().default('[]'),
+  device_type: varchar('device_type', { length: 20 }).notNull(), // 'singleDevice' | 'multiDevice'
+  backed_up: boolean('backed_up').default(false).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  last_used_at: timestamp('last_used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIndex: index('idx_passkeys_user').on(table.user_id),
+}));
+
+// Outstanding WebAuthn challenges; each is consumed by the first verification attempt
+export const passkeyChallenges = pgTable('passkey_challenges', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  challenge: varchar('challenge', { length: 128 }).notNull(),
+  purpose: varchar('purpose', { length: 20 }).notNull(), // 'registration' | 'authentication'
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // Only for registration
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Pending sign-ins waiting for the second factor (issued after the magic link)
+export const twoFactorChallenges = pgTable('two_factor_challenges', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  attempts: integer('attempts').default(0).notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Admin invitations - the emailed link carries the token, only its SHA-256 hash is stored
+export const userInvitations = pgTable('user_invitations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  email: varchar('email', { length: 255 }).notNull(),
+  role: varchar('role', { length: 20 }).notNull(), // UserRole granted on acceptance
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  invited_by: uuid('invited_by').references(() => users.id, { onDelete: 'set null' }),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'set null' }), // Set on acceptance
+  expires_at: timestamp('expires_at').notNull(),
+  last_sent_at: timestamp('last_sent_at').defaultNow().notNull(),
+  accepted_at: timestamp('accepted_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  emailIndex: index('idx_user_invitations_email').on(table.email),
+}));
+
+// Fixed-window request counters for the database rate-limit store (shared by all replicas)
+export const rateLimits = pgTable('rate_limits', {
+  key: varchar('key', { length: 255 }).primaryKey(), // "<rule>:<ip or email>"
+  count: integer('count').default(0).notNull(),
+  reset_at: timestamp('reset_at').notNull(),
+}, (table) => ({
+  resetIndex: index('idx_rate_limits_reset_at').on(table.reset_at),
+}));
+
 /**
  * CONTENT BLOCK TYPE DEFINITIONS
  * 
@@ -113,6 +265,43 @@ export interface ContentBlock {
 export interface RedirectBlockData {
   url: string;
   statusCode?: number; // 301, 302, etc.
+  activate_at?: string | null; // ISO timestamp - link resolves only after this
+  expires_at?: string | null; // ISO timestamp - link stops resolving after this
+  max_clicks?: number | null; // Stop resolving after this many redirects
+  fallback_url?: string | null; // Where to send visitors when unavailable (otherwise an expired page)
+  rules?: RedirectRule[]; // Evaluated in order, first match wins, otherwise `url`
+  variants?: RedirectVariant[]; // Weighted A/B destinations, used instead of `url` when set
+  utm?: RedirectUtmParams; // Default UTM parameters added to the destination
+  query_passthrough?: boolean; // Merge the visitor's query parameters into the destination
+  query_precedence?: 'link' | 'incoming'; // Which side wins when a parameter exists on both (default 'link')
+}
+
+export interface RedirectUtmParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+// Weighted A/B destination - weights are percentages that add up to 100
+export interface RedirectVariant {
+  id: string;
+  url: string;
+  weight: number;
+  label?: string;
+}
+
+// Conditional redirect rule (e.g. iOS → App Store, country in [DE, AT, CH] → German site)
+export type RedirectRuleType = 'device' | 'country' | 'language';
+export type RedirectRuleDevice = 'ios' | 'android' | 'mobile' | 'desktop';
+
+export interface RedirectRule {
+  id: string;
+  type: RedirectRuleType;
+  values: string[]; // Devices, ISO country codes or language prefixes (e.g. 'fr', 'pt-br')
+  url: string;
+  label?: string;
 }
 
 export interface ArticleBlockData {
@@ -210,6 +399,49 @@ export const blockRevisions = pgTable('block_revisions', {
   createdIndex: index('idx_revisions_created').on(table.created_at),
 }));
 
+// Previous slugs of renamed blocks - old URLs permanently redirect to the current slug
+export const slugAliases = pgTable('slug_aliases', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  slug: varchar('slug', { length: 255 }).unique().notNull(),
+  block_id: uuid('block_id').references(() => contentBlocks.id, { onDelete: 'cascade' }).notNull(),
+  created_by: uuid('created_by').references(() => users.id),
+  hit_count: integer('hit_count').default(0).notNull(),
+  last_hit_at: timestamp('last_hit_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  blockIndex: index('idx_slug_aliases_block').on(table.block_id),
+  lastHitIndex: index('idx_slug_aliases_last_hit').on(table.last_hit_at),
+}));
+
+// Admin settings, one row per settings section - `version` increases on every change
+export const appSettings = pgTable('app_settings', {
+  section: varchar('section', { length: 50 }).primaryKey(), // SettingsSection, e.g. 'general'
+  value: jsonb('value').notNull(), // Secrets are stored encrypted (see lib/encryption)
+  version: integer('version').default(1).notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Append-only record of admin actions - the actor's email is kept so entries survive user deletion
+export const auditLogs = pgTable('audit_logs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actor_id: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }),
+  actor_email: varchar('actor_email', { length: 255 }),
+  action: varchar('action', { length: 50 }).notNull(), // AuditAction, e.g. 'block.update'
+  target_type: varchar('target_type', { length: 20 }).notNull(), // 'block' | 'user' | 'settings'
+  target_id: varchar('target_id', { length: 255 }),
+  target_label: varchar('target_label', { length: 255 }), // Slug or email at the time of the action
+  changes: jsonb('changes'), // { field: { from, to } }
+  ip_address: varchar('ip_address', { length: 45 }),
+  user_agent: text('user_agent'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  createdIndex: index('idx_audit_logs_created').on(table.created_at),
+  actorIndex: index('idx_audit_logs_actor').on(table.actor_id),
+  targetIndex: index('idx_audit_logs_target').on(table.target_type, table.target_id),
+  actionIndex: index('idx_audit_logs_action').on(table.action),
+}));
+
 // URL words for dynamic suggestion generation
 export const urlWords = pgTable('url_words', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -270,6 +502,83 @@ export interface BlockRevision {
   created_at: Date;
 }
 
+export interface SlugAlias {
+  id: string;
+  slug: string;
+  block_id: string;
+  created_by?: string;
+  hit_count: number;
+  last_hit_at?: Date;
+  created_at: Date;
+}
+
+export interface AuditLogChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditLog {
+  id: string;
+  actor_id?: string;
+  actor_email?: string;
+  action: string;
+  target_type: string;
+  target_id?: string;
+  target_label?: string;
+  changes?: Record<string, AuditLogChange>;
+  ip_address?: string;
+  user_agent?: string;
+  created_at: Date;
+}
+
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  last_used_at?: Date;
+  expires_at?: Date;
+  revoked_at?: Date;
+  created_at: Date;
+}
+
+export interface UserSession {
+  id: string;
+  user_id: string;
+  user_email?: string; // Only in the all-users listing
+  device_label: string;
+  user_agent?: string;
+  ip_address?: string;
+  last_seen_at: Date;
+  expires_at: Date;
+  created_at: Date;
+  current: boolean; // The session making the request
+}
+
+export interface UserInvitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  invited_by?: string;
+  invited_by_email?: string;
+  expires_at: Date;
+  last_sent_at: Date;
+  accepted_at?: Date;
+  revoked_at?: Date;
+  created_at: Date;
+}
+
+export interface Passkey {
+  id: string;
+  user_id: string;
+  name: string;
+  device_type: string;
+  backed_up: boolean; // Synced passkeys survive losing the device
+  last_used_at?: Date;
+  created_at: Date;
+}
+
 export interface Tag {
   id: string;
   name: string;
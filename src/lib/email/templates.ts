@@ -0,0 +1,139 @@
+/**
+ * EMAIL TEMPLATES
+ *
+ * Every template renders an HTML body and a plain-text alternative. Values
+ * interpolated into HTML are escaped here, so callers pass raw strings.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface ReportRow {
+  label: string;
+  value: string | number;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const layout = (title: string, body: string): string => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2>${escapeHtml(title)}</h2>
+    ${body}
+  </div>
+`;
+
+const button = (url: string, label: string): string => `
+  <p>
+    <a href="${escapeHtml(url)}" style="background-color: #007cba; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+      ${escapeHtml(label)}
+    </a>
+  </p>
+`;
+
+export function magicLinkEmail(params: { siteName: string; url: string; expiresInMinutes: number }): RenderedEmail {
+  const title = `Sign in to ${params.siteName} Admin`;
+
+  return {
+    subject: title,
+    html: layout(title, `
+      <p>Click the link below to sign in to your admin account:</p>
+      ${button(params.url, 'Sign In')}
+      <p>This link will expire in ${params.expiresInMinutes} minutes.</p>
+      <p>If you didn't request this, you can safely ignore this email.</p>
+    `),
+    text: [
+      title,
+      '',
+      'Open this link to sign in to your admin account:',
+      params.url,
+      '',
+      `This link will expire in ${params.expiresInMinutes} minutes.`,
+      "If you didn't request this, you can safely ignore this email.",
+    ].join('\n'),
+  };
+}
+
+export function invitationEmail(params: {
+  siteName: string;
+  url: string;
+  invitedBy: string;
+  role: string;
+  expiresAt: Date;
+}): RenderedEmail {
+  const title = `You're invited to ${params.siteName}`;
+  const expires = params.expiresAt.toUTCString();
+
+  return {
+    subject: `${params.invitedBy} invited you to ${params.siteName}`,
+    html: layout(title, `
+      <p>${escapeHtml(params.invitedBy)} invited you to join ${escapeHtml(params.siteName)} as <strong>${escapeHtml(params.role)}</strong>.</p>
+      ${button(params.url, 'Accept Invitation')}
+      <p>This invitation expires on ${escapeHtml(expires)}.</p>
+      <p>If you weren't expecting this, you can safely ignore this email.</p>
+    `),
+    text: [
+      title,
+      '',
+      `${params.invitedBy} invited you to join ${params.siteName} as ${params.role}.`,
+      'Accept the invitation here:',
+      params.url,
+      '',
+      `This invitation expires on ${expires}.`,
+      "If you weren't expecting this, you can safely ignore this email.",
+    ].join('\n'),
+  };
+}
+
+export function reportEmail(params: {
+  siteName: string;
+  title: string;
+  intro?: string;
+  rows: ReportRow[];
+  url?: string;
+}): RenderedEmail {
+  const rows = params.rows
+    .map((row) => `
+      <tr>
+        <td style="padding: 6px 12px 6px 0; border-bottom: 1px solid #eee;">${escapeHtml(row.label)}</td>
+        <td style="padding: 6px 0; border-bottom: 1px solid #eee; text-align: right;">${escapeHtml(String(row.value))}</td>
+      </tr>
+    `)
+    .join('');
+
+  return {
+    subject: `${params.siteName}: ${params.title}`,
+    html: layout(params.title, `
+      ${params.intro ? `<p>${escapeHtml(params.intro)}</p>` : ''}
+      <table style="width: 100%; border-collapse: collapse;">${rows}</table>
+      ${params.url ? button(params.url, 'View in Dashboard') : ''}
+    `),
+    text: [
+      params.title,
+      '',
+      ...(params.intro ? [params.intro, ''] : []),
+      ...params.rows.map((row) => `${row.label}: ${row.value}`),
+      ...(params.url ? ['', params.url] : []),
+    ].join('\n'),
+  };
+}
+
+export function testEmail(params: { siteName: string; transport: string }): RenderedEmail {
+  const title = `${params.siteName} test email`;
+
+  return {
+    subject: title,
+    html: layout(title, `
+      <p>Email delivery works. This message was sent with the <strong>${escapeHtml(params.transport)}</strong> transport.</p>
+    `),
+    text: `${title}\n\nEmail delivery works. This message was sent with the ${params.transport} transport.`,
+  };
+}
@@ -0,0 +1,100 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { Resend } from 'resend';
+import nodemailer from 'nodemailer';
+
+/**
+ * EMAIL TRANSPORTS
+ *
+ * Each transport delivers a fully rendered message. Transports throw with the
+ * provider's own error message so callers (and the settings test-send) can
+ * show what actually went wrong.
+ */
+
+export const EMAIL_TRANSPORTS = ['resend', 'smtp', 'file'] as const;
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number];
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+  private client: Resend;
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    // Resend reports API failures in the result instead of throwing
+    const { error } = await this.client.emails.send(message);
+    if (error) {
+      throw new Error(`Resend: ${error.message}`);
+    }
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465, // Other ports upgrade with STARTTLS when offered
+      auth: options.username ? { user: options.username, pass: options.password || '' } : undefined,
+      connectionTimeout: 10000,
+      greetingTimeout: 10000,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail(message);
+    } catch (error) {
+      throw new Error(`SMTP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// Development transport: writes each message to disk and prints where to find it
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}`;
+    const filePath = path.join(this.directory, `${baseName}.html`);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(filePath, message.html);
+    await writeFile(path.join(this.directory, `${baseName}.txt`), [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+    ].join('\n'));
+
+    console.info(`[email] "${message.subject}" to ${message.to} written to ${filePath}\n${message.text}`);
+  }
+}
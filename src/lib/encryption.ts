@@ -0,0 +1,46 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * SECRETS AT REST
+ *
+ * AES-256-GCM encryption for secrets stored in the database (SMTP
+ * passwords and the like). Values are stored as `v1:<iv>:<tag>:<data>`
+ * in base64 so the format can change without breaking existing rows.
+ */
+
+const ENCRYPTED_PREFIX = 'v1:';
+
+// Lazy lookup of the key to avoid build-time errors
+function getEncryptionKey(): Buffer {
+  const secret = process.env.ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('ENCRYPTION_KEY environment variable is not set');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return `${ENCRYPTED_PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${encrypted.toString('base64')}`;
+}
+
+// Throws when the value was tampered with or encrypted with another key
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) {
+    throw new Error('Value is not an encrypted secret');
+  }
+
+  const [iv, tag, encrypted] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+}
+
+export function isEncryptedSecret(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX) && value.split(':').length === 4;
+}
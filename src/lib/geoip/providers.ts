@@ -0,0 +1,113 @@
+import maxmind, { type CityResponse, type Reader } from 'maxmind';
+
+/**
+ * GEOIP PROVIDERS
+ *
+ * Resolve a visitor's IP address to a country, region and city. The MMDB
+ * provider reads a local MaxMind-format database (GeoLite2/GeoIP2 City or
+ * Country, DB-IP, IPinfo, ...), so lookups need no network access. The
+ * header provider trusts the location a CDN or proxy adds to the request
+ * and must only be enabled when clients cannot reach the app directly.
+ * Other sources can be plugged in by implementing GeoIpProvider and
+ * passing it to GeoIpService.setProviders().
+ */
+
+export interface GeoLocation {
+  country: string; // ISO 3166-1 alpha-2
+  region?: string; // Subdivision code or name, e.g. "CA" or "Bavaria"
+  city?: string;
+}
+
+export interface GeoIpProvider {
+  readonly name: string;
+  // `ip` is null for private or missing addresses; null result when there is no answer
+  lookup(ip: string | null, headers?: Headers): Promise<GeoLocation | null>;
+}
+
+// Unknown/anonymous markers used by CDNs instead of a real country
+const UNKNOWN_COUNTRIES = new Set(['XX', 'T1', 'A1', 'A2', 'O1']);
+
+const MAX_REGION_LENGTH = 100;
+const MAX_CITY_LENGTH = 100;
+
+export function toGeoLocation(
+  country: string | null | undefined,
+  region?: string | null,
+  city?: string | null
+): GeoLocation | null {
+  const code = country?.trim().toUpperCase();
+  if (!code || !/^[A-Z]{2}$/.test(code) || UNKNOWN_COUNTRIES.has(code)) {
+    return null;
+  }
+
+  return {
+    country: code,
+    region: region?.trim().slice(0, MAX_REGION_LENGTH) || undefined,
+    city: city?.trim().slice(0, MAX_CITY_LENGTH) || undefined,
+  };
+}
+
+export class MmdbGeoIpProvider implements GeoIpProvider {
+  readonly name = 'mmdb';
+  private reader: Promise<Reader<CityResponse> | null> | null = null;
+
+  constructor(private readonly databasePath: string) {}
+
+  async lookup(ip: string | null): Promise<GeoLocation | null> {
+    if (!ip) {
+      return null;
+    }
+
+    const reader = await this.getReader();
+    const result = reader?.get(ip);
+    if (!result) {
+      return null;
+    }
+
+    const subdivision = result.subdivisions?.[0];
+    return toGeoLocation(
+      result.country?.iso_code || result.registered_country?.iso_code,
+      subdivision?.iso_code || subdivision?.names?.en,
+      result.city?.names?.en
+    );
+  }
+
+  // Opened once; the file is re-read when it is replaced (e.g. by geoipupdate)
+  private getReader(): Promise<Reader<CityResponse> | null> {
+    if (!this.reader) {
+      this.reader = maxmind
+        .open<CityResponse>(this.databasePath, { watchForUpdates: true, watchForUpdatesNonPersistent: true })
+        .catch(() => {
+          // Missing or unreadable database - geo data is simply not recorded
+          return null;
+        });
+    }
+    return this.reader;
+  }
+}
+
+export class HeaderGeoIpProvider implements GeoIpProvider {
+  readonly name = 'headers';
+
+  async lookup(_ip: string | null, headers?: Headers): Promise<GeoLocation | null> {
+    if (!headers) {
+      return null;
+    }
+
+    // Cloudflare (city and region need the "Add visitor location headers" managed transform) and Vercel
+    const country = headers.get('cf-ipcountry') || headers.get('x-vercel-ip-country');
+    const region = headers.get('cf-region-code') || headers.get('cf-region') || headers.get('x-vercel-ip-country-region');
+    const city = headers.get('cf-ipcity') || headers.get('x-vercel-ip-city');
+
+    return toGeoLocation(country, region, city ? this.decode(city) : null);
+  }
+
+  // Vercel percent-encodes non-ASCII city names
+  private decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
@@ -41,6 +41,11 @@ export interface UpdateBlockInput extends Partial<CreateBlockInput> {
   id: string;
 }
 
+export interface BulkUpdateInput {
+  ids: string[];
+  updates: Pick<CreateBlockInput, 'is_published' | 'display_order'>;
+}
+
 export interface BlocksFilters {
   renderer?: string;
   type?: string;
@@ -51,6 +56,69 @@ export interface BlocksFilters {
   offset?: number;
 }
 
+export interface BlockRevision {
+  id: string;
+  block_id: string;
+  data: Record<string, unknown>;
+  metadata: Record<string, unknown> | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export interface RevisionChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface VariantStats {
+  variantId: string;
+  label: string;
+  url: string;
+  weight: number;
+  clicks: number;
+  uniqueVisitors: number;
+  share: number;
+}
+
+export interface SlugAlias {
+  id: string;
+  slug: string;
+  block_id: string;
+  current_slug: string;
+  hit_count: number;
+  last_hit_at: string | null;
+  created_at: string;
+}
+
+export interface LinkImportRow {
+  row: number;
+  slug: string;
+  finalSlug?: string;
+  url?: string;
+  title?: string;
+  action: 'create' | 'overwrite' | 'skip' | 'invalid';
+  conflict?: 'exists' | 'reserved' | 'alias' | 'duplicate';
+  errors?: string[];
+}
+
+export interface LinkImportReport {
+  dryRun: boolean;
+  strategy: 'skip' | 'overwrite' | 'rename';
+  rows: LinkImportRow[];
+  summary: {
+    total: number;
+    create: number;
+    overwrite: number;
+    skip: number;
+    invalid: number;
+    renamed: number;
+  };
+}
+
 // Query keys for consistent cache management
 export const blockKeys = {
   all: ['blocks'] as const,
@@ -58,6 +126,10 @@ export const blockKeys = {
   list: (filters: BlocksFilters) => [...blockKeys.lists(), filters] as const,
   details: () => [...blockKeys.all, 'detail'] as const,
   detail: (id: string) => [...blockKeys.details(), id] as const,
+  revisions: (id: string) => [...blockKeys.detail(id), 'revisions'] as const,
+  revisionDiff: (id: string, from: string, to: string) => [...blockKeys.revisions(id), 'diff', from, to] as const,
+  variants: (id: string) => [...blockKeys.detail(id), 'variants'] as const,
+  aliases: (id: string) => [...blockKeys.detail(id), 'aliases'] as const,
 };
 
 // Fetch blocks with filtering
@@ -73,7 +145,7 @@ export function useBlocks(filters: BlocksFilters = {}) {
         }
       });
 
-      const response = await fetch(`/api/blocks?${params}`);
+      const response = await fetch(`/api/admin/blocks?${params}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch blocks');
@@ -91,7 +163,7 @@ export function useBlock(id: string) {
   return useQuery({
     queryKey: blockKeys.detail(id),
     queryFn: async (): Promise<{ block: ContentBlock & { tags: string[] } }> => {
-      const response = await fetch(`/api/blocks/${id}`);
+      const response = await fetch(`/api/admin/blocks/${id}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch block');
@@ -110,7 +182,7 @@ export function useCreateBlock() {
   
   return useMutation({
     mutationFn: async (data: CreateBlockInput): Promise<{ block: ContentBlock }> => {
-      const response = await fetch('/api/blocks', {
+      const response = await fetch('/api/admin/blocks', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data),
@@ -149,7 +221,7 @@ export function useUpdateBlock() {
     mutationFn: async (data: UpdateBlockInput): Promise<{ block: ContentBlock }> => {
       const { id, ...updateData } = data;
       
-      const response = await fetch(`/api/blocks/${id}`, {
+      const response = await fetch(`/api/admin/blocks/${id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updateData),
@@ -187,9 +259,11 @@ export function useUpdateBlock() {
       }
       toast.error(error.message);
     },
-    onSuccess: () => {
-      // Invalidate lists to reflect changes
+    onSuccess: (_, data) => {
+      // Invalidate lists and revision history to reflect changes
       queryClient.invalidateQueries({ queryKey: blockKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: blockKeys.revisions(data.id) });
+      queryClient.invalidateQueries({ queryKey: blockKeys.aliases(data.id) });
       toast.success('Content updated successfully');
     },
   });
@@ -201,41 +275,33 @@ export function useDeleteBlock() {
   
   return useMutation({
     mutationFn: async (id: string): Promise<{ success: boolean }> => {
-      console.log(`useDeleteBlock: Starting deletion for block ${id}`);
-      
       // Create an AbortController for timeout
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
       
       try {
-        const response = await fetch(`/api/blocks/${id}`, {
+        const response = await fetch(`/api/admin/blocks/${id}`, {
           method: 'DELETE',
           signal: controller.signal,
         });
         
         clearTimeout(timeoutId);
-        console.log(`useDeleteBlock: Response status ${response.status}`);
         
         if (!response.ok) {
           const error = await response.json();
-          console.error('useDeleteBlock: Error response:', error);
           throw new Error(error.error || 'Failed to delete block');
         }
         
-        const result = await response.json();
-        console.log('useDeleteBlock: Success response:', result);
-        return result;
+        return response.json();
       } catch (error) {
         clearTimeout(timeoutId);
         if (error instanceof Error && error.name === 'AbortError') {
-          console.error('useDeleteBlock: Request timed out');
           throw new Error('Delete operation timed out. Please try again.');
         }
         throw error;
       }
     },
     onSuccess: (_, id) => {
-      console.log(`useDeleteBlock: onSuccess for block ${id}`);
       // Remove from cache
       queryClient.removeQueries({ queryKey: blockKeys.detail(id) });
       
@@ -245,7 +311,6 @@ export function useDeleteBlock() {
       toast.success('Content deleted successfully');
     },
     onError: (error: Error) => {
-      console.error('useDeleteBlock: onError:', error);
       toast.error(error.message);
     },
   });
@@ -256,11 +321,11 @@ export function useBulkUpdateBlocks() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (updates: { id: string; data: Partial<CreateBlockInput> }[]): Promise<{ success: boolean; updated: number }> => {
-      const response = await fetch('/api/blocks/bulk-update', {
+    mutationFn: async ({ ids, updates }: BulkUpdateInput): Promise<{ success: boolean; updated: number }> => {
+      const response = await fetch('/api/admin/blocks/bulk', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ updates }),
+        body: JSON.stringify({ action: 'update', ids, updates }),
       });
       
       if (!response.ok) {
@@ -289,10 +354,10 @@ export function useBulkDeleteBlocks() {
   
   return useMutation({
     mutationFn: async (ids: string[]): Promise<{ success: boolean; deleted: number }> => {
-      const response = await fetch('/api/blocks/bulk-delete', {
+      const response = await fetch('/api/admin/blocks/bulk', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ids }),
+        body: JSON.stringify({ action: 'delete', ids }),
       });
       
       if (!response.ok) {
@@ -313,4 +378,228 @@ export function useBulkDeleteBlocks() {
       toast.error(error.message);
     },
   });
-}
\ No newline at end of file
+}
+
+// Fetch revision history for a block
+export function useBlockRevisions(id: string) {
+  return useQuery({
+    queryKey: blockKeys.revisions(id),
+    queryFn: async (): Promise<{ revisions: BlockRevision[] }> => {
+      const response = await fetch(`/api/admin/blocks/${id}/revisions`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch revisions');
+      }
+
+      return response.json();
+    },
+    enabled: !!id && id !== 'new',
+    staleTime: 30 * 1000,
+  });
+}
+
+// Fetch clicks per A/B variant for a redirect block
+export function useVariantReport(id: string, enabled = true) {
+  return useQuery({
+    queryKey: blockKeys.variants(id),
+    queryFn: async (): Promise<{ variants: VariantStats[] }> => {
+      const response = await fetch(`/api/admin/blocks/${id}/variants`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch variant report');
+      }
+
+      return response.json();
+    },
+    enabled: enabled && !!id && id !== 'new',
+    staleTime: 60 * 1000,
+  });
+}
+
+// Diff a revision against another revision or the current block
+export function useRevisionDiff(id: string, from: string | null, to = 'current') {
+  return useQuery({
+    queryKey: blockKeys.revisionDiff(id, from || '', to),
+    queryFn: async (): Promise<{ changes: RevisionChange[] }> => {
+      const params = new URLSearchParams({ from: from || '', to });
+      const response = await fetch(`/api/admin/blocks/${id}/revisions/diff?${params}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load revision diff');
+      }
+
+      return response.json();
+    },
+    enabled: !!id && !!from,
+  });
+}
+
+// Roll a block back to a previous revision
+export function useRestoreRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ blockId, revisionId }: { blockId: string; revisionId: string }): Promise<{ block: ContentBlock }> => {
+      const response = await fetch(`/api/admin/blocks/${blockId}/revisions/${revisionId}/restore`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to restore revision');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, { blockId }) => {
+      // Refetch the block (and its revision list) so the editor reloads
+      queryClient.invalidateQueries({ queryKey: blockKeys.detail(blockId) });
+      queryClient.invalidateQueries({ queryKey: blockKeys.lists() });
+
+      toast.success('Revision restored');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+// Set, change or remove (password: null) the access password of a block
+export function useSetAccessPassword() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ blockId, password }: { blockId: string; password: string | null }): Promise<{ isProtected: boolean }> => {
+      const response = await fetch(`/api/admin/blocks/${blockId}/password`, {
+        method: password ? 'PUT' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: password ? JSON.stringify({ password }) : undefined,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update password');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data, { blockId }) => {
+      // The editor form is not reloaded so unsaved edits survive
+      queryClient.invalidateQueries({ queryKey: blockKeys.revisions(blockId) });
+
+      toast.success(data.isProtected ? 'Password protection enabled' : 'Password protection removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+// Fetch the previous slugs that redirect to a block
+export function useSlugAliases(blockId: string) {
+  return useQuery({
+    queryKey: blockKeys.aliases(blockId),
+    queryFn: async (): Promise<{ aliases: SlugAlias[] }> => {
+      const response = await fetch(`/api/admin/slug-aliases?blockId=${blockId}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch previous URLs');
+      }
+
+      return response.json();
+    },
+    enabled: !!blockId && blockId !== 'new',
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useDeleteSlugAlias() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; blockId: string }) => {
+      const response = await fetch(`/api/admin/slug-aliases/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to remove previous URL');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, { blockId }) => {
+      queryClient.invalidateQueries({ queryKey: blockKeys.aliases(blockId) });
+      toast.success('Previous URL removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function usePruneSlugAliases() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (options: { blockId?: string; unusedForDays?: number }): Promise<{ deleted: number }> => {
+      const response = await fetch('/api/admin/slug-aliases/prune', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to prune previous URLs');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data, { blockId }) => {
+      queryClient.invalidateQueries({ queryKey: blockId ? blockKeys.aliases(blockId) : blockKeys.all });
+      toast.success(`Removed ${data.deleted} previous URL${data.deleted === 1 ? '' : 's'}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+// Preview (dryRun) or run a bulk link import
+export function useImportLinks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: {
+      format: 'csv' | 'json';
+      content: string;
+      strategy: 'skip' | 'overwrite' | 'rename';
+      dryRun: boolean;
+    }): Promise<LinkImportReport> => {
+      const response = await fetch('/api/admin/blocks/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to import links');
+      }
+
+      return response.json();
+    },
+    onSuccess: (report) => {
+      if (report.dryRun) return;
+
+      queryClient.invalidateQueries({ queryKey: blockKeys.all });
+      const imported = report.summary.create + report.summary.overwrite;
+      toast.success(`Imported ${imported} link${imported === 1 ? '' : 's'}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
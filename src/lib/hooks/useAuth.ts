@@ -1,10 +1,12 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
+import type { UserRole } from '@/lib/permissions';
 
 interface User {
   user_id: string;
   email: string;
   name: string | null;
+  role: UserRole;
   is_active: boolean;
 }
 
@@ -0,0 +1,100 @@
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { ACCESS_COOKIE_MAX_AGE } from '@/lib/auth-constants';
+
+/**
+ * PASSWORD-PROTECTED LINKS
+ *
+ * Root blocks can carry a hashed access password in their metadata.
+ * Visitors who enter the password receive a signed cookie scoped to the
+ * slug, so they are not asked again until it expires. The signature also
+ * covers the password hash, which means changing the password locks out
+ * everyone who unlocked with the old one.
+ */
+
+export const ACCESS_PASSWORD_METADATA_KEY = 'access_password_hash';
+
+const ACCESS_COOKIE_PREFIX = 'gremlinlink_unlock_';
+
+// Lazy lookup of the signing secret to avoid build-time errors
+function getAccessSecret(): string {
+  const secret = process.env.LINK_ACCESS_SECRET;
+  if (!secret) {
+    throw new Error('LINK_ACCESS_SECRET environment variable is not set');
+  }
+  return secret;
+}
+
+// Hash a password for storage as `scrypt:<salt>:<hash>`
+export function hashAccessPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `scrypt:${salt}:${hash}`;
+}
+
+// Check a password against a stored hash
+export function verifyAccessPassword(password: string, storedHash: string): boolean {
+  const [algorithm, salt, hash] = storedHash.split(':');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Read the password hash from block metadata, if the block is protected
+export function getAccessPasswordHash(metadata: Record<string, unknown> | null | undefined): string | null {
+  const value = metadata?.[ACCESS_PASSWORD_METADATA_KEY];
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * Keep the stored password hash when metadata is replaced by an editor.
+ * The hash can only be changed through the dedicated password endpoint.
+ */
+export function preserveAccessPassword(
+  incoming: Record<string, unknown>,
+  existing: Record<string, unknown> | null | undefined
+): Record<string, unknown> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { [ACCESS_PASSWORD_METADATA_KEY]: _ignored, ...rest } = incoming;
+  const existingHash = getAccessPasswordHash(existing);
+
+  return existingHash
+    ? { ...rest, [ACCESS_PASSWORD_METADATA_KEY]: existingHash }
+    : rest;
+}
+
+// Cookie names cannot contain every slug character, so use a short digest
+export function getAccessCookieName(slug: string): string {
+  const digest = createHash('sha256').update(slug).digest('hex').slice(0, 16);
+  return `${ACCESS_COOKIE_PREFIX}${digest}`;
+}
+
+function signAccessToken(slug: string, passwordHash: string, expiresAt: number): string {
+  return createHmac('sha256', getAccessSecret())
+    .update(`${slug}:${expiresAt}:${passwordHash}`)
+    .digest('hex');
+}
+
+// Create a signed `<expiresAt>.<signature>` token for an unlocked slug
+export function createAccessToken(slug: string, passwordHash: string): string {
+  const expiresAt = Date.now() + ACCESS_COOKIE_MAX_AGE * 1000;
+  return `${expiresAt}.${signAccessToken(slug, passwordHash, expiresAt)}`;
+}
+
+// Validate an unlock cookie for a slug
+export function verifyAccessToken(slug: string, passwordHash: string, token: string | undefined): boolean {
+  if (!token) return false;
+
+  const [expiresAtValue, signature] = token.split('.');
+  const expiresAt = Number(expiresAtValue);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signAccessToken(slug, passwordHash, expiresAt), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,62 @@
+import type { ApiTokenScope } from '@/lib/auth-constants';
+
+/**
+ * ROLES AND PERMISSIONS
+ *
+ * Shared by API route guards and the admin UI. Owners and admins have the
+ * same permissions, but only owners can grant the owner role or change an
+ * existing owner.
+ */
+
+export const USER_ROLES = ['owner', 'admin', 'editor', 'analyst', 'viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  'content:read',
+  'content:write',
+  'analytics:read',
+  'users:read',
+  'users:manage',
+  'settings:manage',
+  'audit:read',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS,
+  editor: ['content:read', 'content:write', 'analytics:read'],
+  analyst: ['content:read', 'analytics:read'],
+  viewer: ['content:read'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  editor: 'Editor',
+  analyst: 'Analyst',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  owner: 'Full access, including managing other owners',
+  admin: 'Full access except owner accounts',
+  editor: 'Create and edit content, view analytics',
+  analyst: 'View content and analytics',
+  viewer: 'View content only',
+};
+
+// API token scope that may stand in for a session for each permission
+export const PERMISSION_TOKEN_SCOPES: Partial<Record<Permission, ApiTokenScope>> = {
+  'content:read': 'links:read',
+  'content:write': 'links:write',
+  'analytics:read': 'analytics:read',
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isUserRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,132 @@
+import { db } from '@/lib/db';
+import { rateLimits } from '@/lib/db/schema';
+import { eq, lt, sql } from 'drizzle-orm';
+
+/**
+ * RATE LIMIT STORES
+ *
+ * Fixed-window counters. The memory store is per process and capped in
+ * size, which is enough for a single instance; the database store is shared by every replica.
+ * Anything else (Redis, a KV service) can be plugged in by implementing
+ * RateLimitStore and passing it to RateLimitService.setStore().
+ */
+
+export interface RateLimitCounter {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Count one hit; starts a new window when the current one has ended
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  // Current window without counting a hit (null when there is none)
+  get(key: string): Promise<RateLimitCounter | null>;
+  reset(key: string): Promise<void>;
+}
+
+// Expired windows are swept at most this often
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+// Counters kept by the memory store; the oldest windows are dropped beyond this
+const MAX_MEMORY_COUNTERS = 10_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private counters = new Map<string, RateLimitCounter>();
+  private lastCleanup = Date.now();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    this.cleanup(now);
+
+    const current = this.counters.get(key);
+    if (current && current.resetAt.getTime() > now) {
+      const counter = { count: current.count + 1, resetAt: current.resetAt };
+      this.counters.set(key, counter);
+      return counter;
+    }
+
+    // Re-insert new windows so the map stays ordered by window start
+    const counter = { count: 1, resetAt: new Date(now + windowMs) };
+    this.counters.delete(key);
+    this.evictOldest();
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt.getTime() > Date.now() ? counter : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  // Make room for one more counter; many distinct keys (e.g. spoofed addresses) must not exhaust memory
+  private evictOldest(): void {
+    while (this.counters.size >= MAX_MEMORY_COUNTERS) {
+      const oldest = this.counters.keys().next().value;
+      if (oldest === undefined) return;
+      this.counters.delete(oldest);
+    }
+  }
+
+  private cleanup(now: number): void {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanup = now;
+
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt.getTime() <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+export class DatabaseRateLimitStore implements RateLimitStore {
+  readonly name = 'database';
+  private lastCleanup = Date.now();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = new Date();
+    await this.cleanup(now);
+
+    // Single upsert so concurrent hits on different replicas cannot lose counts
+    const [counter] = await db
+      .insert(rateLimits)
+      .values({ key, count: 1, reset_at: new Date(now.getTime() + windowMs) })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`case when ${rateLimits.reset_at} <= ${now} then 1 else ${rateLimits.count} + 1 end`,
+          reset_at: sql`case when ${rateLimits.reset_at} <= ${now} then excluded.reset_at else ${rateLimits.reset_at} end`,
+        },
+      })
+      .returning({ count: rateLimits.count, resetAt: rateLimits.reset_at });
+
+    return counter;
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const [counter] = await db
+      .select({ count: rateLimits.count, resetAt: rateLimits.reset_at })
+      .from(rateLimits)
+      .where(eq(rateLimits.key, key))
+      .limit(1);
+
+    return counter && counter.resetAt.getTime() > Date.now() ? counter : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    await db.delete(rateLimits).where(eq(rateLimits.key, key));
+  }
+
+  private async cleanup(now: Date): Promise<void> {
+    if (now.getTime() - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanup = now.getTime();
+
+    await db.delete(rateLimits).where(lt(rateLimits.reset_at, now));
+  }
+}
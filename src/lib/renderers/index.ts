@@ -1,4 +1,11 @@
 import { ContentBlock } from '@/lib/db/unified-schema';
+import type {
+  RedirectRule,
+  RedirectRuleDevice,
+  RedirectRuleType,
+  RedirectUtmParams,
+  RedirectVariant,
+} from '@/lib/db/schema';
 
 /**
  * UNIFIED RENDERER SYSTEM
@@ -43,11 +50,35 @@ export interface RenderContext {
   referrer?: string;
   ipAddress?: string;
   isPreview?: boolean;
+  now?: Date;
+  clickCount?: number; // Successful redirects so far, used for click caps
+  country?: string; // ISO country code of the visitor, used by country rules
+  acceptLanguage?: string; // Accept-Language header, used by language rules
+  visitorId?: string; // Anonymous visitor cookie, keeps A/B assignment sticky
+  searchParams?: URLSearchParams; // Incoming query string, merged when passthrough is enabled
 }
 
+// Rule that decided the destination of a redirect
+export interface MatchedRedirectRule {
+  id: string;
+  type: RedirectRuleType;
+  label?: string;
+}
+
+// Why a redirect is not currently resolving
+export type RedirectUnavailableReason = 'scheduled' | 'expired' | 'click_limit';
+
 // Render result types
 export type RenderResult = 
-  | { type: 'redirect'; url: string; statusCode?: number }
+  | {
+      type: 'redirect';
+      url: string;
+      statusCode?: number;
+      fallbackReason?: RedirectUnavailableReason;
+      matchedRule?: MatchedRedirectRule;
+      variant?: { id: string; label?: string };
+    }
+  | { type: 'unavailable'; reason: RedirectUnavailableReason; message: string; activateAt?: string }
   | { type: 'component'; component: React.ReactNode; metadata?: BlockMetadata }
   | { type: 'json'; data: Record<string, unknown>; metadata?: BlockMetadata }
   | { type: 'error'; message: string; statusCode?: number };
@@ -69,14 +100,240 @@ export interface BlockMetadata {
   schemaOrg?: Record<string, unknown>;
 }
 
+/**
+ * REDIRECT AVAILABILITY
+ * 
+ * Checks scheduled activation, expiry and click caps for a redirect.
+ * Returns null when the link should resolve normally.
+ */
+export function getRedirectAvailability(
+  data: Record<string, unknown>,
+  context: Pick<RenderContext, 'now' | 'clickCount'> = {}
+): RedirectUnavailableReason | null {
+  const now = context.now || new Date();
+
+  if (typeof data.activate_at === 'string' && data.activate_at) {
+    const activateAt = new Date(data.activate_at);
+    if (!isNaN(activateAt.getTime()) && now < activateAt) {
+      return 'scheduled';
+    }
+  }
+
+  if (typeof data.expires_at === 'string' && data.expires_at) {
+    const expiresAt = new Date(data.expires_at);
+    if (!isNaN(expiresAt.getTime()) && now >= expiresAt) {
+      return 'expired';
+    }
+  }
+
+  const maxClicks = Number(data.max_clicks);
+  if (maxClicks > 0 && context.clickCount !== undefined && context.clickCount >= maxClicks) {
+    return 'click_limit';
+  }
+
+  return null;
+}
+
+const UNAVAILABLE_MESSAGES: Record<RedirectUnavailableReason, string> = {
+  scheduled: 'This link is not active yet',
+  expired: 'This link has expired',
+  click_limit: 'This link is no longer available',
+};
+
+/**
+ * Classify a user agent into the device values redirect rules can target
+ */
+export function detectDevices(userAgent?: string): RedirectRuleDevice[] {
+  if (!userAgent) return ['desktop'];
+
+  if (/iPhone|iPad|iPod/i.test(userAgent)) {
+    return ['ios', 'mobile'];
+  }
+  if (/Android/i.test(userAgent)) {
+    return ['android', 'mobile'];
+  }
+  if (/Mobile|Opera Mini|IEMobile|BlackBerry/i.test(userAgent)) {
+    return ['mobile'];
+  }
+  return ['desktop'];
+}
+
+/**
+ * Parse an Accept-Language header into language tags ordered by preference
+ */
+export function parseAcceptLanguage(header?: string): string[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.find((param) => param.trim().startsWith('q='));
+      const quality = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+      return { tag: tag.trim().toLowerCase(), quality: isNaN(quality) ? 0 : quality };
+    })
+    .filter((entry) => entry.tag && entry.tag !== '*' && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+    .map((entry) => entry.tag);
+}
+
+/**
+ * REDIRECT RULES
+ * 
+ * Returns the first rule matching the visitor, or null to use the default URL.
+ */
+export function matchRedirectRule(
+  rules: RedirectRule[] | undefined,
+  context: Pick<RenderContext, 'userAgent' | 'country' | 'acceptLanguage'> = {}
+): RedirectRule | null {
+  if (!Array.isArray(rules) || rules.length === 0) return null;
+
+  const devices = detectDevices(context.userAgent);
+  const country = context.country?.toUpperCase();
+  const languages = parseAcceptLanguage(context.acceptLanguage);
+
+  for (const rule of rules) {
+    if (!rule?.url || !Array.isArray(rule.values) || rule.values.length === 0) continue;
+
+    const values = rule.values.map((value) => value.trim().toLowerCase()).filter(Boolean);
+
+    switch (rule.type) {
+      case 'device':
+        if (devices.some((device) => values.includes(device))) return rule;
+        break;
+      case 'country':
+        if (country && values.includes(country.toLowerCase())) return rule;
+        break;
+      case 'language':
+        // Prefix match so 'fr' covers 'fr-FR' and 'fr-CA'
+        if (languages.some((language) => values.some((value) => language.startsWith(value)))) return rule;
+        break;
+    }
+  }
+
+  return null;
+}
+
+// 32-bit FNV-1a hash, stable across requests and runtimes
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A/B VARIANTS
+ * 
+ * Picks a weighted variant. With a visitor ID the pick is deterministic per
+ * block, so returning visitors see the same variant while weights are unchanged.
+ */
+export function pickRedirectVariant(
+  variants: RedirectVariant[] | undefined,
+  blockId: string,
+  visitorId?: string
+): RedirectVariant | null {
+  if (!Array.isArray(variants)) return null;
+
+  const candidates = variants.filter((variant) => variant?.url && Number(variant.weight) > 0);
+  const totalWeight = candidates.reduce((sum, variant) => sum + Number(variant.weight), 0);
+  if (candidates.length === 0 || totalWeight <= 0) return null;
+
+  const bucket = visitorId
+    ? (hashString(`${blockId}:${visitorId}`) / 0x100000000) * totalWeight
+    : Math.random() * totalWeight;
+
+  let cumulative = 0;
+  for (const variant of candidates) {
+    cumulative += Number(variant.weight);
+    if (bucket < cumulative) return variant;
+  }
+
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * DESTINATION QUERY PARAMETERS
+ * 
+ * Builds the final destination URL from three layers:
+ * 1. Parameters already in the destination URL
+ * 2. Default UTM parameters from the UTM builder (override layer 1)
+ * 3. The visitor's query parameters, when passthrough is enabled
+ * 
+ * `query_precedence` decides conflicts between the link (layers 1-2) and the
+ * visitor (layer 3): 'link' keeps the configured values, 'incoming' lets the
+ * visitor's values replace them.
+ */
+export function buildDestinationUrl(
+  url: string,
+  data: Record<string, unknown>,
+  searchParams?: URLSearchParams
+): string {
+  const utm = (data.utm || {}) as RedirectUtmParams;
+  const utmEntries = Object.entries(utm).filter(([, value]) => typeof value === 'string' && value.trim());
+  const incoming = data.query_passthrough && searchParams ? Array.from(searchParams.keys()) : [];
+
+  if (utmEntries.length === 0 && incoming.length === 0) {
+    return url;
+  }
+
+  let destination: URL;
+  try {
+    destination = new URL(url);
+  } catch {
+    // Leave malformed URLs to the caller's validation
+    return url;
+  }
+
+  for (const [key, value] of utmEntries) {
+    destination.searchParams.set(`utm_${key}`, (value as string).trim());
+  }
+
+  if (incoming.length > 0 && searchParams) {
+    const incomingWins = data.query_precedence === 'incoming';
+    for (const key of Array.from(new Set(incoming))) {
+      if (destination.searchParams.has(key) && !incomingWins) continue;
+
+      destination.searchParams.delete(key);
+      for (const value of searchParams.getAll(key)) {
+        destination.searchParams.append(key, value);
+      }
+    }
+  }
+
+  return destination.toString();
+}
+
 /**
  * REDIRECT RENDERER
  * 
  * Handles URL shortener functionality with ultra-fast redirects
  */
 export class RedirectRenderer implements BlockRenderer {
-  async render(block: ContentBlock): Promise<RenderResult> {
+  async render(block: ContentBlock, context?: RenderContext): Promise<RenderResult> {
     const data = block.data as Record<string, unknown>;
+
+    // Enforce scheduling and click caps before resolving the destination
+    const unavailableReason = getRedirectAvailability(data, context);
+    if (unavailableReason) {
+      if (typeof data.fallback_url === 'string' && data.fallback_url) {
+        return {
+          type: 'redirect',
+          url: data.fallback_url,
+          statusCode: 302, // Never cache a fallback permanently
+          fallbackReason: unavailableReason,
+        };
+      }
+
+      return {
+        type: 'unavailable',
+        reason: unavailableReason,
+        message: UNAVAILABLE_MESSAGES[unavailableReason],
+        activateAt: unavailableReason === 'scheduled' ? data.activate_at as string : undefined,
+      };
+    }
     
     // Handle malformed data structure where URL might be nested
     let url = data.url as string;
@@ -96,9 +353,31 @@ export class RedirectRenderer implements BlockRenderer {
       return { type: 'error', message: 'Redirect URL not found', statusCode: 404 };
     }
 
+    // Device, country and language rules override the default destination
+    const rule = matchRedirectRule(data.rules as RedirectRule[] | undefined, context);
+    if (rule) {
+      return {
+        type: 'redirect',
+        url: buildDestinationUrl(rule.url, data, context?.searchParams),
+        statusCode: 302, // Destination depends on the visitor, so never cache permanently
+        matchedRule: { id: rule.id, type: rule.type, label: rule.label },
+      };
+    }
+
+    // Split remaining traffic between weighted A/B destinations
+    const variant = pickRedirectVariant(data.variants as RedirectVariant[] | undefined, block.id, context?.visitorId);
+    if (variant) {
+      return {
+        type: 'redirect',
+        url: buildDestinationUrl(variant.url, data, context?.searchParams),
+        statusCode: 302, // Destination depends on the visitor, so never cache permanently
+        variant: { id: variant.id, label: variant.label },
+      };
+    }
+
     return {
       type: 'redirect',
-      url: url,
+      url: buildDestinationUrl(url, data, context?.searchParams),
       statusCode: statusCode || 302,
     };
   }
@@ -0,0 +1,78 @@
+import { BlockList, isIP } from 'net';
+
+// Reverse proxies in front of the app that append to x-forwarded-for (TRUSTED_PROXY_HOPS, default 1)
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+// Client address as reported by the proxy in front of the app
+// Each trusted proxy appends the address it received the request from, so the
+// client is the entry that many places from the right; anything further left
+// was sent by the client and can be forged.
+export function getClientIp(request: Request): string | null {
+  return getClientIpFromHeaders(request.headers);
+}
+
+// Same as getClientIp, for server components that only have the request headers
+export function getClientIpFromHeaders(headers: Pick<Headers, 'get'>): string | null {
+  const hops = getTrustedProxyHops();
+  const forwarded = hops > 0
+    ? (headers.get('x-forwarded-for') || '').split(',').map((entry) => entry.trim()).filter(Boolean)
+    : [];
+  const ip = forwarded.length > 0
+    ? forwarded[Math.max(0, forwarded.length - hops)]
+    : headers.get('x-real-ip') || '';
+  return ip.slice(0, 45) || null;
+}
+
+// Ranges that never map to a location: RFC 1918, CGNAT, loopback, link-local and unique-local IPv6
+const NON_PUBLIC_RANGES = new BlockList();
+NON_PUBLIC_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+NON_PUBLIC_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+NON_PUBLIC_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+NON_PUBLIC_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+NON_PUBLIC_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+NON_PUBLIC_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+NON_PUBLIC_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+NON_PUBLIC_RANGES.addAddress('::', 'ipv6');
+NON_PUBLIC_RANGES.addAddress('::1', 'ipv6');
+NON_PUBLIC_RANGES.addSubnet('fc00::', 7, 'ipv6');
+NON_PUBLIC_RANGES.addSubnet('fe80::', 10, 'ipv6');
+
+// Plain address without an IPv4-mapped IPv6 prefix (::ffff:1.2.3.4), or null when invalid
+export function normalizeIp(ip: string): string | null {
+  const address = ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+  return isIP(address) ? address : null;
+}
+
+// Whether an address is private, local or otherwise not routable on the internet
+export function isPrivateIp(ip: string): boolean {
+  const address = normalizeIp(ip);
+  if (!address) {
+    return true;
+  }
+  return NON_PUBLIC_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Network part of an address: IPv4 keeps the first 24 bits, IPv6 the first 48
+export function truncateIp(ip: string): string | null {
+  const address = normalizeIp(ip);
+  if (!address) {
+    return null;
+  }
+
+  if (isIP(address) === 4) {
+    return address.replace(/\.\d+$/, '.0');
+  }
+
+  // Expand "::" so the first three groups are known; an embedded IPv4 tail counts as two groups
+  const [head, tail] = address.split('::');
+  const groups = head ? head.split(':') : [];
+  if (tail !== undefined) {
+    const tailGroups = tail ? tail.split(':').flatMap((group) => group.includes('.') ? ['0', '0'] : [group]) : [];
+    groups.push(...Array(8 - groups.length - tailGroups.length).fill('0'), ...tailGroups);
+  }
+
+  return `${groups.slice(0, 3).map((group) => parseInt(group, 16).toString(16)).join(':')}::`;
+}
@@ -1,6 +1,10 @@
 import { db } from '@/lib/db';
 import { clicks, contentBlocks } from '@/lib/db/schema';
-import { eq, desc, count, sql, and, gte, lte } from 'drizzle-orm';
+import { eq, desc, count, sql, and, gte, lte, inArray, type AnyColumn, type SQL } from 'drizzle-orm';
+import { userAgentColumns } from '@/lib/user-agent';
+import { PrivacyService } from '@/lib/services/privacy-service';
+import { ClickRollupService } from '@/lib/services/click-rollup-service';
+import { isVisitClick } from '@/lib/analytics/click-rollups';
 
 export interface AnalyticsData {
   totalClicks: number;
@@ -11,6 +15,10 @@ export interface AnalyticsData {
   clickTrends: TrendData[];
   topLinks: TopLinkData[];
   clicksByCountry: CountryData[];
+  clicksByDevice: BreakdownData[];
+  clicksByBrowser: BreakdownData[];
+  clicksByOs: BreakdownData[];
+  botClicks: number; // Excluded from the other figures unless bots are included
   topLinksForChart: TopLinkData[];
 }
 
@@ -21,6 +29,8 @@ export interface ClickData {
   linkTitle: string;
   referrer?: string;
   country?: string;
+  region?: string;
+  city?: string;
   ipAddress?: string;
   userAgent?: string;
 }
@@ -43,6 +53,28 @@ export interface CountryData {
   clicks: number;
 }
 
+export interface BreakdownData {
+  name: string;
+  clicks: number;
+}
+
+// Clicks by the UTM parameters of the visited URL
+export interface UtmBreakdown {
+  source: BreakdownData[];
+  medium: BreakdownData[];
+  campaign: BreakdownData[];
+}
+
+export interface VariantStats {
+  variantId: string;
+  label: string;
+  url: string;
+  weight: number;
+  clicks: number;
+  uniqueVisitors: number;
+  share: number; // Percentage of all variant clicks
+}
+
 export interface DateRange {
   start: Date;
   end: Date;
@@ -117,6 +149,14 @@ const COUNTRY_NAMES: Record<string, string> = {
   'IS': 'Iceland',
 };
 
+// Chart labels for the device_type column
+const DEVICE_LABELS: Record<string, string> = {
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+  desktop: 'Desktop',
+  bot: 'Bot',
+};
+
 function getCountryName(countryCode: string): string {
   return COUNTRY_NAMES[countryCode.toUpperCase()] || countryCode;
 }
@@ -124,12 +164,13 @@ function getCountryName(countryCode: string): string {
 /**
  * Analytics service for optimized data retrieval and aggregation
  * Updated for unified content_blocks architecture
+ * Click counts come from the hourly and daily rollups (see ClickRollupService)
  */
 export class AnalyticsService {
   /**
    * Get comprehensive dashboard data with parallel execution
    */
-  static async getDashboardData(dateRange?: DateRange): Promise<AnalyticsData> {
+  static async getDashboardData(dateRange?: DateRange, includeBots = false): Promise<AnalyticsData> {
     try {
       // Execute all queries in parallel for optimal performance
       const [
@@ -141,17 +182,25 @@ export class AnalyticsService {
         clickTrends,
         topLinks,
         clicksByCountry,
+        clicksByDevice,
+        clicksByBrowser,
+        clicksByOs,
+        botClicks,
         topLinksForChart,
       ] = await Promise.all([
-        this.getTotalClicks(dateRange),
+        this.getTotalClicks(dateRange, includeBots),
         this.getTotalLinks(),
         this.getActiveLinks(),
-        this.getUniqueVisitors(dateRange),
-        this.getRecentClicks(20, dateRange),
-        this.getClickTrends(dateRange),
-        this.getTopLinks(10, dateRange),
-        this.getClicksByCountry(dateRange),
-        this.getTopLinks(5, dateRange), // For chart rendering
+        this.getUniqueVisitors(dateRange, includeBots),
+        this.getRecentClicks(20, dateRange, includeBots),
+        this.getClickTrends(dateRange, includeBots),
+        this.getTopLinks(10, dateRange, includeBots),
+        this.getClicksByCountry(dateRange, includeBots),
+        this.getClicksByDevice(dateRange, includeBots),
+        this.getClicksByBrowser(dateRange, includeBots),
+        this.getClicksByOs(dateRange, includeBots),
+        this.getBotClicks(dateRange),
+        this.getTopLinks(5, dateRange, includeBots), // For chart rendering
       ]);
 
       return {
@@ -163,6 +212,10 @@ export class AnalyticsService {
         clickTrends,
         topLinks,
         clicksByCountry,
+        clicksByDevice,
+        clicksByBrowser,
+        clicksByOs,
+        botClicks,
         topLinksForChart,
       };
     } catch {
@@ -173,21 +226,17 @@ export class AnalyticsService {
   /**
    * Get total clicks count
    */
-  static async getTotalClicks(dateRange?: DateRange): Promise<number> {
+  static async getTotalClicks(dateRange?: DateRange, includeBots = false, blockId?: string): Promise<number> {
     try {
-      const whereClause = dateRange 
-        ? and(
-            gte(clicks.timestamp, dateRange.start),
-            lte(clicks.timestamp, dateRange.end),
-          )
-        : undefined;
-
-      const result = await db
-        .select({ count: count() })
-        .from(clicks)
-        .where(whereClause);
+      const rows = await ClickRollupService.countClicks({
+        dimension: 'total',
+        groupBy: [],
+        dateRange,
+        bots: includeBots ? 'include' : 'exclude',
+        blockId,
+      });
 
-      return result[0]?.count || 0;
+      return rows.reduce((sum, row) => sum + row.clicks, 0);
     } catch {
       return 0;
     }
@@ -232,18 +281,15 @@ export class AnalyticsService {
 
   /**
    * Get unique visitors count
+   * Visitor IDs rotate daily, so a visitor is counted once per day they clicked.
+   * Clicks recorded before visitor IDs existed fall back to their IP address.
    */
-  static async getUniqueVisitors(dateRange?: DateRange): Promise<number> {
+  static async getUniqueVisitors(dateRange?: DateRange, includeBots = false, blockId?: string): Promise<number> {
     try {
-      const whereClause = dateRange 
-        ? and(
-            gte(clicks.timestamp, dateRange.start),
-            lte(clicks.timestamp, dateRange.end),
-          )
-        : undefined;
+      const whereClause = this.clickFilter(dateRange, includeBots, blockId);
 
       const result = await db
-        .select({ count: count(sql`DISTINCT ${clicks.ip_address}`) })
+        .select({ count: count(sql`DISTINCT COALESCE(${clicks.visitor_hash}, ${clicks.ip_address})`) })
         .from(clicks)
         .where(whereClause);
 
@@ -256,14 +302,9 @@ export class AnalyticsService {
   /**
    * Get recent clicks with content block information
    */
-  static async getRecentClicks(limit: number = 20, dateRange?: DateRange): Promise<ClickData[]> {
+  static async getRecentClicks(limit: number = 20, dateRange?: DateRange, includeBots = false, blockId?: string): Promise<ClickData[]> {
     try {
-      const whereClause = dateRange 
-        ? and(
-            gte(clicks.timestamp, dateRange.start),
-            lte(clicks.timestamp, dateRange.end),
-          )
-        : undefined;
+      const whereClause = this.clickFilter(dateRange, includeBots, blockId);
 
       const result = await db
         .select({
@@ -273,6 +314,8 @@ export class AnalyticsService {
           linkTitle: sql<string>`COALESCE(${contentBlocks.data}->>'title', ${contentBlocks.slug})`,
           referrer: clicks.referrer,
           country: clicks.country,
+          region: clicks.region,
+          city: clicks.city,
           ipAddress: clicks.ip_address,
           userAgent: clicks.user_agent,
         })
@@ -289,6 +332,8 @@ export class AnalyticsService {
         linkTitle: row.linkTitle || row.linkSlug,
         referrer: row.referrer || undefined,
         country: row.country || undefined,
+        region: row.region || undefined,
+        city: row.city || undefined,
         ipAddress: row.ipAddress || undefined,
         userAgent: row.userAgent || undefined,
       }));
@@ -300,90 +345,47 @@ export class AnalyticsService {
   /**
    * Get click trends over time with individual link breakdown
    */
-  static async getClickTrends(dateRange?: DateRange): Promise<TrendData[]> {
+  static async getClickTrends(dateRange?: DateRange, includeBots = false): Promise<TrendData[]> {
     try {
       // Default to last 30 days if no range provided
       const endDate = dateRange?.end || new Date();
       const startDate = dateRange?.start || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
 
-      // Get overall clicks per day
-      const overallResult = await db
-        .select({
-          date: sql<string>`DATE(${clicks.timestamp})`,
-          clicks: count(),
-        })
-        .from(clicks)
-        .where(
-          and(
-            gte(clicks.timestamp, startDate),
-            lte(clicks.timestamp, endDate),
-          )
-        )
-        .groupBy(sql`DATE(${clicks.timestamp})`)
-        .orderBy(sql`DATE(${clicks.timestamp})`);
-
-      // Get clicks per day per link (top 5 links only to avoid clutter)
-      const linkResult = await db
-        .select({
-          date: sql<string>`DATE(${clicks.timestamp})`,
-          linkSlug: contentBlocks.slug,
-          linkTitle: sql<string>`COALESCE(${contentBlocks.data}->>'title', ${contentBlocks.slug})`,
-          clicks: count(),
-        })
-        .from(clicks)
-        .innerJoin(contentBlocks, eq(clicks.block_id, contentBlocks.id))
-        .where(
-          and(
-            gte(clicks.timestamp, startDate),
-            lte(clicks.timestamp, endDate),
-          )
-        )
-        .groupBy(sql`DATE(${clicks.timestamp})`, contentBlocks.id, contentBlocks.slug, contentBlocks.data)
-        .orderBy(sql`DATE(${clicks.timestamp})`, desc(count()));
+      // Clicks per day per block; the overall line and the top links are derived from it
+      const rows = await ClickRollupService.countClicks({
+        dimension: 'total',
+        groupBy: ['day', 'block'],
+        dateRange: { start: startDate, end: endDate },
+        bots: includeBots ? 'include' : 'exclude',
+      });
 
-      // Get top 5 links overall
-      const topLinksForPeriod = await db
-        .select({
-          linkSlug: contentBlocks.slug,
-          linkTitle: sql<string>`COALESCE(${contentBlocks.data}->>'title', ${contentBlocks.slug})`,
-          totalClicks: count(),
-        })
-        .from(clicks)
-        .innerJoin(contentBlocks, eq(clicks.block_id, contentBlocks.id))
-        .where(
-          and(
-            gte(clicks.timestamp, startDate),
-            lte(clicks.timestamp, endDate),
-          )
-        )
-        .groupBy(contentBlocks.id, contentBlocks.slug, contentBlocks.data)
-        .orderBy(desc(count()))
-        .limit(5);
+      // Top 5 links of the period get their own line (more would clutter the chart)
+      const clicksByBlock = new Map<string, number>();
+      rows.forEach(row => {
+        clicksByBlock.set(row.blockId!, (clicksByBlock.get(row.blockId!) || 0) + row.clicks);
+      });
+      const topBlockIds = Array.from(clicksByBlock.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([blockId]) => blockId);
+      const topBlocks = await this.getBlockSummaries(topBlockIds);
 
       // Create a map of dates to trend data
       const trendMap = new Map<string, TrendData>();
-      
-      // Initialize with overall clicks
-      overallResult.forEach(row => {
-        trendMap.set(row.date, {
-          date: row.date,
-          clicks: row.clicks,
-        });
-      });
 
-      // Add individual link data for top links only
-      linkResult.forEach(row => {
-        const isTopLink = topLinksForPeriod.some(topLink => topLink.linkSlug === row.linkSlug);
-        if (isTopLink) {
-          const existing = trendMap.get(row.date);
-          if (existing) {
-            existing[row.linkSlug] = row.clicks;
-          }
+      rows.forEach(row => {
+        const trend = trendMap.get(row.day!) || { date: row.day!, clicks: 0 };
+        trend.clicks += row.clicks;
+
+        const topBlock = topBlocks.get(row.blockId!);
+        if (topBlock) {
+          trend[topBlock.slug] = row.clicks;
         }
+        trendMap.set(row.day!, trend);
       });
 
       // Ensure all dates have data for all top links (fill with 0)
-      const topLinkSlugs = topLinksForPeriod.map(link => link.linkSlug);
+      const topLinkSlugs = Array.from(topBlocks.values()).map(block => block.slug);
       trendMap.forEach(trend => {
         topLinkSlugs.forEach(slug => {
           if (!(slug in trend)) {
@@ -401,104 +403,271 @@ export class AnalyticsService {
   /**
    * Get top performing content blocks (redirects)
    */
-  static async getTopLinks(limit: number = 10, dateRange?: DateRange): Promise<TopLinkData[]> {
+  static async getTopLinks(limit: number = 10, dateRange?: DateRange, includeBots = false): Promise<TopLinkData[]> {
     try {
-      const whereClause = dateRange 
-        ? and(
-            gte(clicks.timestamp, dateRange.start),
-            lte(clicks.timestamp, dateRange.end),
-          )
-        : undefined;
+      const rows = await ClickRollupService.countClicks({
+        dimension: 'total',
+        groupBy: ['block'],
+        dateRange,
+        bots: includeBots ? 'include' : 'exclude',
+      });
 
-      const result = await db
-        .select({
-          slug: contentBlocks.slug,
-          title: sql<string>`COALESCE(${contentBlocks.data}->>'title', ${contentBlocks.slug})`,
-          targetUrl: sql<string>`${contentBlocks.data}->>'target_url'`,
-          clicks: count(),
-        })
-        .from(clicks)
-        .innerJoin(contentBlocks, eq(clicks.block_id, contentBlocks.id))
-        .where(whereClause)
-        .groupBy(contentBlocks.id, contentBlocks.slug, contentBlocks.data)
-        .orderBy(desc(count()))
-        .limit(limit);
+      const top = rows.sort((a, b) => b.clicks - a.clicks).slice(0, limit);
+      const blocks = await this.getBlockSummaries(top.map(row => row.blockId!));
 
-      return result.map(row => ({
-        slug: row.slug,
-        title: row.title || row.slug,
-        targetUrl: row.targetUrl || '',
-        clicks: row.clicks,
-      }));
+      return top.flatMap(row => {
+        const block = blocks.get(row.blockId!);
+        return block ? [{
+          slug: block.slug,
+          title: block.title || block.slug,
+          targetUrl: block.targetUrl || '',
+          clicks: row.clicks,
+        }] : [];
+      });
     } catch {
       return [];
     }
   }
 
+  /**
+   * Get clicks per A/B variant of a redirect block
+   * Variants that were removed from the block but still have clicks are included.
+   */
+  static async getVariantReport(blockId: string, dateRange?: DateRange, includeBots = false): Promise<VariantStats[]> {
+    const [block] = await db
+      .select({ data: contentBlocks.data })
+      .from(contentBlocks)
+      .where(eq(contentBlocks.id, blockId))
+      .limit(1);
+
+    if (!block) {
+      throw new Error('Block not found');
+    }
+
+    const variantId = sql<string>`${clicks.metadata}->'variant'->>'id'`;
+    const conditions = [
+      eq(clicks.block_id, blockId),
+      sql`${clicks.metadata}->'variant'->>'id' IS NOT NULL`,
+      isVisitClick,
+    ];
+    if (dateRange) {
+      conditions.push(gte(clicks.timestamp, dateRange.start), lte(clicks.timestamp, dateRange.end));
+    }
+    if (!includeBots) {
+      conditions.push(eq(clicks.is_bot, false));
+    }
+
+    const rows = await db
+      .select({
+        variantId,
+        label: sql<string | null>`MAX(${clicks.metadata}->'variant'->>'label')`,
+        clicks: count(),
+        uniqueVisitors: count(sql`DISTINCT COALESCE(${clicks.visitor_hash}, ${clicks.ip_address})`),
+      })
+      .from(clicks)
+      .where(and(...conditions))
+      .groupBy(variantId);
+
+    const configured = ((block.data as Record<string, unknown>).variants || []) as {
+      id: string;
+      url: string;
+      weight: number;
+      label?: string;
+    }[];
+    const totalClicks = rows.reduce((sum, row) => sum + row.clicks, 0);
+    const statsById = new Map(rows.map(row => [row.variantId, row]));
+
+    const report: VariantStats[] = configured.map((variant, index) => {
+      const stats = statsById.get(variant.id);
+      statsById.delete(variant.id);
+      return {
+        variantId: variant.id,
+        label: variant.label || `Variant ${String.fromCharCode(65 + index)}`,
+        url: variant.url,
+        weight: variant.weight,
+        clicks: stats?.clicks || 0,
+        uniqueVisitors: stats?.uniqueVisitors || 0,
+        share: totalClicks > 0 ? Math.round(((stats?.clicks || 0) / totalClicks) * 1000) / 10 : 0,
+      };
+    });
+
+    // Keep history for variants that have since been removed
+    for (const row of Array.from(statsById.values())) {
+      report.push({
+        variantId: row.variantId,
+        label: row.label || 'Removed variant',
+        url: '',
+        weight: 0,
+        clicks: row.clicks,
+        uniqueVisitors: row.uniqueVisitors,
+        share: totalClicks > 0 ? Math.round((row.clicks / totalClicks) * 1000) / 10 : 0,
+      });
+    }
+
+    return report;
+  }
+
   /**
    * Get clicks by country
    */
-  static async getClicksByCountry(dateRange?: DateRange): Promise<CountryData[]> {
+  static async getClicksByCountry(dateRange?: DateRange, includeBots = false, blockId?: string): Promise<CountryData[]> {
     try {
-      const whereClause = dateRange 
-        ? and(
-            gte(clicks.timestamp, dateRange.start),
-            lte(clicks.timestamp, dateRange.end),
-          )
-        : undefined;
+      const rows = await ClickRollupService.countClicks({
+        dimension: 'country',
+        groupBy: ['value'],
+        dateRange,
+        bots: includeBots ? 'include' : 'exclude',
+        blockId,
+      });
 
-      const result = await db
-        .select({
-          country: clicks.country,
-          clicks: count(),
-        })
-        .from(clicks)
-        .where(
-          whereClause 
-            ? and(whereClause, sql`${clicks.country} IS NOT NULL`)
-            : sql`${clicks.country} IS NOT NULL`
-        )
-        .groupBy(clicks.country)
-        .orderBy(desc(count()))
-        .limit(20);
+      return rows
+        .filter(row => row.value)
+        .sort((a, b) => b.clicks - a.clicks)
+        .slice(0, 20)
+        .map(row => ({
+          country: getCountryName(row.value!),
+          clicks: row.clicks,
+        }));
+    } catch {
+      return [];
+    }
+  }
 
-      return result.map(row => ({
-        country: getCountryName(row.country || 'Unknown'),
-        clicks: row.clicks,
-      }));
+  /**
+   * Get clicks by device type (mobile, tablet, desktop)
+   */
+  static async getClicksByDevice(dateRange?: DateRange, includeBots = false, blockId?: string): Promise<BreakdownData[]> {
+    try {
+      const rows = await ClickRollupService.countClicks({
+        dimension: 'device',
+        groupBy: ['value'],
+        dateRange,
+        bots: includeBots ? 'include' : 'exclude',
+        blockId,
+      });
+
+      return rows
+        .sort((a, b) => b.clicks - a.clicks)
+        .map(row => ({ name: DEVICE_LABELS[row.value!] || 'Unknown', clicks: row.clicks }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get clicks by referrer domain; clicks without a referrer count as "Direct"
+   */
+  static async getTopReferrers(dateRange?: DateRange, includeBots = false, blockId?: string, limit = 10): Promise<BreakdownData[]> {
+    try {
+      const rows = await ClickRollupService.countClicks({
+        dimension: 'referrer',
+        groupBy: ['value'],
+        dateRange,
+        bots: includeBots ? 'include' : 'exclude',
+        blockId,
+      });
+
+      return rows
+        .sort((a, b) => b.clicks - a.clicks)
+        .slice(0, limit)
+        .map(row => ({ name: row.value || 'Direct', clicks: row.clicks }));
     } catch {
       return [];
     }
   }
 
+  /**
+   * Get clicks per day (UTC), for days with clicks
+   */
+  static async getDailyClicks(dateRange?: DateRange, includeBots = false, blockId?: string): Promise<TrendData[]> {
+    try {
+      const rows = await ClickRollupService.countClicks({
+        dimension: 'total',
+        groupBy: ['day'],
+        dateRange,
+        bots: includeBots ? 'include' : 'exclude',
+        blockId,
+      });
+
+      return rows
+        .map(row => ({ date: row.day!, clicks: row.clicks }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get clicks by UTM source, medium and campaign of the visited URL
+   * Not rolled up, so meant for a single block's clicks.
+   */
+  static async getUtmBreakdown(dateRange?: DateRange, includeBots = false, blockId?: string, limit = 10): Promise<UtmBreakdown> {
+    const breakdown = async (field: keyof UtmBreakdown): Promise<BreakdownData[]> => {
+      try {
+        // Inlined rather than bound, so the SELECT and GROUP BY expressions match
+        const name = sql<string>`${clicks.metadata}->'utm'->>${sql.raw(`'${field}'`)}`;
+        const result = await db
+          .select({ name, clicks: count() })
+          .from(clicks)
+          .where(and(this.clickFilter(dateRange, includeBots, blockId), sql`${name} IS NOT NULL`))
+          .groupBy(name)
+          .orderBy(desc(count()))
+          .limit(limit);
+
+        return result;
+      } catch {
+        return [];
+      }
+    };
+
+    const [source, medium, campaign] = await Promise.all([
+      breakdown('source'),
+      breakdown('medium'),
+      breakdown('campaign'),
+    ]);
+
+    return { source, medium, campaign };
+  }
+
+  /**
+   * Get clicks by browser family
+   */
+  static async getClicksByBrowser(dateRange?: DateRange, includeBots = false): Promise<BreakdownData[]> {
+    return this.getBreakdown(clicks.browser, dateRange, includeBots);
+  }
+
+  /**
+   * Get clicks by operating system
+   */
+  static async getClicksByOs(dateRange?: DateRange, includeBots = false): Promise<BreakdownData[]> {
+    return this.getBreakdown(clicks.os, dateRange, includeBots);
+  }
+
+  /**
+   * Get the number of clicks from crawlers and link-preview fetchers
+   */
+  static async getBotClicks(dateRange?: DateRange): Promise<number> {
+    try {
+      const rows = await ClickRollupService.countClicks({
+        dimension: 'total',
+        groupBy: [],
+        dateRange,
+        bots: 'only',
+      });
+
+      return rows.reduce((sum, row) => sum + row.clicks, 0);
+    } catch {
+      return 0;
+    }
+  }
+
   /**
    * Export analytics data to CSV format
    * Updated for content_blocks architecture
    */
-  static async exportToCSV(dateRange?: DateRange): Promise<string> {
+  static async exportToCSV(dateRange?: DateRange, blockId?: string): Promise<string> {
     try {
-      const whereClause = dateRange 
-        ? and(
-            gte(clicks.timestamp, dateRange.start),
-            lte(clicks.timestamp, dateRange.end),
-          )
-        : undefined;
-
-      const result = await db
-        .select({
-          timestamp: clicks.timestamp,
-          linkSlug: contentBlocks.slug,
-          linkTitle: sql<string>`COALESCE(${contentBlocks.data}->>'title', ${contentBlocks.slug})`,
-          targetUrl: sql<string>`${contentBlocks.data}->>'target_url'`,
-          referrer: clicks.referrer,
-          userAgent: clicks.user_agent,
-          ipAddress: clicks.ip_address,
-          country: clicks.country,
-        })
-        .from(clicks)
-        .innerJoin(contentBlocks, eq(clicks.block_id, contentBlocks.id))
-        .where(whereClause)
-        .orderBy(desc(clicks.timestamp));
+      const result = await this.getExportRows(dateRange, blockId);
 
       // Create CSV content
       const headers = [
@@ -511,6 +680,16 @@ export class AnalyticsService {
         'IP Address',
         'Country Code',
         'Country Name',
+        'Region',
+        'City',
+        'Browser',
+        'Browser Version',
+        'OS',
+        'Device Type',
+        'Bot',
+        'UTM Source',
+        'UTM Medium',
+        'UTM Campaign',
       ];
 
       const csvRows = [
@@ -525,6 +704,16 @@ export class AnalyticsService {
           `"${row.ipAddress || ''}"`,
           `"${row.country || ''}"`,
           `"${row.country ? getCountryName(row.country) : ''}"`,
+          `"${row.region || ''}"`,
+          `"${row.city || ''}"`,
+          `"${row.browser || ''}"`,
+          `"${row.browserVersion || ''}"`,
+          `"${row.os || ''}"`,
+          `"${row.deviceType || ''}"`,
+          row.isBot ? 'yes' : 'no',
+          `"${row.utmSource || ''}"`,
+          `"${row.utmMedium || ''}"`,
+          `"${row.utmCampaign || ''}"`,
         ].join(',')),
       ];
 
@@ -534,6 +723,25 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Export analytics data as JSON, one object per click
+   */
+  static async exportToJSON(dateRange?: DateRange, blockId?: string): Promise<string> {
+    try {
+      const result = await this.getExportRows(dateRange, blockId);
+
+      const rows = result.map(row => ({
+        ...row,
+        linkTitle: row.linkTitle || row.linkSlug,
+        countryName: row.country ? getCountryName(row.country) : null,
+      }));
+
+      return JSON.stringify(rows, null, 2);
+    } catch {
+      throw new Error('Failed to export analytics data');
+    }
+  }
+
   /**
    * Record a click event for a content block
    */
@@ -552,12 +760,116 @@ export class AnalyticsService {
         block_id: blockId,
         referrer: metadata.referrer,
         user_agent: metadata.userAgent,
-        ip_address: metadata.ipAddress,
+        ...await PrivacyService.getClickIdentity(metadata.ipAddress, metadata.userAgent),
         country: metadata.country,
-        metadata: metadata,
+        ...userAgentColumns(metadata.userAgent),
+        metadata: PrivacyService.stripRawMetadata(metadata),
       });
     } catch {
       // Don't throw - analytics shouldn't break the main flow
     }
   }
+
+  /**
+   * Clicks to export, newest first; the raw export includes bot traffic and flags it
+   */
+  private static async getExportRows(dateRange?: DateRange, blockId?: string) {
+    return db
+      .select({
+        timestamp: clicks.timestamp,
+        linkSlug: contentBlocks.slug,
+        linkTitle: sql<string>`COALESCE(${contentBlocks.data}->>'title', ${contentBlocks.slug})`,
+        targetUrl: sql<string | null>`${contentBlocks.data}->>'target_url'`,
+        referrer: clicks.referrer,
+        userAgent: clicks.user_agent,
+        ipAddress: clicks.ip_address,
+        country: clicks.country,
+        region: clicks.region,
+        city: clicks.city,
+        browser: clicks.browser,
+        browserVersion: clicks.browser_version,
+        os: clicks.os,
+        deviceType: clicks.device_type,
+        isBot: clicks.is_bot,
+        utmSource: sql<string | null>`${clicks.metadata}->'utm'->>'source'`,
+        utmMedium: sql<string | null>`${clicks.metadata}->'utm'->>'medium'`,
+        utmCampaign: sql<string | null>`${clicks.metadata}->'utm'->>'campaign'`,
+      })
+      .from(clicks)
+      .innerJoin(contentBlocks, eq(clicks.block_id, contentBlocks.id))
+      .where(this.clickFilter(dateRange, true, blockId))
+      .orderBy(desc(clicks.timestamp));
+  }
+
+  /**
+   * Slug, title and target of blocks by ID, for labelling rolled-up counts
+   */
+  private static async getBlockSummaries(blockIds: string[]): Promise<Map<string, { slug: string; title: string; targetUrl: string | null }>> {
+    if (blockIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db
+      .select({
+        id: contentBlocks.id,
+        slug: contentBlocks.slug,
+        title: sql<string>`COALESCE(${contentBlocks.data}->>'title', ${contentBlocks.slug})`,
+        targetUrl: sql<string | null>`${contentBlocks.data}->>'target_url'`,
+      })
+      .from(contentBlocks)
+      .where(inArray(contentBlocks.id, blockIds));
+
+    return new Map(rows.map(row => [row.id, row]));
+  }
+
+  /**
+   * WHERE clause for visits in a date range (of one block), leaving out bots unless asked to
+   * Password prompts, unlock attempts and unavailable-link hits are never counted.
+   */
+  private static clickFilter(dateRange?: DateRange, includeBots = false, blockId?: string): SQL {
+    const conditions: SQL[] = [isVisitClick];
+
+    if (blockId) {
+      conditions.push(eq(clicks.block_id, blockId));
+    }
+    if (dateRange) {
+      conditions.push(gte(clicks.timestamp, dateRange.start), lte(clicks.timestamp, dateRange.end));
+    }
+    if (!includeBots) {
+      conditions.push(eq(clicks.is_bot, false));
+    }
+
+    return and(...conditions)!;
+  }
+
+  /**
+   * Clicks grouped by a parsed user-agent column; unparsed rows count as "Unknown"
+   */
+  private static async getBreakdown(
+    column: AnyColumn,
+    dateRange?: DateRange,
+    includeBots = false,
+    limit = 10
+  ): Promise<BreakdownData[]> {
+    try {
+      const name = sql<string>`COALESCE(${column}, 'unknown')`;
+      const result = await db
+        .select({
+          name,
+          clicks: count(),
+        })
+        .from(clicks)
+        .where(this.clickFilter(dateRange, includeBots))
+        .groupBy(name)
+        .orderBy(desc(count()))
+        .limit(limit);
+
+      return result.map(row => ({
+        name: row.name === 'unknown' ? 'Unknown' : row.name,
+        clicks: row.clicks,
+      }));
+    } catch {
+      return [];
+    }
+  }
 }
\ No newline at end of file
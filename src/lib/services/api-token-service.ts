@@ -0,0 +1,181 @@
+import { db } from '@/lib/db';
+import { apiTokens, users } from '@/lib/db/schema';
+import { eq, and, desc, isNull, or, gt, lt } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
+import { z } from 'zod';
+import type { ApiToken } from '@/lib/db/schema';
+import { API_TOKEN_PREFIX, API_TOKEN_SCOPES, ApiTokenScope } from '@/lib/auth-constants';
+
+/**
+ * API TOKEN SERVICE
+ *
+ * Personal tokens for scripts and CI. The plain token is returned once on
+ * creation; only its SHA-256 hash is stored, which is enough for random
+ * 256-bit secrets and keeps lookups to a single indexed query.
+ */
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Select at least one scope'),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+export type CreateApiTokenData = z.infer<typeof createApiTokenSchema>;
+
+export interface ApiTokenUser {
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  is_active: boolean;
+  token_id: string;
+  scopes: ApiTokenScope[];
+}
+
+// Avoid a write on every request from busy scripts
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export class ApiTokenService {
+  /**
+   * Create a token; the returned `token` is never retrievable again
+   */
+  static async createToken(userId: string, data: CreateApiTokenData): Promise<{ token: string; apiToken: ApiToken }> {
+    const validatedData = createApiTokenSchema.parse(data);
+
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('hex')}`;
+    const expiresAt = validatedData.expiresInDays
+      ? new Date(Date.now() + validatedData.expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const [apiToken] = await db
+      .insert(apiTokens)
+      .values({
+        user_id: userId,
+        name: validatedData.name,
+        token_hash: this.hashToken(token),
+        token_prefix: token.slice(0, API_TOKEN_PREFIX.length + 8),
+        scopes: [...new Set(validatedData.scopes)],
+        expires_at: expiresAt,
+      })
+      .returning();
+
+    return { token, apiToken: this.toApiToken(apiToken) };
+  }
+
+  /**
+   * List a user's tokens, newest first (revoked tokens included)
+   */
+  static async listTokens(userId: string): Promise<ApiToken[]> {
+    const tokens = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.user_id, userId))
+      .orderBy(desc(apiTokens.created_at));
+
+    return tokens.map((token) => this.toApiToken(token));
+  }
+
+  /**
+   * Revoke one of a user's tokens
+   */
+  static async revokeToken(userId: string, tokenId: string): Promise<void> {
+    const [revoked] = await db
+      .update(apiTokens)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(apiTokens.id, tokenId),
+        eq(apiTokens.user_id, userId),
+        isNull(apiTokens.revoked_at)
+      ))
+      .returning({ id: apiTokens.id });
+
+    if (!revoked) {
+      throw new Error('Token not found');
+    }
+  }
+
+  /**
+   * Revoke every active token of a user
+   */
+  static async revokeAllForUser(userId: string): Promise<number> {
+    const revoked = await db
+      .update(apiTokens)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(apiTokens.user_id, userId), isNull(apiTokens.revoked_at)))
+      .returning({ id: apiTokens.id });
+
+    return revoked.length;
+  }
+
+  /**
+   * Resolve a bearer token to its (active) user and scopes
+   */
+  static async validateToken(token: string): Promise<ApiTokenUser | null> {
+    if (!token.startsWith(API_TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const now = new Date();
+    const [result] = await db
+      .select({
+        token_id: apiTokens.id,
+        scopes: apiTokens.scopes,
+        last_used_at: apiTokens.last_used_at,
+        user_id: users.id,
+        email: users.email,
+        name: users.name,
+        role: users.role,
+        is_active: users.is_active,
+      })
+      .from(apiTokens)
+      .innerJoin(users, eq(apiTokens.user_id, users.id))
+      .where(and(
+        eq(apiTokens.token_hash, this.hashToken(token)),
+        isNull(apiTokens.revoked_at),
+        or(isNull(apiTokens.expires_at), gt(apiTokens.expires_at, now)),
+        eq(users.is_active, true)
+      ))
+      .limit(1);
+
+    if (!result) {
+      return null;
+    }
+
+    if (!result.last_used_at || now.getTime() - result.last_used_at.getTime() > LAST_USED_RESOLUTION_MS) {
+      await db
+        .update(apiTokens)
+        .set({ last_used_at: now })
+        .where(and(
+          eq(apiTokens.id, result.token_id),
+          or(isNull(apiTokens.last_used_at), lt(apiTokens.last_used_at, new Date(now.getTime() - LAST_USED_RESOLUTION_MS)))
+        ));
+    }
+
+    return {
+      user_id: result.user_id,
+      email: result.email,
+      name: result.name,
+      role: result.role,
+      is_active: result.is_active,
+      token_id: result.token_id,
+      scopes: result.scopes as ApiTokenScope[],
+    };
+  }
+
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private static toApiToken(token: typeof apiTokens.$inferSelect): ApiToken {
+    // The hash never leaves the service
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { token_hash, ...rest } = token;
+    return {
+      ...rest,
+      scopes: rest.scopes as ApiTokenScope[],
+      last_used_at: rest.last_used_at ?? undefined,
+      expires_at: rest.expires_at ?? undefined,
+      revoked_at: rest.revoked_at ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import { db } from '@/lib/db';
+import { auditLogs } from '@/lib/db/schema';
+import type { AuditLog, AuditLogChange } from '@/lib/db/schema';
+import { eq, and, desc, gte, lte, ilike, or, count, SQL } from 'drizzle-orm';
+import { getClientIp } from '@/lib/request-info';
+
+/**
+ * AUDIT LOG SERVICE
+ *
+ * Append-only trail of admin actions: who changed what, from where, and the
+ * field-level diff. Entries are never updated or deleted, and recording an
+ * entry never fails the action that triggered it.
+ */
+
+export const AUDIT_ACTIONS = [
+  'block.create',
+  'block.update',
+  'block.delete',
+  'block.publish',
+  'block.unpublish',
+  'block.restore',
+  'block.import',
+  'block.password',
+  'block.privacy',
+  'landing.set',
+  'landing.remove',
+  'user.create',
+  'user.update',
+  'user.activate',
+  'user.deactivate',
+  'user.delete',
+  'user.revoke_sessions',
+  'user.revoke_session',
+  'user.revoke_tokens',
+  'user.enable_two_factor',
+  'user.disable_two_factor',
+  'user.reset_two_factor',
+  'user.add_passkey',
+  'user.remove_passkey',
+  'user.invite',
+  'user.resend_invite',
+  'user.revoke_invite',
+  'user.accept_invite',
+  'settings.update',
+  'analytics.purge',
+  'analytics.erase',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditTargetType = 'block' | 'user' | 'invitation' | 'settings' | 'analytics';
+export type AuditChanges = Record<string, AuditLogChange>;
+
+export interface AuditActor {
+  user_id: string;
+  email: string;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  targetLabel?: string | null; // Slug, email, ... at the time of the action
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  changes?: AuditChanges | null; // Used as-is instead of diffing before/after
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  actorId?: string;
+  search?: string; // Matches actor email and target label
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['updated_at', 'created_at']);
+// Secrets (tokens, password and code hashes, SMTP passwords) are logged as changed, never with their value
+// Matches whole key names, so fields like `revoked_tokens` keep their value
+const REDACTED_FIELD_PATTERN = /^(password|secret|token)$|_hash(es)?$|Password$|_secret$/;
+const REDACTED = '[redacted]';
+// Nested objects (data, metadata, settings sections) are diffed down to this depth
+const MAX_DIFF_DEPTH = 2;
+
+const MAX_EXPORT_ROWS = 50000;
+
+export class AuditLogService {
+  /**
+   * Record an admin action
+   * Errors are swallowed so auditing never blocks the change itself.
+   */
+  static async record(request: Request, actor: AuditActor | null, entry: AuditEntry): Promise<void> {
+    try {
+      const changes = entry.changes ?? this.diff(entry.before ?? null, entry.after ?? null);
+
+      await db.insert(auditLogs).values({
+        actor_id: actor?.user_id || null,
+        actor_email: actor?.email || null,
+        action: entry.action,
+        target_type: entry.targetType,
+        target_id: entry.targetId || null,
+        target_label: entry.targetLabel?.slice(0, 255) || null,
+        changes: changes && Object.keys(changes).length > 0 ? changes : null,
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent') || null,
+      });
+    } catch {
+      // Silent error handling - don't log to console
+    }
+  }
+
+  /**
+   * Field-level diff of two snapshots as `{ 'data.url': { from, to } }`
+   * A missing side (create/delete) is recorded as null.
+   */
+  static diff(
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+    prefix = '',
+    depth = 0
+  ): AuditChanges {
+    const changes: AuditChanges = {};
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    for (const key of keys) {
+      if (IGNORED_FIELDS.has(key)) continue;
+
+      const path = prefix ? `${prefix}.${key}` : key;
+      const from = before?.[key] ?? null;
+      const to = after?.[key] ?? null;
+
+      // Objects added or removed as a whole are still split into fields so secrets stay redacted
+      const nestable = (value: unknown) => value === null || this.isPlainObject(value);
+      if (nestable(from) && nestable(to) && (from !== null || to !== null) && depth < MAX_DIFF_DEPTH - 1) {
+        Object.assign(changes, this.diff(
+          from as Record<string, unknown> | null,
+          to as Record<string, unknown> | null,
+          path,
+          depth + 1
+        ));
+        continue;
+      }
+
+      if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+      changes[path] = REDACTED_FIELD_PATTERN.test(key)
+        ? { from: from === null || from === '' ? null : REDACTED, to: to === null || to === '' ? null : REDACTED }
+        : { from, to };
+    }
+
+    return changes;
+  }
+
+  /**
+   * List entries, newest first
+   */
+  static async listEntries(filters: AuditLogFilters = {}): Promise<{ entries: AuditLog[]; total: number }> {
+    const whereClause = this.buildWhere(filters);
+    const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+
+    const rows = await db
+      .select()
+      .from(auditLogs)
+      .where(whereClause)
+      .orderBy(desc(auditLogs.created_at))
+      .limit(limit)
+      .offset(Math.max(filters.offset || 0, 0));
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(auditLogs)
+      .where(whereClause);
+
+    return {
+      entries: rows.map((row) => this.toAuditLog(row)),
+      total: totalResult?.count || 0,
+    };
+  }
+
+  /**
+   * Export matching entries as CSV
+   */
+  static async exportToCSV(filters: AuditLogFilters = {}): Promise<string> {
+    const rows = await db
+      .select()
+      .from(auditLogs)
+      .where(this.buildWhere(filters))
+      .orderBy(desc(auditLogs.created_at))
+      .limit(MAX_EXPORT_ROWS);
+
+    const headers = ['Timestamp', 'Actor', 'Action', 'Target Type', 'Target ID', 'Target', 'IP Address', 'User Agent', 'Changes'];
+    const lines = rows.map((row) => [
+      row.created_at.toISOString(),
+      row.actor_email || '',
+      row.action,
+      row.target_type,
+      row.target_id || '',
+      row.target_label || '',
+      row.ip_address || '',
+      row.user_agent || '',
+      row.changes ? JSON.stringify(row.changes) : '',
+    ]);
+
+    return [headers, ...lines]
+      .map((line) => line.map((value) => this.escapeCSV(value)).join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Read filters from list/export query parameters
+   */
+  static filtersFromSearchParams(searchParams: URLSearchParams): AuditLogFilters {
+    const toDate = (value: string | null): Date | undefined => {
+      const date = value ? new Date(value) : undefined;
+      return date && !isNaN(date.getTime()) ? date : undefined;
+    };
+
+    return {
+      action: searchParams.get('action') || undefined,
+      targetType: searchParams.get('targetType') || undefined,
+      targetId: searchParams.get('targetId') || undefined,
+      actorId: searchParams.get('actorId') || undefined,
+      search: searchParams.get('search')?.trim() || undefined,
+      from: toDate(searchParams.get('from')),
+      to: toDate(searchParams.get('to')),
+      limit: parseInt(searchParams.get('limit') || '50') || 50,
+      offset: parseInt(searchParams.get('offset') || '0') || 0,
+    };
+  }
+
+  private static buildWhere(filters: AuditLogFilters): SQL | undefined {
+    const conditions: (SQL | undefined)[] = [];
+
+    if (filters.action) {
+      // 'block' matches every block.* action
+      conditions.push(filters.action.includes('.')
+        ? eq(auditLogs.action, filters.action)
+        : ilike(auditLogs.action, `${filters.action}.%`));
+    }
+    if (filters.targetType) conditions.push(eq(auditLogs.target_type, filters.targetType));
+    if (filters.targetId) conditions.push(eq(auditLogs.target_id, filters.targetId));
+    if (filters.actorId) conditions.push(eq(auditLogs.actor_id, filters.actorId));
+    if (filters.from) conditions.push(gte(auditLogs.created_at, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.created_at, filters.to));
+    if (filters.search) {
+      conditions.push(or(
+        ilike(auditLogs.actor_email, `%${filters.search}%`),
+        ilike(auditLogs.target_label, `%${filters.search}%`)
+      ));
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static escapeCSV(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private static toAuditLog(row: typeof auditLogs.$inferSelect): AuditLog {
+    return {
+      id: row.id,
+      actor_id: row.actor_id ?? undefined,
+      actor_email: row.actor_email ?? undefined,
+      action: row.action,
+      target_type: row.target_type,
+      target_id: row.target_id ?? undefined,
+      target_label: row.target_label ?? undefined,
+      changes: (row.changes as Record<string, AuditLogChange> | null) ?? undefined,
+      ip_address: row.ip_address ?? undefined,
+      user_agent: row.user_agent ?? undefined,
+      created_at: row.created_at,
+    };
+  }
+}
@@ -1,7 +1,16 @@
-import { db } from '@/lib/db';
-import { contentBlocks, clicks, blockRevisions, blockTags } from '@/lib/db/schema';
-import { eq, and, desc, asc, count, sql } from 'drizzle-orm';
+import { db, type Transaction } from '@/lib/db';
+import { contentBlocks, clicks, blockRevisions, blockTags, tags } from '@/lib/db/schema';
+import { eq, and, desc, asc, count, sql, inArray, or, ilike } from 'drizzle-orm';
 import type { ContentBlock } from '@/lib/db/schema';
+import { RevisionService } from './revision-service';
+import { SlugAliasService } from './slug-alias-service';
+import { SettingsService } from './settings-service';
+import { GeoIpService } from './geoip-service';
+import { PrivacyService } from './privacy-service';
+import { AnalyticsService, type BreakdownData, type ClickData, type CountryData, type UtmBreakdown } from './analytics-service';
+import { floorDay } from '@/lib/analytics/click-rollups';
+import { parseUserAgent, userAgentColumns } from '@/lib/user-agent';
+import { ACCESS_PASSWORD_METADATA_KEY, getAccessPasswordHash, hashAccessPassword, preserveAccessPassword } from '@/lib/link-access';
 import { z } from 'zod';
 import slugify from 'slugify';
 import readingTime from 'reading-time';
@@ -48,6 +57,45 @@ export interface BlockWithChildren extends ContentBlock {
   children?: BlockWithChildren[];
 }
 
+// Fields of a block that the public content API exposes
+export interface PublicBlock {
+  id: string;
+  slug: string;
+  renderer: string;
+  data: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+  display_order: number;
+  is_protected: boolean; // Behind an access password; data is withheld
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RedirectImportItem {
+  slug: string;
+  url: string;
+  title?: string;
+  tags: string[]; // Tag names, created when missing
+  is_published: boolean;
+  existingId?: string; // Overwrite this redirect block instead of creating one
+}
+
+// Click report of one block over a period of whole UTC days, compared with the period before it
+export interface BlockAnalytics {
+  days: number;
+  period_start: string; // YYYY-MM-DD (UTC)
+  total_clicks: number; // All time
+  period_clicks: number;
+  previous_period_clicks: number;
+  unique_visitors: number; // Visitor IDs change daily, so a returning visitor counts once per day
+  previous_unique_visitors: number;
+  daily_stats: { date: string; clicks: number; previous_date: string; previous_clicks: number }[];
+  top_referrers: BreakdownData[];
+  countries: CountryData[];
+  devices: BreakdownData[];
+  utm: UtmBreakdown;
+  recent_clicks: ClickData[];
+}
+
 // Reserved slugs that cannot be used
 const RESERVED_SLUGS = [
   'admin', 'api', 'auth', 'login', 'logout', 'signup', 'dashboard',
@@ -181,8 +229,9 @@ export class BlockService {
 
   /**
    * Update block
+   * Snapshots the previous data/metadata into block_revisions when either changes.
    */
-  static async updateBlock(id: string, data: UpdateBlockData): Promise<ContentBlock> {
+  static async updateBlock(id: string, data: UpdateBlockData, userId?: string | null): Promise<ContentBlock> {
     const validatedData = updateBlockSchema.parse(data);
 
     return db.transaction(async (tx) => {
@@ -203,12 +252,71 @@ export class BlockService {
         processedData = await this.processBlockData(existingBlock.renderer, processedData);
       }
 
+      // Editors never change the access password through metadata
+      const metadata = validatedData.metadata
+        ? preserveAccessPassword(validatedData.metadata, existingBlock.metadata as Record<string, unknown>)
+        : existingBlock.metadata;
+
+      if (validatedData.data || validatedData.metadata) {
+        await RevisionService.recordRevision(tx, existingBlock as ContentBlock, userId, {
+          data: (processedData || existingBlock.data) as Record<string, unknown>,
+          metadata: metadata as Record<string, unknown>,
+        });
+      }
+
       // Update the block
       const [updatedBlock] = await tx
         .update(contentBlocks)
         .set({
           ...validatedData,
           data: processedData || existingBlock.data,
+          metadata,
+          updated_at: new Date(),
+        })
+        .where(eq(contentBlocks.id, id))
+        .returning();
+
+      return updatedBlock as ContentBlock;
+    });
+  }
+
+  /**
+   * Set or remove the access password of a root block
+   * Pass null to remove protection. The previous metadata is kept as a revision.
+   */
+  static async setAccessPassword(id: string, password: string | null, userId?: string | null): Promise<ContentBlock> {
+    return db.transaction(async (tx) => {
+      const [existingBlock] = await tx
+        .select()
+        .from(contentBlocks)
+        .where(eq(contentBlocks.id, id))
+        .limit(1);
+
+      if (!existingBlock) {
+        throw new Error('Block not found');
+      }
+
+      if (existingBlock.type !== 'root') {
+        throw new Error('Only root blocks can be password protected');
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [ACCESS_PASSWORD_METADATA_KEY]: _previousHash, ...metadata } =
+        (existingBlock.metadata || {}) as Record<string, unknown>;
+
+      if (password) {
+        metadata[ACCESS_PASSWORD_METADATA_KEY] = hashAccessPassword(password);
+      }
+
+      await RevisionService.recordRevision(tx, existingBlock as ContentBlock, userId, {
+        data: existingBlock.data as Record<string, unknown>,
+        metadata,
+      });
+
+      const [updatedBlock] = await tx
+        .update(contentBlocks)
+        .set({
+          metadata,
           updated_at: new Date(),
         })
         .where(eq(contentBlocks.id, id))
@@ -218,6 +326,125 @@ export class BlockService {
     });
   }
 
+  /**
+   * Create or overwrite redirect blocks in a single transaction
+   * Overwritten blocks keep their rules, variants and other settings; only
+   * the URL, title, published flag and (when given) tags are replaced.
+   */
+  static async importRedirectBlocks(items: RedirectImportItem[], userId?: string | null): Promise<ContentBlock[]> {
+    return db.transaction(async (tx) => {
+      const tagIds = await this.resolveTagIds(tx, items.flatMap((item) => item.tags));
+      const results: ContentBlock[] = [];
+
+      for (const item of items) {
+        let block;
+
+        if (item.existingId) {
+          const [existingBlock] = await tx
+            .select()
+            .from(contentBlocks)
+            .where(eq(contentBlocks.id, item.existingId))
+            .limit(1);
+
+          if (!existingBlock || existingBlock.renderer !== 'redirect') {
+            throw new Error(`Redirect block "${item.slug}" not found`);
+          }
+
+          const existingData = existingBlock.data as Record<string, unknown>;
+          const existingMetadata = existingBlock.metadata as Record<string, unknown>;
+          const data = this.processRedirectData({
+            ...existingData,
+            url: item.url,
+            ...(item.title !== undefined && { cardTitle: item.title }),
+          });
+          const metadata = item.title !== undefined ? { ...existingMetadata, title: item.title } : existingMetadata;
+
+          await RevisionService.recordRevision(tx, existingBlock as ContentBlock, userId, { data, metadata });
+
+          [block] = await tx
+            .update(contentBlocks)
+            .set({
+              data,
+              metadata,
+              is_published: item.is_published,
+              updated_at: new Date(),
+            })
+            .where(eq(contentBlocks.id, existingBlock.id))
+            .returning();
+        } else {
+          const data = this.processRedirectData({
+            url: item.url,
+            ...(item.title !== undefined && { cardTitle: item.title }),
+          });
+
+          [block] = await tx
+            .insert(contentBlocks)
+            .values({
+              slug: item.slug,
+              type: 'root',
+              renderer: 'redirect',
+              data,
+              metadata: item.title !== undefined ? { title: item.title } : {},
+              is_published: item.is_published,
+            })
+            .returning();
+        }
+
+        if (item.tags.length > 0) {
+          await tx.delete(blockTags).where(eq(blockTags.block_id, block.id));
+          const uniqueTagIds = [...new Set(item.tags.map((name) => tagIds.get(name.toLowerCase())))]
+            .filter((tagId): tagId is string => !!tagId);
+          if (uniqueTagIds.length > 0) {
+            await tx.insert(blockTags).values(uniqueTagIds.map((tagId) => ({ block_id: block.id, tag_id: tagId })));
+          }
+        }
+
+        results.push(block as ContentBlock);
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * Find or create tags by name, returning a map of lowercased name to tag ID
+   */
+  private static async resolveTagIds(tx: Transaction, names: string[]): Promise<Map<string, string>> {
+    const tagIds = new Map<string, string>();
+    const uniqueNames = [...new Map(names.map((name) => [name.toLowerCase(), name])).values()];
+
+    if (uniqueNames.length === 0) {
+      return tagIds;
+    }
+
+    const toTag = (name: string) => ({
+      name,
+      slug: slugify(name, { lower: true, strict: true }) || name.toLowerCase(),
+    });
+
+    await tx
+      .insert(tags)
+      .values(uniqueNames.map(toTag))
+      .onConflictDoNothing();
+
+    const slugs = uniqueNames.map((name) => toTag(name).slug);
+    const existing: { id: string; name: string; slug: string }[] = await tx
+      .select({ id: tags.id, name: tags.name, slug: tags.slug })
+      .from(tags)
+      .where(or(inArray(tags.name, uniqueNames), inArray(tags.slug, slugs)));
+
+    for (const name of uniqueNames) {
+      const slug = toTag(name).slug;
+      const tag = existing.find((t) => t.name.toLowerCase() === name.toLowerCase()) ||
+        existing.find((t) => t.slug === slug);
+      if (tag) {
+        tagIds.set(name.toLowerCase(), tag.id);
+      }
+    }
+
+    return tagIds;
+  }
+
   /**
    * Delete block (hard delete with cascade)
    */
@@ -290,76 +517,68 @@ export class BlockService {
 
   /**
    * Track click/interaction with a block
+   * `headers` let a trusted-header GeoIP provider locate the visitor.
    */
-  static async trackClick(blockId: string, metadata?: Record<string, unknown>): Promise<void> {
+  static async trackClick(blockId: string, metadata?: Record<string, unknown>, headers?: Headers): Promise<void> {
     try {
+      // With analytics disabled only bare redirect counts are kept, which click caps rely on
+      if (!(await SettingsService.isAnalyticsEnabled())) {
+        if (metadata?.type === 'redirect') {
+          await db.insert(clicks).values({
+            block_id: blockId,
+            timestamp: new Date(),
+            // Only the bot flag, so crawlers still do not use up click caps
+            is_bot: parseUserAgent(metadata.userAgent as string | undefined).isBot,
+            metadata: { type: 'redirect' },
+          });
+        }
+        return;
+      }
+
       // Extract analytics data from metadata
       const userAgent = metadata?.userAgent as string | undefined;
       const referrer = metadata?.referrer as string | undefined;
       const ipAddress = metadata?.ipAddress as string | undefined;
-      
-      // Basic country detection from IP (you can enhance this with a proper GeoIP service)
-      let country: string | undefined;
-      if (ipAddress) {
-        // For now, we'll leave country detection as a placeholder
-        // In production, you'd want to use a service like MaxMind GeoIP2 or similar
-        country = await this.detectCountryFromIP(ipAddress);
-      }
+
+      // Falls back to a country the caller resolved itself (e.g. for redirect rules)
+      const location = await GeoIpService.lookup(ipAddress, headers);
+      const country = location?.country || metadata?.country as string | undefined;
 
       await db.insert(clicks).values({
         block_id: blockId,
         timestamp: new Date(),
         referrer: referrer,
         user_agent: userAgent,
-        ip_address: ipAddress,
+        // The full IP is only used for the lookups above; what is stored depends on the privacy settings
+        ...await PrivacyService.getClickIdentity(ipAddress, userAgent),
         country: country,
-        metadata: metadata || {},
+        region: location?.region,
+        city: location?.city,
+        ...userAgentColumns(userAgent),
+        metadata: PrivacyService.stripRawMetadata(metadata || {}),
       });
+
+      await PrivacyService.purgeIfDue();
     } catch {
       // Silent error handling - analytics failures shouldn't break functionality
     }
   }
 
   /**
-   * Detect country from IP address
-   * Using ipapi.co free service (1000 requests/day limit)
-   * In production, consider using MaxMind GeoIP2 or CloudFlare's CF-IPCountry header
+   * Count successful redirects for a block (used to enforce click caps)
+   * Crawlers and link-preview fetches do not use up the cap.
    */
-  private static async detectCountryFromIP(ipAddress: string): Promise<string | undefined> {
-    try {
-      // Skip localhost and private IPs
-      if (ipAddress === '127.0.0.1' || ipAddress === '::1' || 
-          ipAddress.startsWith('192.168.') || ipAddress.startsWith('10.') || 
-          ipAddress.startsWith('172.')) {
-        return undefined;
-      }
-
-      // Use ipapi.co free service with timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
-
-      const response = await fetch(`https://ipapi.co/${ipAddress}/country/`, {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'GremlinLink/1.0'
-        }
-      });
-
-      clearTimeout(timeoutId);
-
-      if (response.ok) {
-        const countryCode = await response.text();
-        // Return only if it's a valid 2-letter country code
-        if (countryCode && countryCode.length === 2 && /^[A-Z]{2}$/.test(countryCode)) {
-          return countryCode;
-        }
-      }
+  static async getRedirectClickCount(blockId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(clicks)
+      .where(and(
+        eq(clicks.block_id, blockId),
+        sql`${clicks.metadata}->>'type' = 'redirect'`,
+        eq(clicks.is_bot, false),
+      ));
 
-      return undefined;
-    } catch {
-      // Silent error handling - don't fail analytics for GeoIP issues
-      return undefined;
-    }
+    return result?.count || 0;
   }
 
   /**
@@ -414,11 +633,18 @@ export class BlockService {
     return `${baseSlug}-${Date.now()}`;
   }
 
+  /**
+   * Check if a slug is reserved for application routes
+   */
+  static isReservedSlug(slug: string): boolean {
+    return RESERVED_SLUGS.includes(slug);
+  }
+
   /**
    * Check if a slug is available
    */
   static async isSlugAvailable(slug: string): Promise<boolean> {
-    if (RESERVED_SLUGS.includes(slug)) {
+    if (this.isReservedSlug(slug)) {
       return false;
     }
 
@@ -428,7 +654,12 @@ export class BlockService {
       .where(eq(contentBlocks.slug, slug))
       .limit(1);
 
-    return !existing;
+    if (existing) {
+      return false;
+    }
+
+    // Previous slugs of renamed blocks stay reserved
+    return !await SlugAliasService.isAlias(slug);
   }
 
   /**
@@ -514,50 +745,166 @@ export class BlockService {
   }
 
   /**
-   * Get analytics for a specific block
+   * Published, non-private root blocks for the public content API
    */
-  static async getBlockAnalytics(blockId: string, days = 30): Promise<{
-    total_clicks: number;
-    recent_clicks: Record<string, unknown>[];
-    daily_stats: Record<string, unknown>[];
-  }> {
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+  static async listPublicBlocks(options: {
+    renderer?: string;
+    search?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ blocks: PublicBlock[]; total: number }> {
+    const { renderer, search, limit = 20, offset = 0 } = options;
 
-    const [totalClicks, recentClicks, dailyStats] = await Promise.all([
-      // Total clicks
-      db
-        .select({ count: count() })
-        .from(clicks)
-        .where(eq(clicks.block_id, blockId)),
+    const whereConditions = [...this.publicBlockConditions()];
 
-      // Recent clicks
-      db
-        .select()
-        .from(clicks)
-        .where(eq(clicks.block_id, blockId))
-        .orderBy(desc(clicks.timestamp))
-        .limit(10),
-
-      // Daily stats
-      db
-        .select({
-          date: sql`DATE(${clicks.timestamp})`,
-          count: count(),
-        })
-        .from(clicks)
-        .where(and(
-          eq(clicks.block_id, blockId),
-          sql`${clicks.timestamp} >= ${startDate}`,
-        ))
-        .groupBy(sql`DATE(${clicks.timestamp})`)
-        .orderBy(sql`DATE(${clicks.timestamp})`),
+    if (renderer) {
+      whereConditions.push(eq(contentBlocks.renderer, renderer));
+    }
+
+    if (search) {
+      // Content of password-protected blocks is hidden, so it must not be searchable either
+      whereConditions.push(or(
+        ilike(contentBlocks.slug, `%${search}%`),
+        and(
+          sql`coalesce(${contentBlocks.metadata} ->> ${ACCESS_PASSWORD_METADATA_KEY}, '') = ''`,
+          sql`${contentBlocks.data}::text ILIKE ${`%${search}%`}`
+        )
+      )!);
+    }
+
+    const whereClause = and(...whereConditions);
+
+    const results = await db
+      .select()
+      .from(contentBlocks)
+      .where(whereClause)
+      .orderBy(desc(contentBlocks.updated_at))
+      .limit(limit)
+      .offset(offset);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(contentBlocks)
+      .where(whereClause);
+
+    return {
+      blocks: results.map((block) => this.toPublicBlock(block as ContentBlock)),
+      total,
+    };
+  }
+
+  /**
+   * A single published, non-private root block for the public content API
+   */
+  static async getPublicBlock(id: string): Promise<PublicBlock | null> {
+    if (!z.string().uuid().safeParse(id).success) {
+      return null;
+    }
+
+    const [block] = await db
+      .select()
+      .from(contentBlocks)
+      .where(and(eq(contentBlocks.id, id), ...this.publicBlockConditions()))
+      .limit(1);
+
+    return block ? this.toPublicBlock(block as ContentBlock) : null;
+  }
+
+  /**
+   * Strip a block down to the fields visitors may see.
+   * Password-protected blocks keep their content (e.g. the redirect target) hidden.
+   */
+  static toPublicBlock(block: ContentBlock): PublicBlock {
+    const metadata = { ...(block.metadata || {}) };
+    const isProtected = !!getAccessPasswordHash(metadata);
+    delete metadata[ACCESS_PASSWORD_METADATA_KEY];
+
+    return {
+      id: block.id,
+      slug: block.slug,
+      renderer: block.renderer,
+      data: isProtected ? {} : block.data,
+      metadata,
+      display_order: block.display_order,
+      is_protected: isProtected,
+      created_at: block.created_at,
+      updated_at: block.updated_at,
+    };
+  }
+
+  /**
+   * Get analytics for a specific block over the last `days` UTC days (today included)
+   * Each day of the period is paired with the same day of the period before it.
+   */
+  static async getBlockAnalytics(blockId: string, days = 30, includeBots = false): Promise<BlockAnalytics> {
+    const block = await this.getBlockById(blockId);
+    if (!block) {
+      throw new Error('Block not found');
+    }
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const now = new Date();
+    const periodStart = new Date(floorDay(now).getTime() - (days - 1) * DAY_MS);
+    const previousStart = new Date(periodStart.getTime() - days * DAY_MS);
+    const period = { start: periodStart, end: now };
+    const previousPeriod = { start: previousStart, end: new Date(periodStart.getTime() - 1) };
+
+    const [
+      totalClicks,
+      periodClicks,
+      previousPeriodClicks,
+      uniqueVisitors,
+      previousUniqueVisitors,
+      daily,
+      previousDaily,
+      topReferrers,
+      countries,
+      devices,
+      utm,
+      recentClicks,
+    ] = await Promise.all([
+      AnalyticsService.getTotalClicks(undefined, includeBots, blockId),
+      AnalyticsService.getTotalClicks(period, includeBots, blockId),
+      AnalyticsService.getTotalClicks(previousPeriod, includeBots, blockId),
+      AnalyticsService.getUniqueVisitors(period, includeBots, blockId),
+      AnalyticsService.getUniqueVisitors(previousPeriod, includeBots, blockId),
+      AnalyticsService.getDailyClicks(period, includeBots, blockId),
+      AnalyticsService.getDailyClicks(previousPeriod, includeBots, blockId),
+      AnalyticsService.getTopReferrers(period, includeBots, blockId),
+      AnalyticsService.getClicksByCountry(period, includeBots, blockId),
+      AnalyticsService.getClicksByDevice(period, includeBots, blockId),
+      AnalyticsService.getUtmBreakdown(period, includeBots, blockId),
+      AnalyticsService.getRecentClicks(20, undefined, includeBots, blockId),
     ]);
 
+    // Every day of the period, including days without clicks
+    const toDay = (date: Date) => date.toISOString().slice(0, 10);
+    const clicksByDay = new Map([...daily, ...previousDaily].map(row => [row.date, row.clicks]));
+    const dailyStats = Array.from({ length: days }, (_, i) => {
+      const date = toDay(new Date(periodStart.getTime() + i * DAY_MS));
+      const previousDate = toDay(new Date(previousStart.getTime() + i * DAY_MS));
+      return {
+        date,
+        clicks: clicksByDay.get(date) || 0,
+        previous_date: previousDate,
+        previous_clicks: clicksByDay.get(previousDate) || 0,
+      };
+    });
+
     return {
-      total_clicks: totalClicks[0]?.count || 0,
-      recent_clicks: recentClicks as Record<string, unknown>[],
-      daily_stats: dailyStats as Record<string, unknown>[],
+      days,
+      period_start: toDay(periodStart),
+      total_clicks: totalClicks,
+      period_clicks: periodClicks,
+      previous_period_clicks: previousPeriodClicks,
+      unique_visitors: uniqueVisitors,
+      previous_unique_visitors: previousUniqueVisitors,
+      daily_stats: dailyStats,
+      top_referrers: topReferrers,
+      countries,
+      devices,
+      utm,
+      recent_clicks: recentClicks,
     };
   }
 
@@ -610,6 +957,14 @@ export class BlockService {
   /**
    * Validate slug availability and format
    */
+  private static publicBlockConditions() {
+    return [
+      eq(contentBlocks.type, 'root'),
+      eq(contentBlocks.is_published, true),
+      eq(contentBlocks.is_private, false),
+    ];
+  }
+
   private static async validateSlugAvailability(slug: string): Promise<void> {
     if (!await this.isSlugAvailable(slug)) {
       throw new Error(`Slug "${slug}" is already taken or reserved`);
@@ -644,12 +999,140 @@ export class BlockService {
       throw new Error('Redirect blocks must have a valid URL');
     }
 
+    // Validate scheduling window and click cap
+    const activateAt = rest.activate_at ? new Date(rest.activate_at as string) : null;
+    const expiresAt = rest.expires_at ? new Date(rest.expires_at as string) : null;
+
+    if ((activateAt && isNaN(activateAt.getTime())) || (expiresAt && isNaN(expiresAt.getTime()))) {
+      throw new Error('Redirect activation and expiry must be valid dates');
+    }
+
+    if (activateAt && expiresAt && activateAt >= expiresAt) {
+      throw new Error('Redirect expiry must be after its activation time');
+    }
+
+    if (rest.max_clicks !== undefined && rest.max_clicks !== null &&
+        (!Number.isInteger(rest.max_clicks) || (rest.max_clicks as number) < 1)) {
+      throw new Error('Redirect click limit must be a positive whole number');
+    }
+
+    // Validate and normalise conditional rules
+    if (rest.rules !== undefined && rest.rules !== null) {
+      rest.rules = this.processRedirectRules(rest.rules);
+    }
+
+    // Validate A/B variants
+    if (rest.variants !== undefined && rest.variants !== null) {
+      rest.variants = this.processRedirectVariants(rest.variants);
+    }
+
+    // Keep only non-empty UTM parameters
+    if (rest.utm !== undefined && rest.utm !== null) {
+      if (typeof rest.utm !== 'object' || Array.isArray(rest.utm)) {
+        throw new Error('UTM parameters must be an object');
+      }
+
+      const utm: Record<string, string> = {};
+      for (const key of ['source', 'medium', 'campaign', 'term', 'content']) {
+        const value = (rest.utm as Record<string, unknown>)[key];
+        if (typeof value === 'string' && value.trim()) {
+          utm[key] = value.trim();
+        }
+      }
+      rest.utm = utm;
+    }
+
+    if (rest.query_precedence !== undefined && rest.query_precedence !== 'link' && rest.query_precedence !== 'incoming') {
+      throw new Error('Query precedence must be either "link" or "incoming"');
+    }
+
     return {
       url: url.trim(),
       ...rest,
     };
   }
 
+  /**
+   * Process weighted A/B variants
+   */
+  private static processRedirectVariants(variants: unknown): Record<string, unknown>[] {
+    if (!Array.isArray(variants)) {
+      throw new Error('Redirect variants must be a list');
+    }
+
+    // An empty list turns the A/B test off
+    if (variants.length === 0) {
+      return [];
+    }
+
+    if (variants.length < 2) {
+      throw new Error('An A/B test needs at least two variants');
+    }
+
+    const processed = variants.map((variant, index) => {
+      const { id, url, weight, label } = (variant || {}) as Record<string, unknown>;
+
+      if (typeof url !== 'string' || !/^https?:\/\//i.test(url.trim())) {
+        throw new Error(`Variant ${index + 1} must have a valid URL`);
+      }
+
+      if (!Number.isInteger(weight) || (weight as number) < 0 || (weight as number) > 100) {
+        throw new Error(`Variant ${index + 1} weight must be a whole percentage between 0 and 100`);
+      }
+
+      return {
+        id: typeof id === 'string' && id ? id : crypto.randomUUID(),
+        url: url.trim(),
+        weight: weight as number,
+        ...(typeof label === 'string' && label.trim() ? { label: label.trim() } : {}),
+      };
+    });
+
+    const totalWeight = processed.reduce((sum, variant) => sum + variant.weight, 0);
+    if (totalWeight !== 100) {
+      throw new Error('Variant weights must add up to 100%');
+    }
+
+    return processed;
+  }
+
+  /**
+   * Process redirect rules (device, country and language targeting)
+   */
+  private static processRedirectRules(rules: unknown): Record<string, unknown>[] {
+    if (!Array.isArray(rules)) {
+      throw new Error('Redirect rules must be a list');
+    }
+
+    return rules.map((rule, index) => {
+      const { id, type, values, url, label } = (rule || {}) as Record<string, unknown>;
+
+      if (type !== 'device' && type !== 'country' && type !== 'language') {
+        throw new Error(`Redirect rule ${index + 1} has an unknown type`);
+      }
+
+      const cleanValues = Array.isArray(values)
+        ? values.filter((value): value is string => typeof value === 'string' && !!value.trim())
+        : [];
+
+      if (cleanValues.length === 0) {
+        throw new Error(`Redirect rule ${index + 1} needs at least one value`);
+      }
+
+      if (typeof url !== 'string' || !/^https?:\/\//i.test(url.trim())) {
+        throw new Error(`Redirect rule ${index + 1} must have a valid URL`);
+      }
+
+      return {
+        id: typeof id === 'string' && id ? id : crypto.randomUUID(),
+        type,
+        values: cleanValues.map((value) => type === 'country' ? value.trim().toUpperCase() : value.trim().toLowerCase()),
+        url: url.trim(),
+        ...(typeof label === 'string' && label.trim() ? { label: label.trim() } : {}),
+      };
+    });
+  }
+
   /**
    * Process article data
    */
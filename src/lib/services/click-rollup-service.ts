@@ -0,0 +1,275 @@
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import { db } from '@/lib/db';
+import * as schema from '@/lib/db/schema';
+import { clicks } from '@/lib/db/schema';
+import {
+  DIMENSION_VALUES,
+  ROLLUP_TABLES,
+  ceilDay,
+  ceilHour,
+  floorDay,
+  floorHour,
+  getRolledUpTo,
+  isVisitClick,
+  rebuildClickRollups,
+  rollUpPendingClicks,
+  type RollupDatabase,
+  type RollupDimension,
+  type RollupGranularity,
+} from '@/lib/analytics/click-rollups';
+import type { DateRange } from './analytics-service';
+import { and, eq, gte, lt, lte, or, sql, type SQL } from 'drizzle-orm';
+
+/**
+ * CLICK ROLLUP SERVICE
+ *
+ * Runs the click rollup aggregator in the background and answers click
+ * counts from the rollup tables wherever they are complete. Only the hours
+ * the aggregator has not reached yet - normally just the current one - and
+ * the partial hours at the edges of a date range are counted from the raw
+ * clicks. Distinct-visitor counts across blocks or days cannot be added up
+ * from rollups, so those still come from the raw table. The aggregator uses
+ * its own database connection so requests never wait behind a rollup.
+ */
+
+export type BotFilter = 'exclude' | 'include' | 'only';
+
+export interface ClickCountOptions {
+  dimension: RollupDimension;
+  groupBy: ('block' | 'day' | 'value')[]; // Keys of the returned rows
+  dateRange?: DateRange;
+  bots?: BotFilter; // Default 'exclude'
+  blockId?: string;
+}
+
+export interface ClickCount {
+  blockId: string | null; // Null unless grouped by block
+  day: string | null; // YYYY-MM-DD (UTC), null unless grouped by day
+  value: string | null; // Dimension value, '' when unknown; null unless grouped by value
+  clicks: number;
+}
+
+type GroupKeys = Record<'blockId' | 'day' | 'value', SQL<string | null>>;
+
+interface RollupSegment {
+  granularity: RollupGranularity;
+  from: Date | null; // Null for "since the beginning"
+  to: Date;
+}
+
+// How long the aggregator's progress is trusted before it is read again
+const PROGRESS_CACHE_TTL_MS = 60 * 1000;
+
+let progressCache: { rolledUpTo: Date | null; expiresAt: number } | null = null;
+let aggregatorTimer: ReturnType<typeof setInterval> | null = null;
+let aggregating = false;
+let aggregatorDb: RollupDatabase | null = null;
+
+export class ClickRollupService {
+  /**
+   * Roll up the hours that ended since the last pass; returns the number of hours
+   */
+  static async aggregate(): Promise<number> {
+    if (aggregating) {
+      return 0;
+    }
+
+    aggregating = true;
+    try {
+      return await rollUpPendingClicks(this.getAggregatorDb());
+    } finally {
+      aggregating = false;
+      progressCache = null;
+    }
+  }
+
+  /**
+   * Recompute rollups from a date (default: all history) after changing past clicks
+   */
+  static async rebuild(from?: Date): Promise<number> {
+    try {
+      return await rebuildClickRollups(this.getAggregatorDb(), from);
+    } finally {
+      progressCache = null;
+    }
+  }
+
+  /**
+   * Run the aggregator every `intervalMs` in this process (see instrumentation.ts)
+   * Replicas can all run it; a database lock lets only one work at a time.
+   */
+  static startAggregator(intervalMs: number): void {
+    if (aggregatorTimer) return;
+
+    const run = () => {
+      this.aggregate().catch(() => {
+        // Retried at the next interval - the dashboards fall back to raw clicks meanwhile
+      });
+    };
+
+    aggregatorTimer = setInterval(run, intervalMs);
+    aggregatorTimer.unref?.();
+    run();
+  }
+
+  /**
+   * Clicks for one dimension, grouped by block, day and/or dimension value
+   */
+  static async countClicks(options: ClickCountOptions): Promise<ClickCount[]> {
+    const rolledUpTo = await this.getRolledUpTo();
+    const { segments, rawPeriod } = this.planSegments(options.dateRange, rolledUpTo);
+
+    const results = await Promise.all([
+      ...segments.map((segment) => this.countRolledUp(options, segment)),
+      this.countRaw(options, rawPeriod),
+    ]);
+
+    // The same key can come from several segments (e.g. a day split into hours and raw clicks)
+    const merged = new Map<string, ClickCount>();
+    for (const row of results.flat()) {
+      const key = `${row.blockId}|${row.day}|${row.value}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.clicks += row.clicks;
+      } else {
+        merged.set(key, { ...row });
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  // Separate from the shared request connection, created on first use
+  private static getAggregatorDb(): RollupDatabase {
+    if (!aggregatorDb) {
+      const client = postgres(process.env.DATABASE_URL!, {
+        max: 1,
+        idle_timeout: 20,
+        connect_timeout: 10,
+      });
+      aggregatorDb = drizzle(client, { schema });
+    }
+    return aggregatorDb;
+  }
+
+  private static async getRolledUpTo(): Promise<Date | null> {
+    if (progressCache && progressCache.expiresAt > Date.now()) {
+      return progressCache.rolledUpTo;
+    }
+
+    try {
+      const rolledUpTo = await getRolledUpTo(db);
+      progressCache = { rolledUpTo, expiresAt: Date.now() + PROGRESS_CACHE_TTL_MS };
+      return rolledUpTo;
+    } catch {
+      // Without progress everything is counted from the raw clicks
+      return null;
+    }
+  }
+
+  /**
+   * Split a date range into rollup segments (daily for whole days, hourly for
+   * the rest) and a condition for the clicks that must be counted raw
+   */
+  private static planSegments(
+    dateRange: DateRange | undefined,
+    rolledUpTo: Date | null
+  ): { segments: RollupSegment[]; rawPeriod: SQL | undefined } {
+    const fullRange = dateRange
+      ? and(gte(clicks.timestamp, dateRange.start), lte(clicks.timestamp, dateRange.end))
+      : undefined;
+
+    if (!rolledUpTo) {
+      return { segments: [], rawPeriod: fullRange };
+    }
+
+    // Whole hours inside the range that have been rolled up: [from, to)
+    const from = dateRange ? ceilHour(dateRange.start) : null;
+    const end = dateRange ? floorHour(dateRange.end) : rolledUpTo;
+    const to = end < rolledUpTo ? end : rolledUpTo;
+
+    if (from && from >= to) {
+      return { segments: [], rawPeriod: fullRange };
+    }
+
+    const segments: RollupSegment[] = [];
+    const dayFrom = from ? ceilDay(from) : null;
+    const dayTo = floorDay(to);
+
+    if (!dayFrom || dayFrom < dayTo) {
+      if (from && dayFrom && from < dayFrom) {
+        segments.push({ granularity: 'hour', from, to: dayFrom });
+      }
+      segments.push({ granularity: 'day', from: dayFrom, to: dayTo });
+      if (dayTo < to) {
+        segments.push({ granularity: 'hour', from: dayTo, to });
+      }
+    } else {
+      segments.push({ granularity: 'hour', from, to });
+    }
+
+    const rawPeriod = dateRange
+      ? or(
+        and(gte(clicks.timestamp, dateRange.start), lt(clicks.timestamp, from!)),
+        and(gte(clicks.timestamp, to), lte(clicks.timestamp, dateRange.end)),
+      )
+      : gte(clicks.timestamp, to);
+
+    return { segments, rawPeriod };
+  }
+
+  private static async countRolledUp(options: ClickCountOptions, segment: RollupSegment): Promise<ClickCount[]> {
+    const table = ROLLUP_TABLES[segment.granularity];
+    const bots = options.bots || 'exclude';
+
+    const keys = this.selectKeys(options, sql`${table.block_id}`, sql`DATE(${table.bucket})`, sql`${table.value}`);
+    return db
+      .select({ ...keys, clicks: sql<number>`SUM(${table.clicks})::int` })
+      .from(table)
+      .where(and(
+        eq(table.dimension, options.dimension),
+        segment.from ? gte(table.bucket, segment.from) : undefined,
+        lt(table.bucket, segment.to),
+        bots === 'include' ? undefined : eq(table.is_bot, bots === 'only'),
+        options.blockId ? eq(table.block_id, options.blockId) : undefined,
+      ))
+      .groupBy(...this.groupKeys(options, keys));
+  }
+
+  private static async countRaw(options: ClickCountOptions, period: SQL | undefined): Promise<ClickCount[]> {
+    const bots = options.bots || 'exclude';
+
+    const keys = this.selectKeys(options, sql`${clicks.block_id}`, sql`DATE(${clicks.timestamp})`, DIMENSION_VALUES[options.dimension]);
+    return db
+      .select({ ...keys, clicks: sql<number>`count(*)::int` })
+      .from(clicks)
+      .where(and(
+        period,
+        isVisitClick,
+        bots === 'include' ? undefined : eq(clicks.is_bot, bots === 'only'),
+        options.blockId ? eq(clicks.block_id, options.blockId) : undefined,
+      ))
+      .groupBy(...this.groupKeys(options, keys));
+  }
+
+  // Grouping keys that were not asked for are selected as NULL so rows from every source line up
+  private static selectKeys(options: ClickCountOptions, blockId: SQL, day: SQL, value: SQL): GroupKeys {
+    const key = (name: 'block' | 'day' | 'value', expression: SQL) =>
+      options.groupBy.includes(name) ? sql<string | null>`${expression}` : sql<string | null>`NULL`;
+
+    return {
+      blockId: key('block', blockId),
+      day: key('day', day),
+      value: key('value', value),
+    };
+  }
+
+  private static groupKeys(options: ClickCountOptions, keys: GroupKeys): SQL[] {
+    return [
+      ...(options.groupBy.includes('block') ? [keys.blockId] : []),
+      ...(options.groupBy.includes('day') ? [keys.day] : []),
+      ...(options.groupBy.includes('value') ? [keys.value] : []),
+    ];
+  }
+}
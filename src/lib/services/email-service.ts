@@ -0,0 +1,136 @@
+import path from 'path';
+import { SettingsService, type AppSettings } from '@/lib/services/settings-service';
+import {
+  EMAIL_TRANSPORTS,
+  FileTransport,
+  ResendTransport,
+  SmtpTransport,
+  type EmailTransport,
+  type EmailTransportName,
+} from '@/lib/email/transports';
+import {
+  invitationEmail,
+  magicLinkEmail,
+  reportEmail,
+  testEmail,
+  type RenderedEmail,
+  type ReportRow,
+} from '@/lib/email/templates';
+
+/**
+ * EMAIL SERVICE
+ *
+ * Renders templates and hands them to the configured transport. The transport
+ * comes from the persisted email settings; 'auto' falls back to the
+ * EMAIL_TRANSPORT env var, then Resend when RESEND_API_KEY is set, then the
+ * file transport outside production.
+ */
+
+const DEFAULT_FROM_EMAIL = 'noreply@gremlinlink.com';
+const DEFAULT_OUTBOX_DIR = path.join('tmp', 'emails');
+
+export class EmailService {
+  /**
+   * Send a rendered email; throws with the transport's error message
+   */
+  static async send(to: string, email: RenderedEmail): Promise<EmailTransportName> {
+    const settings = await SettingsService.getSettings();
+    const transport = this.createTransport(settings);
+
+    await transport.send({
+      from: settings.email.fromEmail || process.env.FROM_EMAIL || DEFAULT_FROM_EMAIL,
+      to,
+      ...email,
+    });
+
+    return transport.name;
+  }
+
+  /**
+   * Send a sign-in link
+   */
+  static async sendMagicLink(to: string, url: string, expiresInMinutes: number): Promise<void> {
+    const { general } = await SettingsService.getSettings();
+    await this.send(to, magicLinkEmail({ siteName: general.siteName, url, expiresInMinutes }));
+  }
+
+  /**
+   * Send an invitation to join the admin
+   */
+  static async sendInvitation(
+    to: string,
+    params: { url: string; invitedBy: string; role: string; expiresAt: Date }
+  ): Promise<void> {
+    const { general } = await SettingsService.getSettings();
+    await this.send(to, invitationEmail({ siteName: general.siteName, ...params }));
+  }
+
+  /**
+   * Send a report as a simple label/value table
+   */
+  static async sendReport(
+    to: string,
+    params: { title: string; intro?: string; rows: ReportRow[]; url?: string }
+  ): Promise<void> {
+    const { general } = await SettingsService.getSettings();
+    await this.send(to, reportEmail({ siteName: general.siteName, ...params }));
+  }
+
+  /**
+   * Send a test message with the saved settings and report which transport delivered it
+   */
+  static async sendTestEmail(to: string): Promise<EmailTransportName> {
+    const settings = await SettingsService.getSettings();
+    const transportName = this.resolveTransportName(settings);
+    return this.send(to, testEmail({ siteName: settings.general.siteName, transport: transportName }));
+  }
+
+  /**
+   * Transport that `send` would use with the given settings
+   */
+  static resolveTransportName(settings: AppSettings): EmailTransportName {
+    if (settings.email.transport !== 'auto') {
+      return settings.email.transport;
+    }
+
+    const fromEnv = process.env.EMAIL_TRANSPORT as EmailTransportName | undefined;
+    if (fromEnv && EMAIL_TRANSPORTS.includes(fromEnv)) {
+      return fromEnv;
+    }
+
+    if (process.env.RESEND_API_KEY) {
+      return 'resend';
+    }
+
+    if (process.env.NODE_ENV !== 'production') {
+      return 'file';
+    }
+
+    throw new Error('No email transport configured. Set RESEND_API_KEY or choose SMTP in settings.');
+  }
+
+  private static createTransport(settings: AppSettings): EmailTransport {
+    switch (this.resolveTransportName(settings)) {
+      case 'resend': {
+        const apiKey = process.env.RESEND_API_KEY;
+        if (!apiKey) {
+          throw new Error('RESEND_API_KEY environment variable is not set');
+        }
+        return new ResendTransport(apiKey);
+      }
+      case 'smtp': {
+        if (!settings.email.smtpHost) {
+          throw new Error('SMTP host is not configured');
+        }
+        return new SmtpTransport({
+          host: settings.email.smtpHost,
+          port: settings.email.smtpPort,
+          username: settings.email.smtpUsername,
+          password: settings.email.smtpPassword,
+        });
+      }
+      case 'file':
+        return new FileTransport(process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import path from 'path';
+import { isPrivateIp, normalizeIp } from '@/lib/request-info';
+import {
+  HeaderGeoIpProvider,
+  MmdbGeoIpProvider,
+  type GeoIpProvider,
+  type GeoLocation,
+} from '@/lib/geoip/providers';
+
+/**
+ * GEOIP SERVICE
+ *
+ * Country, region and city of a visitor for click analytics and country
+ * redirect rules, without calling an external API. Providers are tried in
+ * the order given by GEOIP_PROVIDERS (default "mmdb"; "headers,mmdb" on a
+ * CDN that adds location headers), and the first answer wins. The MMDB file
+ * is read from GEOIP_DATABASE_PATH (default ./data/GeoLite2-City.mmdb).
+ */
+
+const DEFAULT_DATABASE_PATH = 'data/GeoLite2-City.mmdb';
+
+let providers: GeoIpProvider[] | null = null;
+
+export class GeoIpService {
+  /**
+   * Replace the provider chain, e.g. with a commercial lookup service
+   */
+  static setProviders(customProviders: GeoIpProvider[]): void {
+    providers = customProviders;
+  }
+
+  /**
+   * Locate a visitor; `headers` are only consulted by the trusted-header provider
+   */
+  static async lookup(ip: string | null | undefined, headers?: Headers): Promise<GeoLocation | null> {
+    // Private addresses are not passed on; header providers can still answer for them
+    const address = ip && !isPrivateIp(ip) ? normalizeIp(ip) : null;
+
+    for (const provider of this.getProviders()) {
+      try {
+        const location = await provider.lookup(address, headers);
+        if (location) {
+          return location;
+        }
+      } catch {
+        // Try the next provider - geo data is best effort
+      }
+    }
+
+    return null;
+  }
+
+  private static getProviders(): GeoIpProvider[] {
+    if (!providers) {
+      const names = (process.env.GEOIP_PROVIDERS || 'mmdb')
+        .split(',')
+        .map((name) => name.trim().toLowerCase());
+
+      providers = names.flatMap((name): GeoIpProvider[] => {
+        switch (name) {
+          case 'mmdb':
+            return [new MmdbGeoIpProvider(
+              path.resolve(process.cwd(), process.env.GEOIP_DATABASE_PATH || DEFAULT_DATABASE_PATH)
+            )];
+          case 'headers':
+            return [new HeaderGeoIpProvider()];
+          default:
+            // "none" (or an unknown name) disables lookups
+            return [];
+        }
+      });
+    }
+    return providers;
+  }
+}
@@ -0,0 +1,322 @@
+import { db } from '@/lib/db';
+import { userInvitations, users } from '@/lib/db/schema';
+import type { UserInvitation } from '@/lib/db/schema';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { createHash, randomBytes } from 'crypto';
+import { z } from 'zod';
+import { INVITATION_EXPIRY } from '@/lib/auth-constants';
+import { USER_ROLES, ROLE_LABELS, type UserRole } from '@/lib/permissions';
+import { EmailService } from '@/lib/services/email-service';
+
+/**
+ * INVITATION SERVICE
+ *
+ * Admins invite people by email and role. The invitee follows an expiring
+ * link to create their account and sign in; only a SHA-256 hash of the link
+ * token is stored, and resending issues a fresh token. An accepted
+ * invitation also lets that address sign in with magic links from outside
+ * ALLOWED_DOMAINS.
+ */
+
+export const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address').max(255),
+  role: z.enum(USER_ROLES),
+});
+
+export type CreateInvitationData = z.infer<typeof createInvitationSchema>;
+
+export interface InvitationActor {
+  user_id: string;
+  email: string;
+  name?: string | null;
+  role: string;
+}
+
+// What the accept page shows before the invitee commits
+export interface InvitationPreview {
+  email: string;
+  role: UserRole;
+  invitedBy: string | null;
+  expiresAt: Date;
+}
+
+const inviters = alias(users, 'inviters');
+
+export class InvitationService {
+  /**
+   * Invitations that are neither accepted nor revoked, newest first
+   * Expired ones are included so they can be resent.
+   */
+  static async listPending(): Promise<UserInvitation[]> {
+    const rows = await db
+      .select({ invitation: userInvitations, invited_by_email: inviters.email })
+      .from(userInvitations)
+      .leftJoin(inviters, eq(userInvitations.invited_by, inviters.id))
+      .where(and(isNull(userInvitations.accepted_at), isNull(userInvitations.revoked_at)))
+      .orderBy(desc(userInvitations.created_at));
+
+    return rows.map((row) => this.toInvitation(row.invitation, row.invited_by_email));
+  }
+
+  /**
+   * Create an invitation and email the link
+   */
+  static async createInvitation(data: CreateInvitationData, inviter: InvitationActor): Promise<UserInvitation> {
+    const validatedData = createInvitationSchema.parse(data);
+    this.assertCanInvite(inviter, validatedData.role);
+
+    const [existingUser] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.email, validatedData.email))
+      .limit(1);
+    if (existingUser) {
+      throw new Error('A user with this email already exists');
+    }
+
+    const [openInvitation] = await db
+      .select({ id: userInvitations.id })
+      .from(userInvitations)
+      .where(this.isOpen(eq(userInvitations.email, validatedData.email)))
+      .limit(1);
+    if (openInvitation) {
+      throw new Error('This email already has a pending invitation. Resend it instead.');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const [invitation] = await db
+      .insert(userInvitations)
+      .values({
+        email: validatedData.email,
+        role: validatedData.role,
+        token_hash: this.hashToken(token),
+        invited_by: inviter.user_id,
+        expires_at: new Date(Date.now() + INVITATION_EXPIRY * 1000),
+      })
+      .returning();
+
+    try {
+      await this.sendInvitationEmail(invitation, token, inviter);
+    } catch (error) {
+      // An invitation nobody received would block a retry
+      await db.delete(userInvitations).where(eq(userInvitations.id, invitation.id));
+      throw error;
+    }
+
+    return this.toInvitation(invitation, inviter.email);
+  }
+
+  /**
+   * Email a pending invitation again with a new link and a fresh expiry
+   * Links from earlier emails stop working.
+   */
+  static async resendInvitation(id: string, inviter: InvitationActor): Promise<UserInvitation> {
+    const existing = await this.getOpenInvitation(id);
+    this.assertCanInvite(inviter, existing.role as UserRole);
+
+    const token = randomBytes(32).toString('hex');
+    const [invitation] = await db
+      .update(userInvitations)
+      .set({
+        token_hash: this.hashToken(token),
+        expires_at: new Date(Date.now() + INVITATION_EXPIRY * 1000),
+        last_sent_at: new Date(),
+      })
+      .where(eq(userInvitations.id, id))
+      .returning();
+
+    await this.sendInvitationEmail(invitation, token, inviter);
+
+    return this.toInvitation(invitation);
+  }
+
+  /**
+   * Revoke a pending invitation so its link stops working
+   */
+  static async revokeInvitation(id: string, actor: InvitationActor): Promise<UserInvitation> {
+    const existing = await this.getOpenInvitation(id);
+    this.assertCanInvite(actor, existing.role as UserRole);
+
+    const [invitation] = await db
+      .update(userInvitations)
+      .set({ revoked_at: new Date() })
+      .where(eq(userInvitations.id, id))
+      .returning();
+
+    return this.toInvitation(invitation);
+  }
+
+  /**
+   * Look up a usable invitation from its link token (null when invalid or expired)
+   */
+  static async getPreview(token: string): Promise<InvitationPreview | null> {
+    const [row] = await db
+      .select({ invitation: userInvitations, inviter_name: inviters.name, inviter_email: inviters.email })
+      .from(userInvitations)
+      .leftJoin(inviters, eq(userInvitations.invited_by, inviters.id))
+      .where(this.isUsable(token))
+      .limit(1);
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      email: row.invitation.email,
+      role: row.invitation.role as UserRole,
+      invitedBy: row.inviter_name || row.inviter_email,
+      expiresAt: row.invitation.expires_at,
+    };
+  }
+
+  /**
+   * Accept an invitation: create the account with the invited role
+   * Returns the user to sign in. The link can only be used once.
+   */
+  static async acceptInvitation(token: string): Promise<{ user: typeof users.$inferSelect; invitation: UserInvitation }> {
+    const [pending] = await db
+      .select()
+      .from(userInvitations)
+      .where(this.isUsable(token))
+      .limit(1);
+
+    if (!pending) {
+      throw new Error('This invitation is invalid or has expired');
+    }
+
+    const [existingUser] = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, pending.email))
+      .limit(1);
+
+    if (existingUser && !existingUser.is_active) {
+      throw new Error('Your account has been deactivated. Please contact an administrator.');
+    }
+
+    // Claimed with a conditional update so two concurrent requests cannot both use it
+    const [invitation] = await db
+      .update(userInvitations)
+      .set({ accepted_at: new Date() })
+      .where(and(eq(userInvitations.id, pending.id), this.isUsable(token)))
+      .returning();
+
+    if (!invitation) {
+      throw new Error('This invitation is invalid or has expired');
+    }
+
+    // The account may have been created in the meantime (e.g. by an allowed-domain sign-in).
+    // It keeps its role: role changes go through user management, which protects owners.
+    const [user] = existingUser
+      ? [existingUser]
+      : await db
+        .insert(users)
+        .values({
+          email: invitation.email,
+          name: invitation.email.split('@')[0], // Use email prefix as default name
+          role: invitation.role as UserRole,
+        })
+        .returning();
+
+    await db
+      .update(userInvitations)
+      .set({ user_id: user.id })
+      .where(eq(userInvitations.id, invitation.id));
+
+    return { user, invitation: this.toInvitation(invitation) };
+  }
+
+  /**
+   * Whether the address joined through an invitation
+   * Such users may sign in from outside ALLOWED_DOMAINS.
+   */
+  static async hasAcceptedInvitation(email: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: userInvitations.id })
+      .from(userInvitations)
+      .innerJoin(users, eq(userInvitations.user_id, users.id))
+      .where(and(
+        eq(userInvitations.email, email.toLowerCase().trim()),
+        eq(users.email, userInvitations.email)
+      ))
+      .limit(1);
+
+    return Boolean(row);
+  }
+
+  private static async getOpenInvitation(id: string) {
+    if (!z.string().uuid().safeParse(id).success) {
+      throw new Error('Invitation not found');
+    }
+
+    const [invitation] = await db
+      .select()
+      .from(userInvitations)
+      .where(this.isOpen(eq(userInvitations.id, id)))
+      .limit(1);
+
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  private static assertCanInvite(actor: InvitationActor, role: UserRole): void {
+    if (role === 'owner' && actor.role !== 'owner') {
+      throw new Error('Only owners can manage owner accounts');
+    }
+  }
+
+  private static async sendInvitationEmail(
+    invitation: typeof userInvitations.$inferSelect,
+    token: string,
+    inviter: InvitationActor
+  ): Promise<void> {
+    const url = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001'}/admin/auth/invite?token=${token}`;
+
+    try {
+      await EmailService.sendInvitation(invitation.email, {
+        url,
+        invitedBy: inviter.name || inviter.email,
+        role: ROLE_LABELS[invitation.role as UserRole] || invitation.role,
+        expiresAt: invitation.expires_at,
+      });
+    } catch (error) {
+      throw new Error(`Failed to send invitation email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Neither accepted nor revoked (possibly expired)
+  private static isOpen(condition: ReturnType<typeof eq>) {
+    return and(condition, isNull(userInvitations.accepted_at), isNull(userInvitations.revoked_at));
+  }
+
+  // Open and not yet expired
+  private static isUsable(token: string) {
+    return and(
+      this.isOpen(eq(userInvitations.token_hash, this.hashToken(token))),
+      gt(userInvitations.expires_at, new Date())
+    );
+  }
+
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private static toInvitation(row: typeof userInvitations.$inferSelect, invitedByEmail?: string | null): UserInvitation {
+    return {
+      id: row.id,
+      email: row.email,
+      role: row.role as UserRole,
+      invited_by: row.invited_by ?? undefined,
+      invited_by_email: invitedByEmail ?? undefined,
+      expires_at: row.expires_at,
+      last_sent_at: row.last_sent_at,
+      accepted_at: row.accepted_at ?? undefined,
+      revoked_at: row.revoked_at ?? undefined,
+      created_at: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,470 @@
+import { db } from '@/lib/db';
+import { contentBlocks, blockTags, tags, slugAliases } from '@/lib/db/schema';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { slugSchema, urlSchema, isReservedSlug } from '@/lib/urlShortener';
+import { BlockService, RedirectImportItem } from './block-service';
+
+/**
+ * LINK IMPORT SERVICE
+ *
+ * Bulk import of redirect links from CSV or JSON (e.g. exports of other
+ * shorteners) and the matching export. Imports are previewed with a dry run
+ * and written in a single transaction, so a failed import changes nothing.
+ */
+
+export type ImportFormat = 'csv' | 'json';
+export type ImportStrategy = 'skip' | 'overwrite' | 'rename';
+export type ImportAction = 'create' | 'overwrite' | 'skip' | 'invalid';
+export type ImportConflict = 'exists' | 'reserved' | 'alias' | 'duplicate';
+
+export interface ImportRowResult {
+  row: number; // 1-based data row (CSV header excluded)
+  slug: string;
+  finalSlug?: string; // Differs from `slug` when renamed
+  url?: string;
+  title?: string;
+  action: ImportAction;
+  conflict?: ImportConflict;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  strategy: ImportStrategy;
+  rows: ImportRowResult[];
+  summary: Record<ImportAction, number> & { total: number; renamed: number };
+}
+
+export interface ImportOptions {
+  format: ImportFormat;
+  content: string;
+  strategy: ImportStrategy;
+  dryRun: boolean;
+}
+
+export const MAX_IMPORT_ROWS = 2000;
+
+// Column names used by common shorteners, mapped to our fields
+const COLUMN_ALIASES: Record<string, string[]> = {
+  slug: ['slug', 'short', 'keyword', 'alias', 'back_half', 'backhalf', 'short_code'],
+  url: ['url', 'target', 'target_url', 'destination', 'destination_url', 'long_url', 'original_url'],
+  title: ['title', 'name'],
+  tags: ['tags', 'tag', 'labels'],
+  published: ['published', 'is_published', 'enabled', 'active'],
+};
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'published', 'enabled', 'active'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', 'draft', 'disabled', 'inactive'];
+
+// Slugs are stored lowercase, so imported ones are normalised after validation
+const importRowSchema = z.object({
+  slug: slugSchema.transform((slug) => slug.toLowerCase()),
+  url: urlSchema,
+  title: z.string().max(200, 'Title must be at most 200 characters').optional(),
+  tags: z.array(z.string().min(1).max(100, 'Tags must be at most 100 characters')).max(20, 'At most 20 tags per link'),
+  is_published: z.boolean(),
+});
+
+type ImportRow = z.infer<typeof importRowSchema>;
+
+interface RawRow {
+  slug?: unknown;
+  url?: unknown;
+  title?: unknown;
+  tags?: unknown;
+  published?: unknown;
+}
+
+export class LinkImportService {
+  /**
+   * Preview (dry run) or run an import
+   */
+  static async importLinks(options: ImportOptions, userId?: string | null): Promise<ImportReport> {
+    const rawRows = options.format === 'csv'
+      ? this.parseCSV(options.content)
+      : this.parseJSON(options.content);
+
+    if (rawRows.length === 0) {
+      throw new Error('The file contains no links');
+    }
+
+    if (rawRows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Imports are limited to ${MAX_IMPORT_ROWS} links at a time`);
+    }
+
+    const { results, items } = await this.planImport(rawRows, options.strategy);
+
+    if (!options.dryRun && items.length > 0) {
+      await BlockService.importRedirectBlocks(items, userId);
+    }
+
+    const summary = { total: results.length, create: 0, overwrite: 0, skip: 0, invalid: 0, renamed: 0 };
+    for (const result of results) {
+      summary[result.action]++;
+      if (result.finalSlug && result.finalSlug !== result.slug) {
+        summary.renamed++;
+      }
+    }
+
+    return {
+      dryRun: options.dryRun,
+      strategy: options.strategy,
+      rows: results,
+      summary,
+    };
+  }
+
+  /**
+   * Export all root redirect blocks
+   */
+  static async exportLinks(format: ImportFormat): Promise<string> {
+    const blocks = await db
+      .select({
+        id: contentBlocks.id,
+        slug: contentBlocks.slug,
+        data: contentBlocks.data,
+        metadata: contentBlocks.metadata,
+        is_published: contentBlocks.is_published,
+      })
+      .from(contentBlocks)
+      .where(and(eq(contentBlocks.renderer, 'redirect'), eq(contentBlocks.type, 'root')))
+      .orderBy(asc(contentBlocks.slug));
+
+    const tagRows = blocks.length > 0
+      ? await db
+        .select({ block_id: blockTags.block_id, name: tags.name })
+        .from(blockTags)
+        .innerJoin(tags, eq(blockTags.tag_id, tags.id))
+        .where(inArray(blockTags.block_id, blocks.map((block) => block.id)))
+      : [];
+
+    const tagsByBlock = new Map<string, string[]>();
+    for (const row of tagRows) {
+      tagsByBlock.set(row.block_id, [...(tagsByBlock.get(row.block_id) || []), row.name]);
+    }
+
+    const links = blocks.map((block) => {
+      const data = block.data as Record<string, unknown>;
+      const metadata = block.metadata as Record<string, unknown>;
+      return {
+        slug: block.slug,
+        url: String(data.url || ''),
+        title: String(metadata.title || data.cardTitle || ''),
+        tags: (tagsByBlock.get(block.id) || []).sort(),
+        published: block.is_published,
+      };
+    });
+
+    if (format === 'json') {
+      return JSON.stringify({ links }, null, 2);
+    }
+
+    const lines = [['slug', 'url', 'title', 'tags', 'published']];
+    for (const link of links) {
+      lines.push([link.slug, link.url, link.title, link.tags.join(';'), String(link.published)]);
+    }
+
+    return lines.map((line) => line.map((value) => this.escapeCSV(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Validate rows and resolve slug conflicts according to the strategy
+   */
+  private static async planImport(rawRows: RawRow[], strategy: ImportStrategy): Promise<{
+    results: ImportRowResult[];
+    items: RedirectImportItem[];
+  }> {
+    const validated = rawRows.map((raw, index) => this.validateRow(raw, index + 1));
+    const slugs = validated.flatMap((entry) => (entry.row ? [entry.row.slug] : []));
+
+    const existingBlocks = slugs.length > 0
+      ? await db
+        .select({ id: contentBlocks.id, slug: contentBlocks.slug, renderer: contentBlocks.renderer, type: contentBlocks.type })
+        .from(contentBlocks)
+        .where(inArray(contentBlocks.slug, slugs))
+      : [];
+    const existingAliases = slugs.length > 0
+      ? await db
+        .select({ slug: slugAliases.slug })
+        .from(slugAliases)
+        .where(inArray(slugAliases.slug, slugs))
+      : [];
+
+    const existingBySlug = new Map(existingBlocks.map((block) => [block.slug, block]));
+    const aliasSlugs = new Set(existingAliases.map((alias) => alias.slug));
+    const plannedSlugs = new Set<string>();
+
+    const results: ImportRowResult[] = [];
+    const items: RedirectImportItem[] = [];
+
+    for (const { rowNumber, rawSlug, row, errors } of validated) {
+      if (!row) {
+        results.push({ row: rowNumber, slug: rawSlug, action: 'invalid', errors });
+        continue;
+      }
+
+      const base = { row: rowNumber, slug: row.slug, url: row.url, title: row.title };
+      const existing = existingBySlug.get(row.slug);
+
+      let conflict: ImportConflict | undefined;
+      if (plannedSlugs.has(row.slug)) {
+        conflict = 'duplicate';
+      } else if (BlockService.isReservedSlug(row.slug) || isReservedSlug(row.slug)) {
+        conflict = 'reserved';
+      } else if (aliasSlugs.has(row.slug)) {
+        conflict = 'alias';
+      } else if (existing) {
+        conflict = 'exists';
+      }
+
+      if (!conflict) {
+        plannedSlugs.add(row.slug);
+        items.push(this.toImportItem(row, row.slug));
+        results.push({ ...base, finalSlug: row.slug, action: 'create' });
+        continue;
+      }
+
+      if (strategy === 'overwrite' && conflict === 'exists' && existing) {
+        if (existing.renderer !== 'redirect' || existing.type !== 'root') {
+          results.push({
+            ...base,
+            action: 'invalid',
+            conflict,
+            errors: [`Slug belongs to ${existing.renderer === 'redirect' ? 'a child' : `a ${existing.renderer}`} block and cannot be overwritten`],
+          });
+          continue;
+        }
+
+        plannedSlugs.add(row.slug);
+        items.push({ ...this.toImportItem(row, row.slug), existingId: existing.id });
+        results.push({ ...base, finalSlug: row.slug, action: 'overwrite', conflict });
+        continue;
+      }
+
+      if (strategy === 'rename') {
+        const finalSlug = await this.findAvailableSlug(row.slug, plannedSlugs);
+        if (finalSlug) {
+          plannedSlugs.add(finalSlug);
+          items.push(this.toImportItem(row, finalSlug));
+          results.push({ ...base, finalSlug, action: 'create', conflict });
+          continue;
+        }
+      }
+
+      results.push({ ...base, action: 'skip', conflict });
+    }
+
+    return { results, items };
+  }
+
+  private static toImportItem(row: ImportRow, slug: string): RedirectImportItem {
+    return {
+      slug,
+      url: row.url,
+      title: row.title,
+      tags: row.tags,
+      is_published: row.is_published,
+    };
+  }
+
+  /**
+   * Find a free `slug-2`, `slug-3`, ... variant that is not used by this import either
+   * All candidates are checked against blocks and aliases in a single query.
+   */
+  private static async findAvailableSlug(slug: string, plannedSlugs: Set<string>): Promise<string | null> {
+    const candidates: string[] = [];
+    for (let i = 2; i <= 100; i++) {
+      const suffix = `-${i}`;
+      const candidate = `${slug.slice(0, 50 - suffix.length)}${suffix}`;
+      if (!plannedSlugs.has(candidate) && !isReservedSlug(candidate) && !BlockService.isReservedSlug(candidate)) {
+        candidates.push(candidate);
+      }
+    }
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const taken = await db
+      .select({ slug: contentBlocks.slug })
+      .from(contentBlocks)
+      .where(inArray(contentBlocks.slug, candidates))
+      .unionAll(
+        db
+          .select({ slug: slugAliases.slug })
+          .from(slugAliases)
+          .where(inArray(slugAliases.slug, candidates))
+      );
+
+    const takenSlugs = new Set(taken.map((row) => row.slug));
+    return candidates.find((candidate) => !takenSlugs.has(candidate)) || null;
+  }
+
+  /**
+   * Normalise a raw row and validate it against the URL shortener schemas
+   */
+  private static validateRow(raw: RawRow, rowNumber: number): {
+    rowNumber: number;
+    rawSlug: string;
+    row?: ImportRow;
+    errors?: string[];
+  } {
+    const rawSlug = typeof raw.slug === 'string' ? raw.slug.trim() : String(raw.slug ?? '');
+    const errors: string[] = [];
+
+    const tagValue = raw.tags;
+    const tagList = Array.isArray(tagValue)
+      ? tagValue.map((tag) => String(tag))
+      : typeof tagValue === 'string' ? tagValue.split(/[;,|]/) : [];
+
+    let isPublished = true;
+    if (typeof raw.published === 'boolean') {
+      isPublished = raw.published;
+    } else if (raw.published !== undefined && raw.published !== null && String(raw.published).trim() !== '') {
+      const value = String(raw.published).trim().toLowerCase();
+      if (TRUE_VALUES.includes(value)) {
+        isPublished = true;
+      } else if (FALSE_VALUES.includes(value)) {
+        isPublished = false;
+      } else {
+        errors.push(`Unrecognised published value "${raw.published}"`);
+      }
+    }
+
+    const title = typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : undefined;
+
+    const parsed = importRowSchema.safeParse({
+      slug: rawSlug,
+      url: typeof raw.url === 'string' ? raw.url.trim() : raw.url,
+      title,
+      tags: [...new Set(tagList.map((tag) => tag.trim()).filter(Boolean))],
+      is_published: isPublished,
+    });
+
+    if (!parsed.success) {
+      errors.push(...parsed.error.issues.map((issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`));
+    }
+
+    if (errors.length > 0 || !parsed.success) {
+      return { rowNumber, rawSlug, errors };
+    }
+
+    return { rowNumber, rawSlug, row: parsed.data };
+  }
+
+  /**
+   * Parse a JSON array of links, or an object with a `links` array (our export format)
+   */
+  private static parseJSON(content: string): RawRow[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    const list = Array.isArray(parsed)
+      ? parsed
+      : parsed && typeof parsed === 'object' && Array.isArray((parsed as { links?: unknown }).links)
+        ? (parsed as { links: unknown[] }).links
+        : null;
+
+    if (!list) {
+      throw new Error('JSON imports must be an array of links or an object with a "links" array');
+    }
+
+    return list.map((entry) => {
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        return {};
+      }
+      const record = Object.fromEntries(
+        Object.entries(entry as Record<string, unknown>).map(([key, value]) => [key.trim().toLowerCase(), value])
+      );
+      return this.mapColumns(record);
+    });
+  }
+
+  /**
+   * Parse CSV with a header row (RFC 4180 quoting)
+   */
+  private static parseCSV(content: string): RawRow[] {
+    const records = this.splitCSV(content.replace(/^\uFEFF/, ''));
+    const [header, ...rows] = records.filter((record) => record.some((value) => value.trim() !== ''));
+
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map((name) => name.trim().toLowerCase());
+    if (!COLUMN_ALIASES.slug.some((name) => columns.includes(name)) ||
+        !COLUMN_ALIASES.url.some((name) => columns.includes(name))) {
+      throw new Error('CSV files need a header row with slug and url columns');
+    }
+
+    return rows.map((values) => {
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, i) => {
+        record[column] = values[i] ?? '';
+      });
+      return this.mapColumns(record);
+    });
+  }
+
+  private static mapColumns(record: Record<string, unknown>): RawRow {
+    const row: Record<string, unknown> = {};
+    for (const [field, names] of Object.entries(COLUMN_ALIASES)) {
+      const column = names.find((name) => record[name] !== undefined);
+      if (column) {
+        row[field] = record[column];
+      }
+    }
+    return row as RawRow;
+  }
+
+  private static splitCSV(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let value = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          value += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        record.push(value);
+        records.push(record);
+        record = [];
+        value = '';
+      } else {
+        value += char;
+      }
+    }
+
+    if (value !== '' || record.length > 0) {
+      record.push(value);
+      records.push(record);
+    }
+
+    return records;
+  }
+
+  private static escapeCSV(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
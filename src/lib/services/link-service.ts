@@ -2,6 +2,7 @@ import { db } from '@/lib/db';
 import { contentBlocks, clicks } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { SlugService } from './slug-service';
+import { PrivacyService } from './privacy-service';
 import { 
   slugSchema, 
   urlSchema, 
@@ -319,11 +320,11 @@ export class LinkService {
         timestamp: new Date(),
         referrer: metadata?.referrer,
         user_agent: metadata?.userAgent,
-        ip_address: metadata?.ipAddress,
+        ...await PrivacyService.getClickIdentity(metadata?.ipAddress, metadata?.userAgent),
         country: country,
         metadata: {
           click_type: 'link_redirect',
-          ...metadata,
+          ...PrivacyService.stripRawMetadata(metadata || {}),
         },
       });
     } catch {
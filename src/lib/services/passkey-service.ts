@@ -0,0 +1,299 @@
+import { db } from '@/lib/db';
+import { passkeyChallenges, passkeys, users } from '@/lib/db/schema';
+import type { Passkey } from '@/lib/db/schema';
+import { and, desc, eq, gt, lt } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { SettingsService } from '@/lib/services/settings-service';
+
+/**
+ * PASSKEY SERVICE
+ *
+ * WebAuthn registration and sign-in. Sign-in uses discoverable credentials,
+ * so the browser offers the user's passkeys without asking for an email
+ * first. Challenges live in the database for a few minutes and are deleted
+ * by the first verification attempt, successful or not.
+ */
+
+export const passkeyNameSchema = z.string().trim().min(1, 'Name is required').max(100);
+
+export interface PasskeyOptions<T> {
+  challengeId: string; // Sent back with the browser's response
+  options: T;
+}
+
+type ChallengePurpose = 'registration' | 'authentication';
+
+const CHALLENGE_EXPIRY_MS = 5 * 60 * 1000;
+
+// Origin and RP ID must match what the browser sees, so they come from the public app URL
+function getRelyingParty(): { rpID: string; origin: string } {
+  const origin = new URL(process.env.WEBAUTHN_ORIGIN || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001').origin;
+  return {
+    rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+    origin,
+  };
+}
+
+export class PasskeyService {
+  /**
+   * List a user's passkeys, newest first
+   */
+  static async listPasskeys(userId: string): Promise<Passkey[]> {
+    const rows = await db
+      .select()
+      .from(passkeys)
+      .where(eq(passkeys.user_id, userId))
+      .orderBy(desc(passkeys.created_at));
+
+    return rows.map((row) => this.toPasskey(row));
+  }
+
+  /**
+   * Options for adding a passkey to the signed-in user's account
+   */
+  static async getRegistrationOptions(user: {
+    user_id: string;
+    email: string;
+    name?: string | null;
+  }): Promise<PasskeyOptions<PublicKeyCredentialCreationOptionsJSON>> {
+    const { rpID } = getRelyingParty();
+    const { general } = await SettingsService.getSettings();
+    const existing = await db
+      .select({ credential_id: passkeys.credential_id, transports: passkeys.transports })
+      .from(passkeys)
+      .where(eq(passkeys.user_id, user.user_id));
+
+    const options = await generateRegistrationOptions({
+      rpName: general.siteName,
+      rpID,
+      userName: user.email,
+      userDisplayName: user.name || user.email,
+      userID: new TextEncoder().encode(user.user_id),
+      attestationType: 'none',
+      // The same authenticator cannot be registered twice
+      excludeCredentials: existing.map((credential) => ({
+        id: credential.credential_id,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'preferred',
+      },
+    });
+
+    const challengeId = await this.storeChallenge(options.challenge, 'registration', user.user_id);
+    return { challengeId, options };
+  }
+
+  /**
+   * Verify the browser's registration response and store the credential
+   */
+  static async verifyRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    name: string
+  ): Promise<Passkey> {
+    const validatedName = passkeyNameSchema.parse(name);
+    const challenge = await this.takeChallenge(challengeId, 'registration');
+    if (!challenge || challenge.user_id !== userId) {
+      throw new Error('Passkey request expired. Please try again.');
+    }
+
+    const { rpID, origin } = getRelyingParty();
+    const verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+    }).catch((error: Error) => {
+      throw new Error(`Passkey verification failed: ${error.message}`);
+    });
+
+    if (!verification.verified) {
+      throw new Error('Passkey verification failed');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+    const [passkey] = await db
+      .insert(passkeys)
+      .values({
+        user_id: userId,
+        credential_id: credential.id,
+        public_key: Buffer.from(credential.publicKey).toString('base64url'),
+        counter: credential.counter,
+        transports: credential.transports || [],
+        device_type: credentialDeviceType,
+        backed_up: credentialBackedUp,
+        name: validatedName,
+      })
+      .returning();
+
+    return this.toPasskey(passkey);
+  }
+
+  /**
+   * Options for signing in with any passkey registered for this site
+   */
+  static async getAuthenticationOptions(): Promise<PasskeyOptions<PublicKeyCredentialRequestOptionsJSON>> {
+    const { rpID } = getRelyingParty();
+    const options = await generateAuthenticationOptions({
+      rpID,
+      userVerification: 'preferred',
+    });
+
+    const challengeId = await this.storeChallenge(options.challenge, 'authentication');
+    return { challengeId, options };
+  }
+
+  /**
+   * Verify a sign-in assertion; returns the (active) user it belongs to
+   * `userVerified` tells whether the authenticator checked a PIN or biometric.
+   */
+  static async verifyAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON
+  ): Promise<{ userId: string; userVerified: boolean }> {
+    const challenge = await this.takeChallenge(challengeId, 'authentication');
+    if (!challenge) {
+      throw new Error('Passkey request expired. Please try again.');
+    }
+
+    const [stored] = await db
+      .select({ passkey: passkeys, is_active: users.is_active })
+      .from(passkeys)
+      .innerJoin(users, eq(passkeys.user_id, users.id))
+      .where(eq(passkeys.credential_id, response.id))
+      .limit(1);
+
+    if (!stored) {
+      throw new Error('This passkey is not registered. Sign in with a magic link instead.');
+    }
+    if (!stored.is_active) {
+      throw new Error('Your account has been deactivated. Please contact an administrator.');
+    }
+
+    const { rpID, origin } = getRelyingParty();
+    const verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+      credential: {
+        id: stored.passkey.credential_id,
+        publicKey: new Uint8Array(Buffer.from(stored.passkey.public_key, 'base64url')),
+        counter: stored.passkey.counter,
+        transports: stored.passkey.transports as AuthenticatorTransportFuture[],
+      },
+    }).catch((error: Error) => {
+      throw new Error(`Passkey verification failed: ${error.message}`);
+    });
+
+    if (!verification.verified) {
+      throw new Error('Passkey verification failed');
+    }
+
+    await db
+      .update(passkeys)
+      .set({ counter: verification.authenticationInfo.newCounter, last_used_at: new Date() })
+      .where(eq(passkeys.id, stored.passkey.id));
+
+    return {
+      userId: stored.passkey.user_id,
+      userVerified: verification.authenticationInfo.userVerified,
+    };
+  }
+
+  /**
+   * Rename one of a user's passkeys
+   */
+  static async renamePasskey(userId: string, id: string, name: string): Promise<Passkey> {
+    const [passkey] = await db
+      .update(passkeys)
+      .set({ name: passkeyNameSchema.parse(name) })
+      .where(and(eq(passkeys.id, id), eq(passkeys.user_id, userId)))
+      .returning();
+
+    if (!passkey) {
+      throw new Error('Passkey not found');
+    }
+
+    return this.toPasskey(passkey);
+  }
+
+  /**
+   * Remove one of a user's passkeys
+   */
+  static async deletePasskey(userId: string, id: string): Promise<Passkey> {
+    const [passkey] = await db
+      .delete(passkeys)
+      .where(and(eq(passkeys.id, id), eq(passkeys.user_id, userId)))
+      .returning();
+
+    if (!passkey) {
+      throw new Error('Passkey not found');
+    }
+
+    return this.toPasskey(passkey);
+  }
+
+  private static async storeChallenge(challenge: string, purpose: ChallengePurpose, userId?: string): Promise<string> {
+    // Opportunistic cleanup keeps the table small without a cron job
+    await db.delete(passkeyChallenges).where(lt(passkeyChallenges.expires_at, new Date()));
+
+    const [stored] = await db
+      .insert(passkeyChallenges)
+      .values({
+        challenge,
+        purpose,
+        user_id: userId || null,
+        expires_at: new Date(Date.now() + CHALLENGE_EXPIRY_MS),
+      })
+      .returning({ id: passkeyChallenges.id });
+
+    return stored.id;
+  }
+
+  // Deletes the challenge so it can only be answered once
+  private static async takeChallenge(id: string, purpose: ChallengePurpose) {
+    if (!z.string().uuid().safeParse(id).success) {
+      return null;
+    }
+
+    const [challenge] = await db
+      .delete(passkeyChallenges)
+      .where(and(
+        eq(passkeyChallenges.id, id),
+        eq(passkeyChallenges.purpose, purpose),
+        gt(passkeyChallenges.expires_at, new Date())
+      ))
+      .returning();
+
+    return challenge || null;
+  }
+
+  private static toPasskey(row: typeof passkeys.$inferSelect): Passkey {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      name: row.name,
+      device_type: row.device_type,
+      backed_up: row.backed_up,
+      last_used_at: row.last_used_at ?? undefined,
+      created_at: row.created_at,
+    };
+  }
+}
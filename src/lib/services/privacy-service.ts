@@ -0,0 +1,225 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { clicks, visitorSalts } from '@/lib/db/schema';
+import { normalizeIp, truncateIp } from '@/lib/request-info';
+import { DEFAULT_SETTINGS, SettingsService, type AppSettings } from '@/lib/services/settings-service';
+import { and, eq, inArray, isNotNull, lt, or, sql } from 'drizzle-orm';
+
+/**
+ * PRIVACY SERVICE
+ *
+ * Keeps click analytics useful without holding on to who clicked. Unique
+ * visitors are counted by a hash of IP address and user agent salted with
+ * a random value that changes every UTC day, so the same person gets a new
+ * ID each day and the hash cannot be reversed without that day's salt.
+ * Depending on the privacy settings the raw IP is stored in full, truncated
+ * to its network (the default) or not at all, and IPs and user agents of
+ * clicks older than the retention period are purged together with the
+ * salts of those days. Until then the salts let an erasure request find a
+ * visitor's clicks even when their IP was never stored. When raw data is
+ * kept indefinitely, salts are still deleted once they are no longer needed
+ * for tracking (before yesterday), so old hashes cannot be reversed.
+ */
+
+// How often a process checks for expired raw data while tracking clicks
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Metadata keys that duplicate the raw-data columns (also listed in the purge and erase queries)
+const RAW_METADATA_KEYS = ['ipAddress', 'userAgent'];
+
+export interface ClickIdentity {
+  ip_address: string | null;
+  visitor_hash: string | null;
+}
+
+export interface PurgeResult {
+  clicksPurged: number;
+  saltsDeleted: number;
+}
+
+// Salts of recent days, so tracking a click does not read the table every time
+const saltCache = new Map<string, string>();
+let lastPurge = 0;
+
+export class PrivacyService {
+  /**
+   * IP address to store and visitor ID for a click, following the privacy settings
+   */
+  static async getClickIdentity(
+    ipAddress: string | null | undefined,
+    userAgent: string | null | undefined,
+    at: Date = new Date()
+  ): Promise<ClickIdentity> {
+    const address = ipAddress ? normalizeIp(ipAddress) : null;
+    if (!address) {
+      return { ip_address: null, visitor_hash: null };
+    }
+
+    const { ipStorage } = await this.getPrivacySettings();
+    const salt = await this.getSalt(this.toDay(at));
+
+    return {
+      ip_address: ipStorage === 'full' ? address : ipStorage === 'truncated' ? truncateIp(address) : null,
+      visitor_hash: this.hashVisitor(salt, address, userAgent),
+    };
+  }
+
+  /**
+   * Click metadata without the raw values that are kept in (or left out of) their own columns
+   */
+  static stripRawMetadata(metadata: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(metadata).filter(([key]) => !RAW_METADATA_KEYS.includes(key)));
+  }
+
+  /**
+   * Remove IPs and user agents from clicks older than the retention period,
+   * and the salts that could link their visitor IDs back to an address
+   */
+  static async purgeExpiredData(): Promise<PurgeResult> {
+    const { rawDataRetentionDays } = await this.getPrivacySettings();
+    if (rawDataRetentionDays === 0) {
+      // Raw data is kept, but only today's and yesterday's salts are needed for tracking
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      return { clicksPurged: 0, saltsDeleted: await this.deleteSaltsBefore(yesterday) };
+    }
+
+    const cutoff = new Date(Date.now() - rawDataRetentionDays * 24 * 60 * 60 * 1000);
+
+    const purged = await db
+      .update(clicks)
+      .set({
+        ip_address: null,
+        user_agent: null,
+        metadata: sql`${clicks.metadata} - array['ipAddress', 'userAgent']`,
+      })
+      .where(and(
+        lt(clicks.timestamp, cutoff),
+        or(
+          isNotNull(clicks.ip_address),
+          isNotNull(clicks.user_agent),
+          sql`${clicks.metadata} ?| array['ipAddress', 'userAgent']`,
+        ),
+      ))
+      .returning({ id: clicks.id });
+
+    return { clicksPurged: purged.length, saltsDeleted: await this.deleteSaltsBefore(cutoff) };
+  }
+
+  /**
+   * Run the purge at most every few hours per process; called while tracking clicks
+   */
+  static async purgeIfDue(): Promise<void> {
+    const now = Date.now();
+    if (now - lastPurge < PURGE_INTERVAL_MS) return;
+    lastPurge = now;
+
+    try {
+      await this.purgeExpiredData();
+    } catch {
+      // Retried at the next interval - tracking must not fail because of it
+    }
+  }
+
+  /**
+   * Erase one visitor's personal data from their clicks (e.g. for a GDPR request)
+   * Matches the stored IP in full or truncated form (which also covers other
+   * visitors from the same network), and with the user agent also the visitor
+   * ID of every day whose salt is still kept. The clicks stay counted, without
+   * IP, user agent, referrer, location or visitor ID. Returns the number of
+   * clicks erased, and throws when none matched so a request is never
+   * reported as done without touching anything.
+   */
+  static async eraseVisitor(ipAddress: string, userAgent?: string | null): Promise<number> {
+    const address = normalizeIp(ipAddress);
+    if (!address) {
+      throw new Error('Invalid IP address');
+    }
+
+    const matches = [inArray(clicks.ip_address, [address, truncateIp(address) || address])];
+    if (userAgent) {
+      const salts = await db.select({ salt: visitorSalts.salt }).from(visitorSalts);
+      const hashes = salts.map(({ salt }) => this.hashVisitor(salt, address, userAgent));
+      if (hashes.length > 0) {
+        matches.push(inArray(clicks.visitor_hash, hashes));
+      }
+    }
+
+    const erased = await db
+      .update(clicks)
+      .set({
+        ip_address: null,
+        user_agent: null,
+        visitor_hash: null,
+        referrer: null,
+        region: null,
+        city: null,
+        metadata: sql`${clicks.metadata} - array['ipAddress', 'userAgent', 'referrer']`,
+      })
+      .where(or(...matches))
+      .returning({ id: clicks.id });
+
+    if (erased.length === 0) {
+      throw new Error(userAgent
+        ? 'No clicks found for this visitor'
+        : 'No clicks found for this visitor; add their user agent to match clicks stored without an IP');
+    }
+
+    return erased.length;
+  }
+
+  // A day's salt is only dropped once the whole day is past the cutoff
+  private static async deleteSaltsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(visitorSalts)
+      .where(lt(visitorSalts.day, this.toDay(cutoff)))
+      .returning({ day: visitorSalts.day });
+
+    for (const { day } of deleted) {
+      saltCache.delete(day);
+    }
+
+    return deleted.length;
+  }
+
+  private static hashVisitor(salt: string, ipAddress: string, userAgent: string | null | undefined): string {
+    return createHash('sha256').update(`${salt}:${ipAddress}:${userAgent || ''}`).digest('hex');
+  }
+
+  // The salt of a UTC day, created by whichever replica needs it first
+  private static async getSalt(day: string): Promise<string> {
+    const cached = saltCache.get(day);
+    if (cached) {
+      return cached;
+    }
+
+    await db
+      .insert(visitorSalts)
+      .values({ day, salt: randomBytes(32).toString('hex') })
+      .onConflictDoNothing();
+
+    const [row] = await db
+      .select({ salt: visitorSalts.salt })
+      .from(visitorSalts)
+      .where(eq(visitorSalts.day, day))
+      .limit(1);
+
+    // Only today and yesterday are needed for tracking
+    if (saltCache.size >= 2) {
+      saltCache.delete(saltCache.keys().next().value!);
+    }
+    saltCache.set(day, row.salt);
+    return row.salt;
+  }
+
+  private static toDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static async getPrivacySettings(): Promise<AppSettings['privacy']> {
+    try {
+      return (await SettingsService.getSettings()).privacy;
+    } catch {
+      return DEFAULT_SETTINGS.privacy;
+    }
+  }
+}
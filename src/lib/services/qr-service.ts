@@ -0,0 +1,191 @@
+import { db } from '@/lib/db';
+import { contentBlocks, mediaAssets } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { z } from 'zod';
+import QRCode from 'qrcode';
+import sharp from 'sharp';
+
+/**
+ * QR CODE SERVICE
+ *
+ * Renders a block's public URL as a QR code in SVG or PNG. The encoded URL
+ * carries a query marker so scans are tracked as a separate click source.
+ */
+
+// Query marker appended to QR URLs (e.g. https://gremlin.link/promo?qr=1)
+export const QR_SOURCE_PARAM = 'qr';
+
+const hexColor = z.string().regex(/^#?[0-9a-fA-F]{6}$/, 'Colours must be 6-digit hex values')
+  .transform((value) => (value.startsWith('#') ? value : `#${value}`));
+
+export const qrOptionsSchema = z.object({
+  format: z.enum(['svg', 'png']).default('svg'),
+  size: z.coerce.number().int().min(64).max(2048).default(512),
+  margin: z.coerce.number().int().min(0).max(16).default(4),
+  level: z.enum(['L', 'M', 'Q', 'H']).default('M'),
+  fg: hexColor.default('#000000'),
+  bg: hexColor.default('#ffffff'),
+  logo: z.string().uuid().optional(),
+});
+
+export type QROptions = z.infer<typeof qrOptionsSchema>;
+
+export interface QRImage {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+// Share of the code width covered by a centred logo
+const LOGO_RATIO = 0.22;
+
+export class QRService {
+  /**
+   * Public URL of a slug, tagged as a QR scan
+   */
+  static getQRUrl(slug: string): string {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001';
+    return `${baseUrl.replace(/\/$/, '')}/${slug}?${QR_SOURCE_PARAM}=1`;
+  }
+
+  /**
+   * Render the QR code for a block
+   */
+  static async generateForBlock(blockId: string, options: QROptions): Promise<QRImage> {
+    const [block] = await db
+      .select({ slug: contentBlocks.slug, type: contentBlocks.type })
+      .from(contentBlocks)
+      .where(eq(contentBlocks.id, blockId))
+      .limit(1);
+
+    if (!block) {
+      throw new Error('Block not found');
+    }
+
+    if (block.type !== 'root') {
+      throw new Error('Only root blocks have a public URL');
+    }
+
+    const url = this.getQRUrl(block.slug);
+    const logo = options.logo ? await this.loadLogo(options.logo) : null;
+
+    // A logo hides part of the code, so it needs the higher error-correction levels
+    const level = logo && (options.level === 'L' || options.level === 'M') ? 'H' : options.level;
+    const renderOptions = { ...options, level };
+
+    const body = options.format === 'png'
+      ? await this.renderPNG(url, renderOptions, logo)
+      : await this.renderSVG(url, renderOptions, logo);
+
+    return {
+      body,
+      contentType: options.format === 'png' ? 'image/png' : 'image/svg+xml',
+      filename: `${block.slug.replace(/\//g, '-')}-qr.${options.format}`,
+    };
+  }
+
+  /**
+   * Render an SVG QR code, embedding the logo as a data URI
+   */
+  private static async renderSVG(url: string, options: QROptions, logo: Buffer | null): Promise<Buffer> {
+    let svg = await QRCode.toString(url, {
+      type: 'svg',
+      width: options.size,
+      margin: options.margin,
+      errorCorrectionLevel: options.level,
+      color: { dark: options.fg, light: options.bg },
+    });
+
+    if (logo) {
+      // Coordinates are in module units taken from the generated viewBox
+      const viewBoxSize = Number(svg.match(/viewBox="0 0 (\d+) \d+"/)?.[1] || 0);
+      if (viewBoxSize > 0) {
+        const logoSize = viewBoxSize * LOGO_RATIO;
+        const offset = (viewBoxSize - logoSize) / 2;
+        const logoPng = await this.prepareLogo(logo, 256, options.bg);
+        const overlay = `<image x="${offset}" y="${offset}" width="${logoSize}" height="${logoSize}" href="data:image/png;base64,${logoPng.toString('base64')}"/>`;
+        svg = svg.replace('</svg>', `${overlay}</svg>`);
+      }
+    }
+
+    return Buffer.from(svg, 'utf8');
+  }
+
+  /**
+   * Render a PNG QR code, compositing the logo in the centre
+   */
+  private static async renderPNG(url: string, options: QROptions, logo: Buffer | null): Promise<Buffer> {
+    const qr = await QRCode.toBuffer(url, {
+      type: 'png',
+      width: options.size,
+      margin: options.margin,
+      errorCorrectionLevel: options.level,
+      color: { dark: options.fg, light: options.bg },
+    });
+
+    if (!logo) {
+      return qr;
+    }
+
+    const { width = options.size } = await sharp(qr).metadata();
+    const logoPng = await this.prepareLogo(logo, Math.round(width * LOGO_RATIO), options.bg);
+
+    return sharp(qr)
+      .composite([{ input: logoPng, gravity: 'centre' }])
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Fit the logo into a square tile on the background colour
+   */
+  private static async prepareLogo(logo: Buffer, size: number, background: string): Promise<Buffer> {
+    const padding = Math.max(1, Math.round(size * 0.08));
+    const inner = Math.max(1, size - padding * 2);
+
+    return sharp(logo)
+      .resize(inner, inner, { fit: 'contain', background })
+      .flatten({ background })
+      .extend({ top: padding, bottom: padding, left: padding, right: padding, background })
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Load a logo from the media library (local file or external storage URL)
+   */
+  private static async loadLogo(assetId: string): Promise<Buffer> {
+    const [asset] = await db
+      .select({ storage_path: mediaAssets.storage_path, mime_type: mediaAssets.mime_type })
+      .from(mediaAssets)
+      .where(eq(mediaAssets.id, assetId))
+      .limit(1);
+
+    if (!asset) {
+      throw new Error('Logo not found');
+    }
+
+    if (asset.mime_type && !asset.mime_type.startsWith('image/')) {
+      throw new Error('Logo must be an image');
+    }
+
+    if (asset.storage_path.startsWith('http://') || asset.storage_path.startsWith('https://')) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+
+      try {
+        const response = await fetch(asset.storage_path, { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error('Failed to load logo');
+        }
+        return Buffer.from(await response.arrayBuffer());
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+
+    return readFile(join(process.cwd(), 'public', asset.storage_path));
+  }
+}
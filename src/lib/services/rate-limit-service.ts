@@ -0,0 +1,191 @@
+import { NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/request-info';
+import { SettingsService } from '@/lib/services/settings-service';
+import {
+  DatabaseRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitStore,
+} from '@/lib/rate-limit/stores';
+
+/**
+ * RATE LIMIT SERVICE
+ *
+ * Named fixed-window limits applied by the routes that need them, keyed by
+ * client IP or email address. Windows can be tuned per rule with
+ * RATE_LIMIT_<RULE>=<limit>/<seconds> (e.g. RATE_LIMIT_MAGIC_LINK_EMAIL=5/3600),
+ * and the whole feature follows the "Enable Rate Limiting" security setting.
+ * Counters live in memory unless RATE_LIMIT_STORE=database.
+ */
+
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+const DEFAULT_RULES = {
+  'magic-link-ip': { limit: 10, windowSeconds: 15 * 60 }, // Sign-in emails requested from one IP
+  'magic-link-email': { limit: 3, windowSeconds: 15 * 60 }, // Sign-in emails sent to one address
+  'magic-link-verify': { limit: 10, windowSeconds: 15 * 60 }, // Failed verifications before the IP is locked out
+  'link-unlock': { limit: 10, windowSeconds: 15 * 60 }, // Wrong passwords for one link before the IP is locked out
+  'redirect': { limit: 120, windowSeconds: 60 },
+  'public-blocks': { limit: 60, windowSeconds: 60 },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitRuleName = keyof typeof DEFAULT_RULES;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  retryAfter: number; // Seconds until the window resets
+}
+
+let store: RateLimitStore | null = null;
+
+export class RateLimitService {
+  /**
+   * Replace the counter store, e.g. with a Redis-backed one
+   */
+  static setStore(customStore: RateLimitStore): void {
+    store = customStore;
+  }
+
+  /**
+   * Limit and window for a rule, after environment overrides
+   */
+  static getRule(name: RateLimitRuleName): RateLimitRule {
+    const override = process.env[`RATE_LIMIT_${name.replace(/-/g, '_').toUpperCase()}`];
+    const match = override?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+    if (match && Number(match[1]) > 0 && Number(match[2]) > 0) {
+      return { limit: Number(match[1]), windowSeconds: Number(match[2]) };
+    }
+    return DEFAULT_RULES[name];
+  }
+
+  /**
+   * Count one request against a rule; `allowed` is false once the limit is exceeded
+   */
+  static async hit(name: RateLimitRuleName, key: string): Promise<RateLimitResult> {
+    const rule = this.getRule(name);
+    if (!(await this.isEnabled())) {
+      return this.unlimited(rule);
+    }
+
+    try {
+      const counter = await this.getStore().increment(this.storeKey(name, key), rule.windowSeconds * 1000);
+      return this.toResult(rule, counter.count, counter.resetAt, counter.count <= rule.limit);
+    } catch {
+      // A broken store must not take sign-in or redirects down with it
+      return this.unlimited(rule);
+    }
+  }
+
+  /**
+   * Whether a rule is already exhausted, without counting a request
+   * Used for limits that only count failures, such as magic-link verification.
+   */
+  static async check(name: RateLimitRuleName, key: string): Promise<RateLimitResult> {
+    const rule = this.getRule(name);
+    if (!(await this.isEnabled())) {
+      return this.unlimited(rule);
+    }
+
+    try {
+      const counter = await this.getStore().get(this.storeKey(name, key));
+      if (!counter) {
+        return this.unlimited(rule);
+      }
+      return this.toResult(rule, counter.count, counter.resetAt, counter.count < rule.limit);
+    } catch {
+      return this.unlimited(rule);
+    }
+  }
+
+  /**
+   * Clear a rule's counter for a key (e.g. after a successful sign-in)
+   */
+  static async reset(name: RateLimitRuleName, key: string): Promise<void> {
+    try {
+      await this.getStore().reset(this.storeKey(name, key));
+    } catch {
+      // The window expires on its own
+    }
+  }
+
+  /**
+   * Rate-limit key for the requesting client
+   */
+  static clientKey(request: Request): string {
+    return getClientIp(request) || 'unknown';
+  }
+
+  /**
+   * 429 response with Retry-After and X-RateLimit-* headers
+   */
+  static tooManyRequests(result: RateLimitResult, error: string): NextResponse {
+    return NextResponse.json(
+      { error, retryAfter: result.retryAfter },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(result.retryAfter),
+          'X-RateLimit-Limit': String(result.limit),
+          'X-RateLimit-Remaining': String(result.remaining),
+          'X-RateLimit-Reset': String(Math.ceil(result.resetAt.getTime() / 1000)),
+        },
+      }
+    );
+  }
+
+  /**
+   * "5 minutes" style wait for messages shown to people
+   */
+  static formatRetryAfter(seconds: number): string {
+    if (seconds < 60) return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+  }
+
+  private static async isEnabled(): Promise<boolean> {
+    try {
+      return (await SettingsService.getSettings()).security.enableRateLimit;
+    } catch {
+      // Keep limiting if settings cannot be read
+      return true;
+    }
+  }
+
+  private static getStore(): RateLimitStore {
+    if (!store) {
+      store = process.env.RATE_LIMIT_STORE === 'database'
+        ? new DatabaseRateLimitStore()
+        : new MemoryRateLimitStore();
+    }
+    return store;
+  }
+
+  private static storeKey(name: RateLimitRuleName, key: string): string {
+    return `${name}:${key.toLowerCase()}`.slice(0, 255);
+  }
+
+  private static toResult(rule: RateLimitRule, count: number, resetAt: Date, allowed: boolean): RateLimitResult {
+    return {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - count),
+      resetAt,
+      retryAfter: Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000)),
+    };
+  }
+
+  private static unlimited(rule: RateLimitRule): RateLimitResult {
+    return {
+      allowed: true,
+      limit: rule.limit,
+      remaining: rule.limit,
+      resetAt: new Date(Date.now() + rule.windowSeconds * 1000),
+      retryAfter: 0,
+    };
+  }
+}
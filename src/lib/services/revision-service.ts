@@ -0,0 +1,296 @@
+import { db, type Transaction } from '@/lib/db';
+import { contentBlocks, blockRevisions, users } from '@/lib/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import type { ContentBlock } from '@/lib/db/schema';
+import { ACCESS_PASSWORD_METADATA_KEY, preserveAccessPassword } from '@/lib/link-access';
+
+/**
+ * BLOCK REVISION SERVICE
+ *
+ * Snapshots a block's data and metadata into block_revisions before every
+ * update, so earlier versions can be listed, compared and restored.
+ * Access password hashes are kept out of listings and diffs, and a restore
+ * leaves the block's current password in place.
+ */
+
+export interface RevisionSummary {
+  id: string;
+  block_id: string;
+  data: Record<string, unknown>;
+  metadata: Record<string, unknown> | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_by_name: string | null;
+  created_at: Date;
+}
+
+export interface RevisionChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+// Snapshot shape used for diffs ('current' refers to the live block)
+export interface RevisionSnapshot {
+  data: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Metadata as shown to editors, without the access password hash
+function withoutAccessPassword(metadata: Record<string, unknown> | null): Record<string, unknown> | null {
+  if (!metadata || !(ACCESS_PASSWORD_METADATA_KEY in metadata)) {
+    return metadata;
+  }
+  const rest = { ...metadata };
+  delete rest[ACCESS_PASSWORD_METADATA_KEY];
+  return rest;
+}
+
+/**
+ * Recursively compare two values and collect changed paths.
+ * Arrays are compared as a whole to keep diffs readable.
+ */
+function collectChanges(before: unknown, after: unknown, path: string, changes: RevisionChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of Array.from(keys).sort()) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in before)) {
+        changes.push({ path: childPath, type: 'added', after: after[key] });
+      } else if (!(key in after)) {
+        changes.push({ path: childPath, type: 'removed', before: before[key] });
+      } else {
+        collectChanges(before[key], after[key], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, type: 'changed', before, after });
+  }
+}
+
+export class RevisionService {
+  /**
+   * Record a snapshot of the block's current data and metadata.
+   * Accepts a transaction so the snapshot commits together with the update.
+   * Skipped when the update leaves the content as it is (pass the new content
+   * as `next`) or when the latest revision already holds this snapshot.
+   */
+  static async recordRevision(
+    tx: Transaction,
+    block: Pick<ContentBlock, 'id' | 'data' | 'metadata'>,
+    userId?: string | null,
+    next?: RevisionSnapshot
+  ): Promise<void> {
+    const snapshot: RevisionSnapshot = {
+      data: (block.data as Record<string, unknown>) || {},
+      metadata: (block.metadata as Record<string, unknown>) || {},
+    };
+
+    if (next && this.diffSnapshots(snapshot, next).length === 0) {
+      return;
+    }
+
+    const [latest] = await tx
+      .select({ data: blockRevisions.data, metadata: blockRevisions.metadata })
+      .from(blockRevisions)
+      .where(eq(blockRevisions.block_id, block.id))
+      .orderBy(desc(blockRevisions.created_at))
+      .limit(1);
+
+    const latestSnapshot = latest && {
+      data: (latest.data as Record<string, unknown>) || {},
+      metadata: (latest.metadata as Record<string, unknown>) || {},
+    };
+    if (latestSnapshot && this.diffSnapshots(latestSnapshot, snapshot).length === 0) {
+      return;
+    }
+
+    await tx.insert(blockRevisions).values({
+      block_id: block.id,
+      data: block.data || {},
+      metadata: block.metadata || {},
+      created_by: userId || null,
+    });
+  }
+
+  /**
+   * List revisions for a block, newest first
+   */
+  static async getRevisions(blockId: string, limit = 50): Promise<RevisionSummary[]> {
+    const result = await db
+      .select({
+        id: blockRevisions.id,
+        block_id: blockRevisions.block_id,
+        data: blockRevisions.data,
+        metadata: blockRevisions.metadata,
+        created_by: blockRevisions.created_by,
+        created_by_email: users.email,
+        created_by_name: users.name,
+        created_at: blockRevisions.created_at,
+      })
+      .from(blockRevisions)
+      .leftJoin(users, eq(blockRevisions.created_by, users.id))
+      .where(eq(blockRevisions.block_id, blockId))
+      .orderBy(desc(blockRevisions.created_at))
+      .limit(limit);
+
+    return (result as RevisionSummary[]).map((revision) => ({
+      ...revision,
+      metadata: withoutAccessPassword(revision.metadata),
+    }));
+  }
+
+  /**
+   * Get a single revision scoped to its block
+   */
+  static async getRevision(blockId: string, revisionId: string): Promise<RevisionSummary | null> {
+    const [revision] = await db
+      .select({
+        id: blockRevisions.id,
+        block_id: blockRevisions.block_id,
+        data: blockRevisions.data,
+        metadata: blockRevisions.metadata,
+        created_by: blockRevisions.created_by,
+        created_by_email: users.email,
+        created_by_name: users.name,
+        created_at: blockRevisions.created_at,
+      })
+      .from(blockRevisions)
+      .leftJoin(users, eq(blockRevisions.created_by, users.id))
+      .where(and(
+        eq(blockRevisions.id, revisionId),
+        eq(blockRevisions.block_id, blockId),
+      ))
+      .limit(1);
+
+    if (!revision) {
+      return null;
+    }
+
+    return {
+      ...(revision as RevisionSummary),
+      metadata: withoutAccessPassword(revision.metadata as Record<string, unknown> | null),
+    };
+  }
+
+  /**
+   * Diff two revisions of a block. Either side may be 'current' to compare
+   * against the live block.
+   */
+  static async diffRevisions(blockId: string, fromId: string, toId: string): Promise<RevisionChange[]> {
+    const [from, to] = await Promise.all([
+      this.getSnapshot(blockId, fromId),
+      this.getSnapshot(blockId, toId),
+    ]);
+
+    if (!from || !to) {
+      throw new Error('Revision not found');
+    }
+
+    return this.diffSnapshots(from, to);
+  }
+
+  /**
+   * Compute the changes between two snapshots
+   */
+  static diffSnapshots(from: RevisionSnapshot, to: RevisionSnapshot): RevisionChange[] {
+    const changes: RevisionChange[] = [];
+    collectChanges(from.data, to.data, 'data', changes);
+    collectChanges(from.metadata, to.metadata, 'metadata', changes);
+    return changes;
+  }
+
+  /**
+   * Roll a block back to a revision. The current state is snapshotted first,
+   * so a restore can itself be undone.
+   */
+  static async restoreRevision(blockId: string, revisionId: string, userId?: string | null): Promise<ContentBlock> {
+    return db.transaction(async (tx) => {
+      const [block] = await tx
+        .select()
+        .from(contentBlocks)
+        .where(eq(contentBlocks.id, blockId))
+        .limit(1);
+
+      if (!block) {
+        throw new Error('Block not found');
+      }
+
+      const [revision] = await tx
+        .select()
+        .from(blockRevisions)
+        .where(and(
+          eq(blockRevisions.id, revisionId),
+          eq(blockRevisions.block_id, blockId),
+        ))
+        .limit(1);
+
+      if (!revision) {
+        throw new Error('Revision not found');
+      }
+
+      // The password can only be changed through its own endpoint, not rolled back
+      const metadata = preserveAccessPassword(
+        (revision.metadata as Record<string, unknown>) || {},
+        block.metadata as Record<string, unknown> | null
+      );
+
+      await this.recordRevision(tx, block as ContentBlock, userId, {
+        data: revision.data as Record<string, unknown>,
+        metadata,
+      });
+
+      const [restoredBlock] = await tx
+        .update(contentBlocks)
+        .set({
+          data: revision.data,
+          metadata,
+          updated_at: new Date(),
+        })
+        .where(eq(contentBlocks.id, blockId))
+        .returning();
+
+      return restoredBlock as ContentBlock;
+    });
+  }
+
+  /**
+   * Resolve a revision id (or 'current') to a data/metadata snapshot
+   */
+  private static async getSnapshot(blockId: string, revisionId: string): Promise<RevisionSnapshot | null> {
+    if (revisionId === 'current') {
+      const [block] = await db
+        .select({ data: contentBlocks.data, metadata: contentBlocks.metadata })
+        .from(contentBlocks)
+        .where(eq(contentBlocks.id, blockId))
+        .limit(1);
+
+      if (!block) {
+        return null;
+      }
+
+      return {
+        data: (block.data as Record<string, unknown>) || {},
+        metadata: withoutAccessPassword(block.metadata as Record<string, unknown> | null) || {},
+      };
+    }
+
+    const revision = await this.getRevision(blockId, revisionId);
+    if (!revision) {
+      return null;
+    }
+
+    return {
+      data: revision.data || {},
+      metadata: revision.metadata || {},
+    };
+  }
+}
@@ -0,0 +1,201 @@
+import { db } from '@/lib/db';
+import { userSessions, users } from '@/lib/db/schema';
+import type { UserSession } from '@/lib/db/schema';
+import { and, desc, eq, gt, ne } from 'drizzle-orm';
+import { z } from 'zod';
+import { SESSION_COOKIE_MAX_AGE } from '@/lib/auth-constants';
+import { getClientIp } from '@/lib/request-info';
+import { parseUserAgent } from '@/lib/user-agent';
+import { SettingsService } from '@/lib/services/settings-service';
+
+/**
+ * SESSION SERVICE
+ *
+ * Admin sign-in sessions with the device they were created from. The
+ * security settings add an idle timeout and an absolute lifetime on top of
+ * the cookie expiry; both are checked on every validation, and sessions
+ * that fail them are deleted.
+ */
+
+export interface ValidSession {
+  session_id: string;
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  is_active: boolean;
+}
+
+// Avoid a write on every request; also the precision of the idle timeout
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+export class SessionService {
+  /**
+   * Store a new session for `token`, recording the device it signed in from
+   */
+  static async createSession(userId: string, token: string, request?: Request): Promise<void> {
+    const userAgent = request?.headers.get('user-agent') || null;
+
+    await db.insert(userSessions).values({
+      user_id: userId,
+      token,
+      expires_at: new Date(Date.now() + SESSION_COOKIE_MAX_AGE * 1000),
+      user_agent: userAgent,
+      ip_address: request ? getClientIp(request) : null,
+      device_label: this.describeDevice(userAgent),
+    });
+  }
+
+  /**
+   * Resolve a session token to its (active) user, enforcing the session policies
+   */
+  static async validateSession(token: string): Promise<ValidSession | null> {
+    const [session] = await db
+      .select({
+        session_id: userSessions.id,
+        user_id: userSessions.user_id,
+        last_seen_at: userSessions.last_seen_at,
+        created_at: userSessions.created_at,
+        email: users.email,
+        name: users.name,
+        role: users.role,
+        is_active: users.is_active,
+      })
+      .from(userSessions)
+      .innerJoin(users, eq(userSessions.user_id, users.id))
+      .where(
+        and(
+          eq(userSessions.token, token),
+          gt(userSessions.expires_at, new Date()),
+          eq(users.is_active, true)
+        )
+      )
+      .limit(1);
+
+    if (!session) {
+      return null;
+    }
+
+    const { security } = await SettingsService.getSettings();
+    const now = Date.now();
+    const idleExpired = security.sessionIdleTimeout > 0 &&
+      now - session.last_seen_at.getTime() > security.sessionIdleTimeout * 60 * 1000;
+    const lifetimeExpired = now - session.created_at.getTime() > security.sessionMaxLifetime * 60 * 60 * 1000;
+
+    if (idleExpired || lifetimeExpired) {
+      await db.delete(userSessions).where(eq(userSessions.id, session.session_id));
+      return null;
+    }
+
+    if (now - session.last_seen_at.getTime() > LAST_SEEN_RESOLUTION_MS) {
+      await db
+        .update(userSessions)
+        .set({ last_seen_at: new Date(now) })
+        .where(eq(userSessions.id, session.session_id));
+    }
+
+    return {
+      session_id: session.session_id,
+      user_id: session.user_id,
+      email: session.email,
+      name: session.name,
+      role: session.role,
+      is_active: session.is_active,
+    };
+  }
+
+  /**
+   * A user's unexpired sessions, most recently active first
+   */
+  static async listUserSessions(userId: string, currentSessionId?: string | null): Promise<UserSession[]> {
+    const rows = await db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.user_id, userId), gt(userSessions.expires_at, new Date())))
+      .orderBy(desc(userSessions.last_seen_at));
+
+    return rows.map((row) => this.toUserSession(row, currentSessionId));
+  }
+
+  /**
+   * Every user's unexpired sessions, most recently active first
+   */
+  static async listAllSessions(currentSessionId?: string | null): Promise<UserSession[]> {
+    const rows = await db
+      .select({ session: userSessions, user_email: users.email })
+      .from(userSessions)
+      .innerJoin(users, eq(userSessions.user_id, users.id))
+      .where(gt(userSessions.expires_at, new Date()))
+      .orderBy(desc(userSessions.last_seen_at));
+
+    return rows.map((row) => ({
+      ...this.toUserSession(row.session, currentSessionId),
+      user_email: row.user_email,
+    }));
+  }
+
+  /**
+   * Look up a session by ID, or null (e.g. already signed out)
+   */
+  static async getSession(id: string): Promise<UserSession | null> {
+    if (!z.string().uuid().safeParse(id).success) {
+      return null;
+    }
+
+    const [row] = await db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.id, id))
+      .limit(1);
+
+    return row ? this.toUserSession(row) : null;
+  }
+
+  /**
+   * Sign out a single session
+   */
+  static async revokeSession(id: string): Promise<void> {
+    await db.delete(userSessions).where(eq(userSessions.id, id));
+  }
+
+  /**
+   * Sign out all of a user's sessions except `keepSessionId`; returns how many were removed
+   */
+  static async revokeOtherSessions(userId: string, keepSessionId: string): Promise<number> {
+    const removed = await db
+      .delete(userSessions)
+      .where(and(eq(userSessions.user_id, userId), ne(userSessions.id, keepSessionId)))
+      .returning({ id: userSessions.id });
+
+    return removed.length;
+  }
+
+  /**
+   * Short label such as "Firefox on Windows" for the sessions list
+   */
+  static describeDevice(userAgent: string | null): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    // Same labels as the click analytics
+    const { browser, os } = parseUserAgent(userAgent);
+
+    if (browser && os) return `${browser} on ${os}`;
+    return browser || os || userAgent.split(/[\s/]/)[0].slice(0, 50) || 'Unknown device';
+  }
+
+  private static toUserSession(row: typeof userSessions.$inferSelect, currentSessionId?: string | null): UserSession {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      device_label: row.device_label || this.describeDevice(row.user_agent),
+      user_agent: row.user_agent ?? undefined,
+      ip_address: row.ip_address ?? undefined,
+      last_seen_at: row.last_seen_at,
+      expires_at: row.expires_at,
+      created_at: row.created_at,
+      current: row.id === currentSessionId,
+    };
+  }
+}
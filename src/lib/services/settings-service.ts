@@ -0,0 +1,263 @@
+import { db } from '@/lib/db';
+import { appSettings } from '@/lib/db/schema';
+import { decryptSecret, encryptSecret, isEncryptedSecret } from '@/lib/encryption';
+import { EMAIL_TRANSPORTS } from '@/lib/email/transports';
+import { and, eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+/**
+ * SETTINGS SERVICE
+ *
+ * Admin settings persisted per section in `app_settings`, so they survive
+ * restarts and are shared by every replica. Each section carries a version
+ * for optimistic locking. Secrets are encrypted at rest and never leave the
+ * server in plaintext; reads are cached briefly because settings are checked
+ * on hot paths such as click tracking.
+ */
+
+// How much of a visitor's IP address click analytics keep
+export const IP_STORAGE_MODES = ['full', 'truncated', 'none'] as const;
+export type IpStorageMode = typeof IP_STORAGE_MODES[number];
+
+export const settingsSchema = z.object({
+  general: z.object({
+    siteName: z.string().min(1).max(100),
+    siteUrl: z.string().url(),
+    siteDescription: z.string().max(500),
+  }),
+  security: z.object({
+    requireAuth: z.boolean(),
+    enableRateLimit: z.boolean(),
+    enableAnalytics: z.boolean(),
+    requireTwoFactor: z.boolean(), // Users without 2FA must enrol at their next sign-in
+    sessionIdleTimeout: z.number().int().min(0).max(60 * 24 * 7), // Minutes without activity; 0 disables
+    sessionMaxLifetime: z.number().int().min(1).max(24 * 7), // Hours from sign-in, up to the 7-day cookie
+  }),
+  email: z.object({
+    transport: z.enum(['auto', ...EMAIL_TRANSPORTS]), // 'auto' defers to EMAIL_TRANSPORT / RESEND_API_KEY
+    fromEmail: z.union([z.literal(''), z.string().email()]), // Empty falls back to FROM_EMAIL
+    smtpHost: z.string(),
+    smtpPort: z.number().int().min(1).max(65535),
+    smtpUsername: z.string().max(255), // Not always an address (e.g. "apikey")
+    smtpPassword: z.string(),
+  }),
+  domain: z.object({
+    customDomain: z.string(),
+    forceHttps: z.boolean(),
+  }),
+  privacy: z.object({
+    ipStorage: z.enum(IP_STORAGE_MODES), // 'truncated' keeps the /24 (IPv4) or /48 (IPv6) network
+    rawDataRetentionDays: z.number().int().min(0).max(3650), // IPs and user agents of older clicks are purged; 0 keeps them (salts still go after a day)
+  }),
+});
+
+export type AppSettings = z.infer<typeof settingsSchema>;
+export type SettingsSection = keyof AppSettings;
+
+// Secrets: omitted or empty keeps the stored value, null clears it
+export const updateSettingsSchema = settingsSchema.extend({
+  email: settingsSchema.shape.email.extend({
+    smtpPassword: z.string().max(500).nullable().optional(),
+  }),
+  versions: z.record(z.string(), z.number().int()).optional(), // Versions the editor loaded
+});
+
+export type UpdateSettingsData = z.infer<typeof updateSettingsSchema>;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  general: {
+    siteName: 'GremlinLink',
+    siteUrl: 'https://gremlin.link',
+    siteDescription: 'A powerful URL shortener and content management system',
+  },
+  security: {
+    requireAuth: true,
+    enableRateLimit: true,
+    enableAnalytics: true,
+    requireTwoFactor: false,
+    sessionIdleTimeout: 0,
+    sessionMaxLifetime: 24 * 7,
+  },
+  email: {
+    transport: 'auto',
+    fromEmail: '',
+    smtpHost: 'smtp.gmail.com',
+    smtpPort: 587,
+    smtpUsername: 'your-email@example.com',
+    smtpPassword: '',
+  },
+  domain: {
+    customDomain: 'your-domain.com',
+    forceHttps: true,
+  },
+  privacy: {
+    ipStorage: 'truncated',
+    rawDataRetentionDays: 30,
+  },
+};
+
+const SETTINGS_SECTIONS = Object.keys(DEFAULT_SETTINGS) as SettingsSection[];
+
+// Fields stored encrypted, per section
+const SECRET_FIELDS: Partial<Record<SettingsSection, string[]>> = {
+  email: ['smtpPassword'],
+};
+
+// How long other replicas may serve settings that changed elsewhere
+const CACHE_TTL_MS = 30 * 1000;
+
+interface StoredSettings {
+  settings: AppSettings;
+  versions: Record<SettingsSection, number>;
+}
+
+// Settings as returned to the admin UI: secrets blanked, with a flag telling whether one is set
+export type AdminSettingsView = Omit<AppSettings, 'email'> & {
+  email: AppSettings['email'] & { hasSmtpPassword: boolean };
+  versions: Record<SettingsSection, number>;
+};
+
+let cache: { value: StoredSettings; expiresAt: number } | null = null;
+
+export class SettingsService {
+  /**
+   * Current settings with secrets decrypted (server-side use only)
+   */
+  static async getSettings(): Promise<AppSettings> {
+    return (await this.load()).settings;
+  }
+
+  /**
+   * Settings for the admin UI, without secret values
+   */
+  static async getAdminSettings(): Promise<AdminSettingsView> {
+    const { settings, versions } = await this.load(true);
+    return this.toAdminView(settings, versions);
+  }
+
+  /**
+   * Save all sections; only sections whose values changed get a new version
+   * Throws when a section was saved by someone else since `versions` was read.
+   */
+  static async updateSettings(
+    data: UpdateSettingsData,
+    userId?: string | null
+  ): Promise<{ previous: AppSettings; settings: AdminSettingsView }> {
+    const { versions: expectedVersions, ...input } = updateSettingsSchema.parse(data);
+    const { settings: previous, versions } = await this.load(true);
+
+    const next: AppSettings = {
+      ...input,
+      email: {
+        ...input.email,
+        smtpPassword: input.email.smtpPassword === null
+          ? ''
+          : input.email.smtpPassword || previous.email.smtpPassword,
+      },
+    };
+
+    await db.transaction(async (tx) => {
+      for (const section of SETTINGS_SECTIONS) {
+        if (JSON.stringify(next[section]) === JSON.stringify(previous[section])) continue;
+
+        const expectedVersion = expectedVersions?.[section] ?? versions[section];
+        const value = this.encryptSection(section, next[section]);
+
+        const saved = expectedVersion === 0
+          ? await tx
+            .insert(appSettings)
+            .values({ section, value, version: 1, updated_by: userId || null })
+            .onConflictDoNothing()
+            .returning({ section: appSettings.section })
+          : await tx
+            .update(appSettings)
+            .set({
+              value,
+              version: sql`${appSettings.version} + 1`,
+              updated_by: userId || null,
+              updated_at: new Date(),
+            })
+            .where(and(eq(appSettings.section, section), eq(appSettings.version, expectedVersion)))
+            .returning({ section: appSettings.section });
+
+        if (saved.length === 0) {
+          throw new Error('Settings were changed by someone else. Reload and try again.');
+        }
+      }
+    });
+
+    cache = null;
+    return { previous, settings: await this.getAdminSettings() };
+  }
+
+  /**
+   * Whether visitor analytics should be recorded
+   */
+  static async isAnalyticsEnabled(): Promise<boolean> {
+    try {
+      return (await this.getSettings()).security.enableAnalytics;
+    } catch {
+      // Keep tracking if settings cannot be read
+      return true;
+    }
+  }
+
+  private static async load(fresh = false): Promise<StoredSettings> {
+    if (!fresh && cache && cache.expiresAt > Date.now()) {
+      return cache.value;
+    }
+
+    const rows = await db.select().from(appSettings);
+    const settings = structuredClone(DEFAULT_SETTINGS);
+    // Version 0 means the section still uses the defaults
+    const versions = Object.fromEntries(SETTINGS_SECTIONS.map((section) => [section, 0])) as Record<SettingsSection, number>;
+
+    for (const row of rows) {
+      const section = row.section as SettingsSection;
+      if (!SETTINGS_SECTIONS.includes(section)) continue;
+
+      // Stored values are merged over the defaults so fields added later get a value
+      Object.assign(settings[section], this.decryptSection(section, row.value as Record<string, unknown>));
+      versions[section] = row.version;
+    }
+
+    const value = { settings, versions };
+    cache = { value, expiresAt: Date.now() + CACHE_TTL_MS };
+    return value;
+  }
+
+  private static encryptSection(section: SettingsSection, value: AppSettings[SettingsSection]): Record<string, unknown> {
+    const stored: Record<string, unknown> = { ...value };
+    for (const field of SECRET_FIELDS[section] || []) {
+      const secret = stored[field];
+      stored[field] = typeof secret === 'string' && secret ? encryptSecret(secret) : '';
+    }
+    return stored;
+  }
+
+  private static decryptSection(section: SettingsSection, value: Record<string, unknown>): Record<string, unknown> {
+    const settings = { ...value };
+    for (const field of SECRET_FIELDS[section] || []) {
+      const secret = settings[field];
+      try {
+        settings[field] = isEncryptedSecret(secret) ? decryptSecret(secret) : '';
+      } catch {
+        // Unreadable with the current key - treat as unset rather than failing every read
+        settings[field] = '';
+      }
+    }
+    return settings;
+  }
+
+  private static toAdminView(settings: AppSettings, versions: Record<SettingsSection, number>): AdminSettingsView {
+    return {
+      ...settings,
+      email: {
+        ...settings.email,
+        smtpPassword: '',
+        hasSmtpPassword: settings.email.smtpPassword !== '',
+      },
+      versions,
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import { db, type Transaction } from '@/lib/db';
+import { contentBlocks, slugAliases } from '@/lib/db/schema';
+import { eq, and, desc, lt, or, isNull, sql, SQL } from 'drizzle-orm';
+
+/**
+ * SLUG ALIAS SERVICE
+ *
+ * Keeps the previous slugs of renamed blocks so printed and shared URLs
+ * keep working. Aliases stay reserved until an admin prunes them.
+ */
+
+export interface SlugAliasSummary {
+  id: string;
+  slug: string;
+  block_id: string;
+  current_slug: string;
+  hit_count: number;
+  last_hit_at: Date | null;
+  created_at: Date;
+}
+
+export interface ResolvedAlias {
+  id: string;
+  blockId: string;
+  currentSlug: string;
+}
+
+export interface PruneAliasOptions {
+  blockId?: string;
+  unusedForDays?: number; // Only remove aliases not hit within this many days
+}
+
+export class SlugAliasService {
+  /**
+   * Record a rename inside an existing transaction
+   * Keeps the old slug as an alias and releases the new slug if it was
+   * one of this block's own aliases (renaming back).
+   */
+  static async recordRename(tx: Transaction, blockId: string, oldSlug: string, newSlug: string, userId?: string | null): Promise<void> {
+    if (oldSlug === newSlug) return;
+
+    const [conflict] = await tx
+      .select({ block_id: slugAliases.block_id })
+      .from(slugAliases)
+      .where(eq(slugAliases.slug, newSlug))
+      .limit(1);
+
+    if (conflict && conflict.block_id !== blockId) {
+      throw new Error(`Slug "${newSlug}" is reserved as a previous URL of another block`);
+    }
+
+    if (conflict) {
+      await tx
+        .delete(slugAliases)
+        .where(eq(slugAliases.slug, newSlug));
+    }
+
+    await tx
+      .insert(slugAliases)
+      .values({
+        slug: oldSlug,
+        block_id: blockId,
+        created_by: userId || null,
+      })
+      .onConflictDoUpdate({
+        target: slugAliases.slug,
+        set: { block_id: blockId, created_at: new Date() },
+      });
+  }
+
+  /**
+   * Resolve an old slug to the block's current slug
+   */
+  static async resolveAlias(slug: string): Promise<ResolvedAlias | null> {
+    const [alias] = await db
+      .select({
+        id: slugAliases.id,
+        blockId: slugAliases.block_id,
+        currentSlug: contentBlocks.slug,
+      })
+      .from(slugAliases)
+      .innerJoin(contentBlocks, eq(slugAliases.block_id, contentBlocks.id))
+      .where(eq(slugAliases.slug, slug))
+      .limit(1);
+
+    return alias || null;
+  }
+
+  /**
+   * Count a visit to an alias
+   */
+  static async recordHit(aliasId: string): Promise<void> {
+    await db
+      .update(slugAliases)
+      .set({
+        hit_count: sql`${slugAliases.hit_count} + 1`,
+        last_hit_at: new Date(),
+      })
+      .where(eq(slugAliases.id, aliasId));
+  }
+
+  /**
+   * Check whether a slug is held by an alias
+   */
+  static async isAlias(slug: string): Promise<boolean> {
+    const [alias] = await db
+      .select({ id: slugAliases.id })
+      .from(slugAliases)
+      .where(eq(slugAliases.slug, slug))
+      .limit(1);
+
+    return !!alias;
+  }
+
+  /**
+   * List aliases, optionally for a single block
+   */
+  static async getAliases(blockId?: string, limit = 200): Promise<SlugAliasSummary[]> {
+    return db
+      .select({
+        id: slugAliases.id,
+        slug: slugAliases.slug,
+        block_id: slugAliases.block_id,
+        current_slug: contentBlocks.slug,
+        hit_count: slugAliases.hit_count,
+        last_hit_at: slugAliases.last_hit_at,
+        created_at: slugAliases.created_at,
+      })
+      .from(slugAliases)
+      .innerJoin(contentBlocks, eq(slugAliases.block_id, contentBlocks.id))
+      .where(blockId ? eq(slugAliases.block_id, blockId) : undefined)
+      .orderBy(desc(slugAliases.created_at))
+      .limit(limit);
+  }
+
+  /**
+   * Delete a single alias, releasing its slug
+   */
+  static async deleteAlias(id: string): Promise<void> {
+    const [deleted] = await db
+      .delete(slugAliases)
+      .where(eq(slugAliases.id, id))
+      .returning({ id: slugAliases.id });
+
+    if (!deleted) {
+      throw new Error('Alias not found');
+    }
+  }
+
+  /**
+   * Remove aliases in bulk
+   * With `unusedForDays`, only aliases that have not been visited in that
+   * period (and were created before it) are removed.
+   */
+  static async pruneAliases(options: PruneAliasOptions = {}): Promise<number> {
+    const conditions: SQL[] = [];
+
+    if (options.blockId) {
+      conditions.push(eq(slugAliases.block_id, options.blockId));
+    }
+
+    if (options.unusedForDays !== undefined) {
+      const cutoff = new Date(Date.now() - options.unusedForDays * 24 * 60 * 60 * 1000);
+      conditions.push(lt(slugAliases.created_at, cutoff));
+      conditions.push(or(isNull(slugAliases.last_hit_at), lt(slugAliases.last_hit_at, cutoff))!);
+    }
+
+    const deleted = await db
+      .delete(slugAliases)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .returning({ id: slugAliases.id });
+
+    return deleted.length;
+  }
+}
@@ -3,6 +3,7 @@ import { contentBlocks } from '@/lib/db/schema';
 import { eq, and, asc, desc, count } from 'drizzle-orm';
 import { slugSchema, isReservedSlug } from '@/lib/urlShortener';
 import slugify from 'slugify';
+import { SlugAliasService } from './slug-alias-service';
 
 // Object types supported by the unified slug system
 export type ObjectType = 'redirect' | 'article' | 'image' | 'card' | 'gallery';
@@ -108,6 +109,10 @@ export class SlugService {
         throw new Error(`Slug "${data.slug}" is already taken by a ${existing.renderer}.`);
       }
 
+      if (await SlugAliasService.isAlias(data.slug)) {
+        throw new Error(`Slug "${data.slug}" is reserved as a previous URL of another block.`);
+      }
+
       // Create content block
       const [newBlock] = await tx
         .insert(contentBlocks)
@@ -153,6 +158,23 @@ export class SlugService {
         }
       }
 
+      if (oldSlug === newSlug) {
+        return;
+      }
+
+      const [block] = await tx
+        .select({ id: contentBlocks.id })
+        .from(contentBlocks)
+        .where(and(eq(contentBlocks.slug, oldSlug), eq(contentBlocks.renderer, renderer)))
+        .limit(1);
+
+      if (!block) {
+        throw new Error('Content not found');
+      }
+
+      // Keep the old slug as an alias so existing links keep working
+      await SlugAliasService.recordRename(tx, block.id, oldSlug, newSlug);
+
       // Update the slug
       await tx
         .update(contentBlocks)
@@ -160,7 +182,7 @@ export class SlugService {
           slug: newSlug,
           updated_at: new Date(),
         })
-        .where(and(eq(contentBlocks.slug, oldSlug), eq(contentBlocks.renderer, renderer)));
+        .where(eq(contentBlocks.id, block.id));
     });
   }
 
@@ -279,7 +301,12 @@ export class SlugService {
       .where(and(eq(contentBlocks.slug, slug), eq(contentBlocks.is_published, true)))
       .limit(1);
 
-    return !existing;
+    if (existing) {
+      return false;
+    }
+
+    // Previous slugs of renamed blocks stay reserved
+    return !await SlugAliasService.isAlias(slug);
   }
 
   /**
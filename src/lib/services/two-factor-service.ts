@@ -0,0 +1,314 @@
+import { db, type Transaction } from '@/lib/db';
+import { twoFactorChallenges, userTwoFactor } from '@/lib/db/schema';
+import { and, eq, gt, isNull, lt, or, sql } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { TWO_FACTOR_CHALLENGE_EXPIRY } from '@/lib/auth-constants';
+import { decryptSecret, encryptSecret } from '@/lib/encryption';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotpCode } from '@/lib/totp';
+import { SettingsService } from '@/lib/services/settings-service';
+
+/**
+ * TWO-FACTOR SERVICE
+ *
+ * Optional TOTP second step after the magic link. Enrolment stores an
+ * encrypted secret that only becomes active once a code from the app is
+ * confirmed. Recovery codes are single-use and stored as SHA-256 hashes.
+ * Sign-ins waiting for the second factor are tracked as short-lived
+ * challenges with a capped number of attempts.
+ */
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // Enforced for everyone by the security settings
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string; // For manual entry when the QR code cannot be scanned
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export type TwoFactorMethod = 'totp' | 'recovery';
+
+const RECOVERY_CODE_COUNT = 10;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export class TwoFactorService {
+  /**
+   * Whether the user has confirmed a TOTP enrolment
+   */
+  static async isEnabled(userId: string): Promise<boolean> {
+    const row = await this.getRow(userId);
+    return Boolean(row?.enabled_at);
+  }
+
+  /**
+   * Whether the security settings require every user to use 2FA
+   */
+  static async isRequired(): Promise<boolean> {
+    return (await SettingsService.getSettings()).security.requireTwoFactor;
+  }
+
+  static async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const row = await this.getRow(userId);
+    const enabled = Boolean(row?.enabled_at);
+
+    return {
+      enabled,
+      required: await this.isRequired(),
+      recoveryCodesRemaining: enabled ? (row!.recovery_code_hashes as string[]).length : 0,
+    };
+  }
+
+  /**
+   * Start (or restart) enrolment with a new secret
+   */
+  static async startEnrollment(userId: string, email: string): Promise<TwoFactorSetup> {
+    const existing = await this.getRow(userId);
+    if (existing?.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await db
+      .insert(userTwoFactor)
+      .values({ user_id: userId, secret: encryptSecret(secret) })
+      .onConflictDoUpdate({
+        target: userTwoFactor.user_id,
+        set: { secret: encryptSecret(secret), recovery_code_hashes: [], last_used_step: null, updated_at: new Date() },
+      });
+
+    const { general } = await SettingsService.getSettings();
+    const otpauthUrl = buildOtpAuthUrl({ issuer: general.siteName, account: email, secret });
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 2, width: 240 }),
+    };
+  }
+
+  /**
+   * Activate enrolment with a code from the app; returns the recovery codes
+   */
+  static async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const row = await this.getRow(userId);
+    if (!row) {
+      throw new Error('Two-factor setup has not been started');
+    }
+    if (row.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotpCode(decryptSecret(row.secret), code);
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await db
+      .update(userTwoFactor)
+      .set({
+        enabled_at: new Date(),
+        last_used_step: step,
+        recovery_code_hashes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+        updated_at: new Date(),
+      })
+      .where(eq(userTwoFactor.user_id, userId));
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP or recovery code; a used recovery code is consumed
+   * Pass a transaction to consume the code together with other changes.
+   */
+  static async verifyCode(userId: string, code: string, database: typeof db | Transaction = db): Promise<TwoFactorMethod | null> {
+    const row = await this.getRow(userId, database);
+    if (!row?.enabled_at) {
+      return null;
+    }
+
+    const step = verifyTotpCode(decryptSecret(row.secret), code);
+    if (step !== null) {
+      // Conditional update so the same code cannot be used twice, even concurrently
+      const [accepted] = await database
+        .update(userTwoFactor)
+        .set({ last_used_step: step })
+        .where(and(
+          eq(userTwoFactor.user_id, userId),
+          or(isNull(userTwoFactor.last_used_step), lt(userTwoFactor.last_used_step, step))
+        ))
+        .returning({ user_id: userTwoFactor.user_id });
+
+      return accepted ? 'totp' : null;
+    }
+
+    const hash = this.hashRecoveryCode(code);
+    const hashes = row.recovery_code_hashes as string[];
+    if (!hashes.includes(hash)) {
+      return null;
+    }
+
+    const [consumed] = await database
+      .update(userTwoFactor)
+      .set({
+        recovery_code_hashes: sql`${userTwoFactor.recovery_code_hashes} - ${hash}::text`,
+        updated_at: new Date(),
+      })
+      .where(and(
+        eq(userTwoFactor.user_id, userId),
+        sql`${userTwoFactor.recovery_code_hashes} ? ${hash}::text`
+      ))
+      .returning({ user_id: userTwoFactor.user_id });
+
+    return consumed ? 'recovery' : null;
+  }
+
+  /**
+   * Replace all recovery codes; returns the new codes
+   */
+  static async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    if (!(await this.isEnabled(userId))) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await db
+      .update(userTwoFactor)
+      .set({
+        recovery_code_hashes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+        updated_at: new Date(),
+      })
+      .where(eq(userTwoFactor.user_id, userId));
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Remove 2FA (self-service disable or admin reset)
+   */
+  static async disable(userId: string): Promise<boolean> {
+    const removed = await db
+      .delete(userTwoFactor)
+      .where(eq(userTwoFactor.user_id, userId))
+      .returning({ user_id: userTwoFactor.user_id });
+
+    return removed.length > 0;
+  }
+
+  /**
+   * Start a pending sign-in; the returned token goes into the 2FA cookie
+   */
+  static async createChallenge(userId: string): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+
+    await db.insert(twoFactorChallenges).values({
+      user_id: userId,
+      token_hash: this.hashToken(token),
+      expires_at: new Date(Date.now() + TWO_FACTOR_CHALLENGE_EXPIRY * 1000),
+    });
+
+    return token;
+  }
+
+  /**
+   * User of a pending, unexpired challenge
+   */
+  static async getChallengeUserId(token: string): Promise<string | null> {
+    const [challenge] = await db
+      .select({ user_id: twoFactorChallenges.user_id })
+      .from(twoFactorChallenges)
+      .where(and(
+        eq(twoFactorChallenges.token_hash, this.hashToken(token)),
+        isNull(twoFactorChallenges.used_at),
+        gt(twoFactorChallenges.expires_at, new Date()),
+        lt(twoFactorChallenges.attempts, MAX_CHALLENGE_ATTEMPTS)
+      ))
+      .limit(1);
+
+    return challenge?.user_id || null;
+  }
+
+  /**
+   * Check the second factor for a pending sign-in and consume the challenge
+   * The challenge is deleted and the code consumed in one transaction, so two
+   * parallel requests cannot both redeem them. Each wrong code counts against
+   * the challenge, which then expires.
+   */
+  static async verifyChallenge(token: string, code: string): Promise<{ userId: string; method: TwoFactorMethod }> {
+    const tokenHash = this.hashToken(token);
+
+    try {
+      return await db.transaction(async (tx) => {
+        const [challenge] = await tx
+          .delete(twoFactorChallenges)
+          .where(and(
+            eq(twoFactorChallenges.token_hash, tokenHash),
+            isNull(twoFactorChallenges.used_at),
+            gt(twoFactorChallenges.expires_at, new Date()),
+            lt(twoFactorChallenges.attempts, MAX_CHALLENGE_ATTEMPTS)
+          ))
+          .returning({ user_id: twoFactorChallenges.user_id });
+
+        if (!challenge) {
+          throw new Error('Sign-in expired. Request a new magic link.');
+        }
+
+        // Throwing rolls the delete back, keeping the challenge for another attempt
+        const method = await this.verifyCode(challenge.user_id, code, tx);
+        if (!method) {
+          throw new Error('Invalid verification code');
+        }
+
+        return { userId: challenge.user_id, method };
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid verification code') {
+        await db
+          .update(twoFactorChallenges)
+          .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+          .where(eq(twoFactorChallenges.token_hash, tokenHash));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a challenge as used (after verification or enrolment)
+   */
+  static async completeChallenge(token: string): Promise<void> {
+    await db
+      .update(twoFactorChallenges)
+      .set({ used_at: new Date() })
+      .where(eq(twoFactorChallenges.token_hash, this.hashToken(token)));
+  }
+
+  private static async getRow(userId: string, database: typeof db | Transaction = db) {
+    const [row] = await database
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.user_id, userId))
+      .limit(1);
+
+    return row || null;
+  }
+
+  // Formatted as xxxxx-xxxxx; the dash and case are ignored when checking
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+  }
+
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
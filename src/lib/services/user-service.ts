@@ -1,11 +1,13 @@
 import { db } from '@/lib/db';
-import { users, userSessions, magicLinks } from '@/lib/db/schema';
-import { eq, desc, count, and, gte } from 'drizzle-orm';
+import { users, userSessions, magicLinks, userTwoFactor } from '@/lib/db/schema';
+import { eq, desc, count, and, gte, ne, sql } from 'drizzle-orm';
+import type { UserRole } from '@/lib/permissions';
 
 export interface User {
   id: string;
   email: string;
   name?: string | null;
+  role: UserRole;
   is_active: boolean;
   last_login?: Date | null;
   created_at: Date;
@@ -16,14 +18,22 @@ export interface UserWithStats extends User {
   session_count: number;
   last_session?: Date | null;
   magic_link_count: number;
+  two_factor_enabled: boolean;
 }
 
 export interface CreateUserData {
   email: string;
   name?: string;
+  role?: UserRole;
   is_active?: boolean;
 }
 
+export interface UserChanges {
+  role?: UserRole;
+  is_active?: boolean;
+  delete?: boolean;
+}
+
 export interface UpdateUserData extends Partial<CreateUserData> {
   id: string;
 }
@@ -37,12 +47,15 @@ export class UserService {
           id: users.id,
           email: users.email,
           name: users.name,
+          role: users.role,
           is_active: users.is_active,
           last_login: users.last_login,
           created_at: users.created_at,
           updated_at: users.updated_at,
+          two_factor_enabled: sql<boolean>`${userTwoFactor.enabled_at} is not null`,
         })
         .from(users)
+        .leftJoin(userTwoFactor, eq(userTwoFactor.user_id, users.id))
         .orderBy(desc(users.created_at));
 
       // Get session counts and last session for each user
@@ -84,6 +97,7 @@ export class UserService {
             created_at: new Date(user.created_at),
             updated_at: new Date(user.updated_at),
             last_login: user.last_login ? new Date(user.last_login) : null,
+            role: user.role as UserRole,
             session_count: sessionCountResult[0]?.count || 0,
             last_session: lastSessionResult[0]?.created_at ? new Date(lastSessionResult[0].created_at) : null,
             magic_link_count: magicLinkCountResult[0]?.count || 0,
@@ -114,6 +128,7 @@ export class UserService {
         created_at: new Date(user.created_at),
         updated_at: new Date(user.updated_at),
         last_login: user.last_login ? new Date(user.last_login) : null,
+        role: user.role as UserRole,
       };
     } catch {
       // Silent error handling - don't log to console
@@ -138,6 +153,7 @@ export class UserService {
         created_at: new Date(user.created_at),
         updated_at: new Date(user.updated_at),
         last_login: user.last_login ? new Date(user.last_login) : null,
+        role: user.role as UserRole,
       };
     } catch {
       // Silent error handling - don't log to console
@@ -160,6 +176,7 @@ export class UserService {
         .values({
           email: normalizedEmail,
           name: data.name || normalizedEmail.split('@')[0],
+          role: data.role || 'editor',
           is_active: data.is_active ?? true,
         })
         .returning();
@@ -170,6 +187,7 @@ export class UserService {
         created_at: new Date(user.created_at),
         updated_at: new Date(user.updated_at),
         last_login: user.last_login ? new Date(user.last_login) : null,
+        role: user.role as UserRole,
       };
     } catch (error) {
       // Silent error handling - don't log to console
@@ -200,6 +218,7 @@ export class UserService {
       }
       if (data.name !== undefined) updateData.name = data.name;
       if (data.is_active !== undefined) updateData.is_active = data.is_active;
+      if (data.role !== undefined) updateData.role = data.role;
 
       const result = await db
         .update(users)
@@ -217,6 +236,7 @@ export class UserService {
         created_at: new Date(user.created_at),
         updated_at: new Date(user.updated_at),
         last_login: user.last_login ? new Date(user.last_login) : null,
+        role: user.role as UserRole,
       };
     } catch (error) {
       // Silent error handling - don't log to console
@@ -278,6 +298,7 @@ export class UserService {
         created_at: new Date(user.created_at),
         updated_at: new Date(user.updated_at),
         last_login: user.last_login ? new Date(user.last_login) : null,
+        role: user.role as UserRole,
       };
     } catch (error) {
       // Silent error handling - don't log to console
@@ -300,6 +321,39 @@ export class UserService {
     }
   }
 
+  /**
+   * Check that `actor` may apply `changes` to a user
+   * Only owners may grant the owner role or change an owner, and the last
+   * active owner can never be demoted, deactivated or deleted.
+   */
+  static async assertCanModifyUser(actor: { user_id: string; role: string }, targetId: string, changes: UserChanges): Promise<void> {
+    const target = await this.getUserById(targetId);
+    if (!target) {
+      throw new Error('User not found');
+    }
+
+    if ((target.role === 'owner' || changes.role === 'owner') && actor.role !== 'owner') {
+      throw new Error('Only owners can manage owner accounts');
+    }
+
+    const removesOwner = target.role === 'owner' && target.is_active && (
+      changes.delete ||
+      changes.is_active === false ||
+      (changes.role !== undefined && changes.role !== 'owner')
+    );
+
+    if (removesOwner) {
+      const [otherOwners] = await db
+        .select({ count: count() })
+        .from(users)
+        .where(and(eq(users.role, 'owner'), eq(users.is_active, true), ne(users.id, targetId)));
+
+      if ((otherOwners?.count || 0) === 0) {
+        throw new Error('The last owner cannot be demoted, deactivated or deleted');
+      }
+    }
+  }
+
   static async getUserStats(): Promise<{
     total: number;
     active: number;
@@ -0,0 +1,128 @@
+/**
+ * USER-AGENT PARSING
+ *
+ * Classifies the user agent of a click into browser, OS, device type and
+ * whether it came from a bot. Bots include search crawlers, the preview
+ * fetchers chat apps and social networks use to unfurl links, uptime
+ * monitors and HTTP libraries. Detection is deliberately coarse: it answers
+ * "how much traffic is mobile" without shipping a user-agent database.
+ */
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop' | 'bot';
+
+export interface ParsedUserAgent {
+  browser: string | null; // Bot name for bots
+  browserVersion: string | null; // Major version
+  os: string | null;
+  deviceType: DeviceType | null; // Null when there is no user agent
+  isBot: boolean;
+}
+
+// Known automated clients, checked in order; the name is recorded as the browser
+const BOTS: [RegExp, string][] = [
+  // Link previews
+  [/facebookexternalhit|Facebot|meta-externalagent/i, 'Facebook'],
+  [/Twitterbot/i, 'Twitter'],
+  [/Slackbot|Slack-ImgProxy/i, 'Slack'],
+  [/Discordbot/i, 'Discord'],
+  [/TelegramBot/i, 'Telegram'],
+  [/WhatsApp/i, 'WhatsApp'],
+  [/LinkedInBot/i, 'LinkedIn'],
+  [/SkypeUriPreview|MicrosoftPreview|BingPreview/i, 'Microsoft Preview'],
+  [/Pinterestbot|Pinterest\//i, 'Pinterest'],
+  [/redditbot/i, 'Reddit'],
+  [/Applebot/i, 'Applebot'],
+  [/Mastodon\//i, 'Mastodon'],
+  [/Bluesky Cardyb/i, 'Bluesky'],
+  [/Embedly|Iframely|vkShare|Snapchat|Viber/i, 'Link preview'],
+  // Search and AI crawlers
+  [/Googlebot|Google-InspectionTool|Google-PageRenderer|AdsBot-Google|Mediapartners-Google|Storebot-Google/i, 'Googlebot'],
+  [/bingbot|msnbot|adidxbot/i, 'Bingbot'],
+  [/DuckDuckBot|DuckAssistBot/i, 'DuckDuckBot'],
+  [/YandexBot|YandexImages|YandexMobileBot/i, 'YandexBot'],
+  [/Baiduspider/i, 'Baiduspider'],
+  [/GPTBot|ChatGPT-User|OAI-SearchBot/i, 'OpenAI'],
+  [/ClaudeBot|Claude-User|anthropic-ai/i, 'Anthropic'],
+  [/PerplexityBot|Perplexity-User/i, 'Perplexity'],
+  [/CCBot/i, 'Common Crawl'],
+  [/Bytespider/i, 'Bytespider'],
+  [/Amazonbot/i, 'Amazonbot'],
+  [/AhrefsBot|SemrushBot|MJ12bot|DotBot|PetalBot|Sogou|Exabot|SeznamBot|ia_archiver|archive\.org_bot/i, 'Crawler'],
+  // Monitoring, headless browsers and HTTP libraries
+  [/UptimeRobot|Pingdom|StatusCake|Site24x7|Better ?Uptime|Datadog/i, 'Uptime monitor'],
+  [/HeadlessChrome|PhantomJS|Lighthouse|Puppeteer|Playwright/i, 'Headless browser'],
+  [/^curl\/|^Wget\/|python-requests|python-urllib|aiohttp|httpx|Go-http-client|node-fetch|undici|axios\/|okhttp|^Java\/|libwww-perl|Apache-HttpClient|Scrapy|PostmanRuntime|insomnia/i, 'HTTP client'],
+];
+
+// Catch-all for crawlers that say what they are ("Cubot" is a phone brand)
+const GENERIC_BOT = /(?<!cu)bot\b|crawl|spider|slurp|fetcher|scraper|preview/i;
+
+// In-app browsers first: they also claim Safari/Chrome. Edge and Opera also claim Chrome, Chrome also claims Safari.
+const BROWSERS: [RegExp, string][] = [
+  [/Instagram (\d+)/, 'Instagram'],
+  [/FBAV\/(\d+)|FBAN\//, 'Facebook'],
+  [/Edg(?:e|A|iOS)?\/(\d+)/, 'Edge'],
+  [/OPR\/(\d+)|OPT\/(\d+)|Opera[/ ](\d+)/, 'Opera'],
+  [/SamsungBrowser\/(\d+)/, 'Samsung Internet'],
+  [/YaBrowser\/(\d+)/, 'Yandex Browser'],
+  [/UCBrowser\/(\d+)/, 'UC Browser'],
+  [/Firefox\/(\d+)|FxiOS\/(\d+)/, 'Firefox'],
+  [/Chrome\/(\d+)|CriOS\/(\d+)/, 'Chrome'],
+  [/Version\/(\d+)[\d.]* (?:Mobile\/\S+ )?Safari\//, 'Safari'],
+  [/MSIE (\d+)|Trident\/.*rv:(\d+)/, 'Internet Explorer'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows Phone/, 'Windows Phone'],
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux|X11/, 'Linux'],
+];
+
+// Android tablets drop "Mobile" from the user agent
+const TABLET = /iPad|Tablet|PlayBook|Kindle|Silk\/|Android(?!.*Mobile)/i;
+const MOBILE = /Mobi|iPhone|iPod|Android|Windows Phone|BlackBerry|Opera Mini|IEMobile/i;
+
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  const ua = userAgent?.trim();
+  if (!ua) {
+    return { browser: null, browserVersion: null, os: null, deviceType: null, isBot: false };
+  }
+
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+
+  const bot = BOTS.find(([pattern]) => pattern.test(ua));
+  if (bot || GENERIC_BOT.test(ua)) {
+    return { browser: bot ? bot[1] : 'Bot', browserVersion: null, os, deviceType: 'bot', isBot: true };
+  }
+
+  let browser: string | null = null;
+  let browserVersion: string | null = null;
+  for (const [pattern, name] of BROWSERS) {
+    const match = ua.match(pattern);
+    if (match) {
+      browser = name;
+      browserVersion = match.slice(1).find(Boolean) ?? null;
+      break;
+    }
+  }
+
+  const deviceType: DeviceType = TABLET.test(ua) ? 'tablet' : MOBILE.test(ua) ? 'mobile' : 'desktop';
+
+  return { browser, browserVersion, os, deviceType, isBot: false };
+}
+
+// Values for the user-agent columns of the clicks table
+export function userAgentColumns(userAgent: string | null | undefined) {
+  const parsed = parseUserAgent(userAgent);
+  return {
+    browser: parsed.browser,
+    browser_version: parsed.browserVersion,
+    os: parsed.os,
+    device_type: parsed.deviceType,
+    is_bot: parsed.isBot,
+  };
+}
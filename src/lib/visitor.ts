@@ -0,0 +1,20 @@
+import type { NextResponse } from 'next/server';
+import { VISITOR_COOKIE_MAX_AGE, VISITOR_COOKIE_NAME } from '@/lib/auth-constants';
+
+// Query marker added when a visitor is sent to store their ID, so a browser that
+// refuses cookies is not sent round again
+export const VISITOR_RETRY_PARAM = 'gl_v';
+
+// Store the anonymous visitor ID that keeps A/B redirect assignment sticky
+// Only set once a redirect with variants has been resolved for the visitor.
+export function setVisitorCookie(response: NextResponse, visitorId: string): void {
+  response.cookies.set({
+    name: VISITOR_COOKIE_NAME,
+    value: visitorId,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: VISITOR_COOKIE_MAX_AGE,
+    path: '/',
+    sameSite: 'lax',
+  });
+}